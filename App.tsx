@@ -1,7 +1,21 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { QuotationData, ClientDetails, Material, Tile, Settings, InvoiceData, ChecklistItem, Client, Expense, Adjustment } from './types';
-import { generateQuotationFromAI, getTextFromImageAI } from './services/geminiService';
+import { QuotationData, ClientDetails, Material, Tile, Settings, InvoiceData, InvoiceStage, ChecklistItem, Client, Expense, Adjustment, RoomMeasurement, SyncMeta } from './types';
+import { getTextFromImageAI } from './services/geminiService';
+import { generateQuotation, parseQuotationFromNotes } from './services/notesParserService';
+import { roomsToTiles } from './services/roomMeasurementService';
+import { issueDocumentNumber, getNumberSequences, loadNumberSequences, mergeNumberSequences, setNumberSequences } from './services/numberingService';
+import { applyCreditNote, getCreditableAmount } from './services/paymentService';
+import { reconcileOverdueInvoices } from './services/overdueService';
+import { findClientMatches, mergeClients } from './services/clientService';
+import { formatMigrationReport } from './services/schemaService';
+import { getAuditLog, importAuditEntries, recordAuditTrail } from './services/auditService';
+import { acceptRevision, createRevision, getRevisions } from './services/revisionService';
+import { EncryptedBackupFile, RestorableCollection, RestoreMode, RestorePreview, applyRestore, createBackup, decryptBackup, downloadBackup, encryptBackup, isEncryptedBackup, previewRestore } from './services/backupService';
+import { CollectionName, Repository, loadStoredData, saveSettings, describeStorageError, quotationRepository, invoiceRepository, clientRepository, expenseRepository } from './services/storageService';
+import { SETTINGS_RECORD_ID, SyncChange, SyncStatus, applyRemoteChanges, getDeviceId, getLastSyncAt, isOfflineError, mergeRemoteSettings, prepareLocalChanges, prepareLocalRecord, queueChanges, runSync } from './services/syncService';
+import { BillingMode, buildInvoiceFromQuotation, createBalanceStage, createDepositStage, createMilestoneStage, getQuotationBilling } from './services/billingService';
 import InputSection from './components/InputSection';
+import RoomMeasurementInput from './components/RoomMeasurementInput';
 import QuotationDisplay from './components/QuotationDisplay';
 import ImageCropper from './components/ImageCropper';
 import { HanifgoldLogoIcon, GenerateIcon, SettingsIcon, SunIcon, MoonIcon, DashboardIcon, ClientsIcon, HistoryIcon, InvoiceIcon, ExpenseIcon, PlusIcon } from './components/icons';
@@ -15,6 +29,7 @@ import Dashboard from './components/Dashboard';
 import History from './components/History';
 import Invoices from './components/Invoices';
 import Clients from './components/Clients';
+import ClientDetail from './components/ClientDetail';
 import Expenses from './components/Expenses';
 import ExpenseModal from './components/ExpenseModal';
 import ClientModal from './components/ClientModal';
@@ -27,13 +42,11 @@ import BulkSuccessModal from './components/BulkSuccessModal';
 import { DEFAULT_SETTINGS } from './constants';
 import { exportQuotesToZip } from './services/exportService';
 import PWAInstallPrompt from './components/PWAInstallPrompt';
+import RestorePreviewModal from './components/RestorePreviewModal';
+import PassphraseModal from './components/PassphraseModal';
+import { SnapshotInfo, getBackupOverdueDays, getLastBackupExportedAt, isSnapshotDue, listSnapshots, loadSnapshot, recordBackupExported, takeSnapshot } from './services/snapshotService';
 
 
-const QUOTATIONS_KEY = 'tilingAiQuotations';
-const INVOICES_KEY = 'tilingAiInvoices';
-const CLIENTS_KEY = 'tilingAiClients';
-const EXPENSES_KEY = 'tilingAiExpenses';
-const SETTINGS_KEY = 'tilingAiSettings';
 const PWA_PROMPT_DISMISSED_KEY = 'pwaPromptDismissed';
 const THEME_KEY = 'theme';
 
@@ -113,10 +126,48 @@ const useHistoryState = <T,>(initialState: T) => {
 };
 
 
+/**
+ * Writes a collection to its repository whenever it changes, touching only the records that changed.
+ * The snapshot advances before the write so overlapping changes diff against it rather than queueing the same
+ * records twice; a failed write rolls it back, so failed records are retried on the next change.
+ * Local edits are first stamped with sync fields through `setItems`, then queued for sync once written
+ * and passed to `onWritten`.
+ */
+const usePersistedCollection = <T extends SyncMeta & { id: string }>(collection: CollectionName, repository: Repository<T>, items: T[], setItems: React.Dispatch<React.SetStateAction<T[]>>, isLoaded: boolean, onError: (error: unknown) => void, onWritten?: (previous: T[], next: T[], changes: SyncChange[]) => Promise<void>) => {
+  const saved = useRef<T[] | null>(null);
+  useEffect(() => {
+    if (!isLoaded) return;
+    if (saved.current === null) {
+      // First render after loading: what is in state is what was just read
+      saved.current = items;
+      return;
+    }
+    const { stamped, changes } = prepareLocalChanges(collection, saved.current, items, getDeviceId());
+    if (stamped) {
+      setItems(current => current === items ? stamped : current);
+      return;
+    }
+    const previous = saved.current;
+    saved.current = items;
+    repository.sync(previous, items)
+      .then(
+        () => Promise.all([queueChanges(changes), onWritten?.(previous, items, changes)]),
+        error => {
+          // Only roll back if no later change has already moved the snapshot on
+          if (saved.current === items) saved.current = previous;
+          throw error;
+        }
+      )
+      .catch(onError);
+  }, [collection, repository, items, setItems, isLoaded, onError, onWritten]);
+};
+
 const App: React.FC = () => {
   const [view, setView] = useState<'generator' | 'dashboard' | 'history' | 'invoices' | 'clients' | 'expenses'>('dashboard');
   const { state: jobNotes, set: setJobNotes, undo: undoJobNotes, redo: redoJobNotes, canUndo: canUndoJobNotes, canRedo: canRedoJobNotes, reset: resetJobNotes } = useHistoryState<string[]>([]);
   const [quotationData, setQuotationData] = useState<QuotationData | null>(null);
+  const [inputMode, setInputMode] = useState<'notes' | 'rooms'>('notes');
+  const [roomMeasurements, setRoomMeasurements] = useState<RoomMeasurement[]>([]);
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
     const savedTheme = localStorage.getItem(THEME_KEY);
     if (savedTheme) return savedTheme as 'light' | 'dark';
@@ -124,113 +175,145 @@ const App: React.FC = () => {
   });
 
   
-  const [settings, setSettings] = useState<Settings>(() => {
-      try {
-        const savedSettings = localStorage.getItem(SETTINGS_KEY);
-        return savedSettings ? { ...DEFAULT_SETTINGS, ...JSON.parse(savedSettings) } : DEFAULT_SETTINGS;
-      } catch (error) {
-        console.error('Failed to parse settings from localStorage', error);
-        return DEFAULT_SETTINGS;
-      }
-  });
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
   
-  const [allQuotations, setAllQuotations] = useState<QuotationData[]>(() => {
-    try {
-      const savedQuotations = localStorage.getItem(QUOTATIONS_KEY);
-      const parsedQuotations = savedQuotations ? JSON.parse(savedQuotations) : [];
-      
-      if (!Array.isArray(parsedQuotations)) return [];
-
-      // Migration for new properties with strict safety checks
-      return parsedQuotations.map((q: any) => {
-          if (!q || typeof q !== 'object') return null;
-          return {
-            ...q,
-            status: q.status || 'Pending',
-            invoiceId: q.invoiceId || undefined,
-            isBulkGenerated: q.isBulkGenerated || false,
-            checklist: Array.isArray(q.checklist) ? q.checklist : [],
-            adjustments: Array.isArray(q.adjustments) ? q.adjustments : [],
-            depositPercentage: q.depositPercentage ?? null,
-            showMaterials: q.showMaterials ?? true,
-            showAdjustments: q.showAdjustments ?? true,
-            showBankDetails: q.showBankDetails ?? true,
-            showTerms: q.showTerms ?? settings.showTermsAndConditions,
-            showWorkmanship: q.showWorkmanship ?? true,
-            showMaintenance: q.showMaintenance ?? settings.showMaintenance,
-            showTax: q.showTax ?? settings.showTax,
-            showCostSummary: q.showCostSummary ?? true,
-            clientDetails: {
-                ...(q.clientDetails || {}),
-                showClientName: q.clientDetails?.showClientName ?? true,
-                showClientAddress: q.clientDetails?.showClientAddress ?? true,
-                showClientPhone: q.clientDetails?.showClientPhone ?? true,
-                showProjectName: q.clientDetails?.showProjectName ?? true,
-                clientId: q.clientDetails?.clientId,
-            }
-          };
-      }).filter((q: any) => q !== null);
-    } catch (error) {
-      console.error('Failed to parse quotations from localStorage', error);
-      return [];
-    }
-  });
+  const [allQuotations, setAllQuotations] = useState<QuotationData[]>([]);
 
-   const [allInvoices, setAllInvoices] = useState<InvoiceData[]>(() => {
-    try {
-        const savedInvoices = localStorage.getItem(INVOICES_KEY);
-        const parsed = savedInvoices ? JSON.parse(savedInvoices) : [];
-        return Array.isArray(parsed) ? parsed : [];
-    } catch (error) {
-        console.error('Failed to parse invoices from localStorage', error);
-        return [];
-    }
-  });
+   const [allInvoices, setAllInvoices] = useState<InvoiceData[]>([]);
   
-  const [allClients, setAllClients] = useState<Client[]>(() => {
-    try {
-        const savedClients = localStorage.getItem(CLIENTS_KEY);
-        const parsed = savedClients ? JSON.parse(savedClients) : [];
-        return Array.isArray(parsed) ? parsed : [];
-    } catch (error) {
-        console.error('Failed to parse clients from localStorage', error);
-        return [];
-    }
-  });
+  const [allClients, setAllClients] = useState<Client[]>([]);
   
-  const [allExpenses, setAllExpenses] = useState<Expense[]>(() => {
-    try {
-        const savedExpenses = localStorage.getItem(EXPENSES_KEY);
-        const parsed = savedExpenses ? JSON.parse(savedExpenses) : [];
-        return Array.isArray(parsed) ? parsed : [];
-    } catch (error) {
-        console.error('Failed to parse expenses from localStorage', error);
-        return [];
-    }
-  });
+  const [allExpenses, setAllExpenses] = useState<Expense[]>([]);
 
 
   const [historyFilterIds, setHistoryFilterIds] = useState<string[] | null>(null);
+  const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
+  const selectedClient = allClients.find(c => c.id === selectedClientId) || null;
+
+  // Leaving the clients view closes any open client page
+  useEffect(() => {
+    if (view !== 'clients') setSelectedClientId(null);
+  }, [view]);
+
+  // Load everything from IndexedDB once, moving over data saved in localStorage by older versions
+  const [isDataLoaded, setIsDataLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error('Failed to save data', error);
+    setStorageError(describeStorageError(error));
+  }, []);
 
   useEffect(() => {
-    localStorage.setItem(QUOTATIONS_KEY, JSON.stringify(allQuotations));
-  }, [allQuotations]);
+    Promise.all([loadStoredData(), loadNumberSequences()])
+      .then(([{ data, report }]) => {
+        setSettings(data.settings);
+        setAllQuotations(data.quotations);
+        setAllInvoices(data.invoices);
+        setAllClients(data.clients);
+        setAllExpenses(data.expenses);
+        setIsDataLoaded(true);
+        const summary = formatMigrationReport(report);
+        if (summary) alert(`Some saved records were damaged and have been repaired.\n\n${summary}`);
+      })
+      .catch(error => {
+        console.error('Failed to load data', error);
+        setStorageError(`Your saved data could not be loaded (${error instanceof Error ? error.message : String(error)}). Changes made now may not be saved.`);
+        setIsDataLoaded(true);
+      });
+  }, []);
+
+  // Edits made on this device to quotations and invoices go into their change log
+  const auditQuotations = useCallback((previous: QuotationData[], next: QuotationData[], changes: SyncChange[]) =>
+    recordAuditTrail('quotation', previous, next, changes.map(change => change.id), settingsRef.current.auditUserName), []);
+  const auditInvoices = useCallback((previous: InvoiceData[], next: InvoiceData[], changes: SyncChange[]) =>
+    recordAuditTrail('invoice', previous, next, changes.map(change => change.id), settingsRef.current.auditUserName), []);
+
+  usePersistedCollection('quotations', quotationRepository, allQuotations, setAllQuotations, isDataLoaded, handleStorageError, auditQuotations);
+  usePersistedCollection('invoices', invoiceRepository, allInvoices, setAllInvoices, isDataLoaded, handleStorageError, auditInvoices);
+  usePersistedCollection('clients', clientRepository, allClients, setAllClients, isDataLoaded, handleStorageError);
+  usePersistedCollection('expenses', expenseRepository, allExpenses, setAllExpenses, isDataLoaded, handleStorageError);
 
+  // Keep overdue statuses and late fees current: on load, whenever the late-fee policy changes, and hourly while open.
+  // Other settings are read through the ref so editing e.g. the company name doesn't trigger a pass.
+  const { lateFeeEnabled, lateFeeType, lateFeeAmount, lateFeePeriodDays, lateFeeMaxPeriods } = settings;
   useEffect(() => {
-    localStorage.setItem(INVOICES_KEY, JSON.stringify(allInvoices));
-  }, [allInvoices]);
+    if (!isDataLoaded) return;
+    const reconcile = () => setAllInvoices(prev => reconcileOverdueInvoices(prev, settingsRef.current));
+    reconcile();
+    const timer = window.setInterval(reconcile, 60 * 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [isDataLoaded, lateFeeEnabled, lateFeeType, lateFeeAmount, lateFeePeriodDays, lateFeeMaxPeriods]);
   
+  // Settings are saved and synced like a single record
+  const savedSettings = useRef<Settings | null>(null);
   useEffect(() => {
-    localStorage.setItem(CLIENTS_KEY, JSON.stringify(allClients));
-  }, [allClients]);
+    if (!isDataLoaded) return;
+    if (savedSettings.current === null) {
+      savedSettings.current = settings;
+      return;
+    }
+    if (savedSettings.current === settings) return;
+    const { stamped, change } = prepareLocalRecord('settings', SETTINGS_RECORD_ID, savedSettings.current, settings, getDeviceId());
+    if (stamped) {
+      setSettings(current => current === settings ? stamped : current);
+      return;
+    }
+    saveSettings(settings)
+      .then(() => {
+        savedSettings.current = settings;
+        return change ? queueChanges([change]) : undefined;
+      })
+      .catch(handleStorageError);
+  }, [settings, isDataLoaded, handleStorageError]);
+
+  // Sync with the user's own server: on load, on an interval, and when the connection comes back
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'idle' });
+  // Numbers two devices issued to different documents while offline, for the user to renumber one of
+  const [duplicateNumbers, setDuplicateNumbers] = useState<string[]>([]);
+  const isSyncing = useRef(false);
 
   useEffect(() => {
-    localStorage.setItem(EXPENSES_KEY, JSON.stringify(allExpenses));
-  }, [allExpenses]);
-  
+    if (isDataLoaded) getLastSyncAt().then(lastSyncAt => setSyncStatus(prev => ({ ...prev, lastSyncAt }))).catch(error => console.error('Failed to read last sync date', error));
+  }, [isDataLoaded]);
+
+  const performSync = useCallback(async () => {
+    if (isSyncing.current) return;
+    isSyncing.current = true;
+    setSyncStatus(prev => ({ ...prev, state: 'syncing', message: undefined }));
+    try {
+      const { changes, duplicateNumbers: duplicates } = await runSync(settingsRef.current);
+      if (duplicates.length > 0) setDuplicateNumbers(prev => [...new Set([...prev, ...duplicates])]);
+      if (changes.length > 0) {
+        setAllQuotations(prev => applyRemoteChanges(prev, 'quotations', changes));
+        setAllInvoices(prev => applyRemoteChanges(prev, 'invoices', changes));
+        setAllClients(prev => applyRemoteChanges(prev, 'clients', changes));
+        setAllExpenses(prev => applyRemoteChanges(prev, 'expenses', changes));
+        const settingsChange = changes.find(change => change.collection === 'settings' && change.record);
+        if (settingsChange) setSettings(prev => mergeRemoteSettings(prev, settingsChange));
+      }
+      setSyncStatus({ state: 'idle', lastSyncAt: Date.now() });
+    } catch (error) {
+      console.error('Sync failed', error);
+      setSyncStatus(prev => isOfflineError(error)
+        ? { ...prev, state: 'offline' }
+        : { ...prev, state: 'error', message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      isSyncing.current = false;
+    }
+  }, []);
+
   useEffect(() => {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-  }, [settings]);
+    if (!isDataLoaded || !settings.syncEnabled || !settings.syncEndpoint.trim()) return;
+    performSync();
+    const timer = window.setInterval(performSync, Math.max(1, settings.syncIntervalMinutes) * 60 * 1000);
+    window.addEventListener('online', performSync);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('online', performSync);
+    };
+  }, [isDataLoaded, settings.syncEnabled, settings.syncEndpoint, settings.syncIntervalMinutes, performSync]);
   
   useEffect(() => {
     const root = window.document.documentElement;
@@ -313,8 +396,9 @@ const App: React.FC = () => {
 
   // Generator Logic
   const handleGenerate = async () => {
-      if (jobNotes.length === 0) {
-          alert("Please add at least one note or upload an image.");
+      const roomTiles = roomsToTiles(roomMeasurements, settings);
+      if (jobNotes.length === 0 && roomTiles.length === 0) {
+          alert("Please add at least one note or room measurement, or upload an image.");
           return;
       }
       
@@ -334,13 +418,37 @@ const App: React.FC = () => {
             ${textInput}
         `;
 
-        const data = await generateQuotationFromAI(combinedInput, settings, settings.addCheckmateDefault, settings.showChecklistDefault);
+        // Rooms alone need no AI; the offline parser still supplies client details and defaults
+        const data = jobNotes.length > 0
+            ? await generateQuotation(combinedInput, settings, settings.addCheckmateDefault, settings.showChecklistDefault)
+            : parseQuotationFromNotes(combinedInput, settings, settings.addCheckmateDefault, settings.showChecklistDefault);
+
+        // Link to an existing client that looks like the same person before saving a new one
+        let clientId = clientDetails.clientId;
+        let newClient: Client | null = null;
+        if (!clientId && data.clientDetails.clientName) {
+            const match = findClientMatches({ name: data.clientDetails.clientName, phone: data.clientDetails.clientPhone }, allClients)[0];
+            if (match && window.confirm(`"${data.clientDetails.clientName}" looks like your existing client "${match.client.name}"${match.client.phone ? ` (${match.client.phone})` : ''}. Link this quotation to them?`)) {
+                clientId = match.client.id;
+            } else if (saveClientInfo) {
+                newClient = {
+                    id: crypto.randomUUID(),
+                    name: data.clientDetails.clientName,
+                    address: data.clientDetails.clientAddress,
+                    phone: data.clientDetails.clientPhone,
+                };
+                clientId = newClient.id;
+            }
+        }
         
         const newQuotation: QuotationData = {
             id: crypto.randomUUID(),
+            quotationNumber: issueDocumentNumber('quotation', settings, allQuotations.map(q => q.quotationNumber || '')),
             date: Date.now(),
             status: 'Pending',
             ...data,
+            tiles: [...data.tiles, ...roomTiles],
+            roomMeasurements: roomTiles.length > 0 ? roomMeasurements : undefined,
             clientDetails: {
                 ...data.clientDetails,
                 // Preserve toggle states from form if not explicitly overridden by AI logic (AI usually just returns strings)
@@ -348,7 +456,7 @@ const App: React.FC = () => {
                 showClientAddress: clientDetails.showClientAddress,
                 showClientPhone: clientDetails.showClientPhone,
                 showProjectName: clientDetails.showProjectName,
-                clientId: clientDetails.clientId,
+                clientId,
             },
              showMaterials: settings.showMaterialsDefault,
              showAdjustments: settings.showAdjustmentsDefault,
@@ -358,21 +466,13 @@ const App: React.FC = () => {
         setAllQuotations(prev => [newQuotation, ...prev]);
         
         // Auto-save client if checked and not already saved
-        if (saveClientInfo && newQuotation.clientDetails.clientName && !newQuotation.clientDetails.clientId) {
-            const newClient: Client = {
-                id: crypto.randomUUID(),
-                name: newQuotation.clientDetails.clientName,
-                address: newQuotation.clientDetails.clientAddress,
-                phone: newQuotation.clientDetails.clientPhone,
-            };
-            setAllClients(prev => [...prev, newClient]);
-            // Update the current quotation to link to this new client
-             setQuotationData(prev => prev ? ({ ...prev, clientDetails: { ...prev.clientDetails, clientId: newClient.id } }) : null);
+        if (newClient) {
+            setAllClients(prev => [...prev, newClient as Client]);
         }
 
       } catch (error) {
           console.error(error);
-          alert("Failed to generate quotation. Please check your API key or try again.");
+          alert("Failed to generate quotation. Please check your notes and try again.");
       }
   };
 
@@ -408,55 +508,143 @@ const App: React.FC = () => {
   };
 
   // Data Management Handlers
-  const handleBackup = () => {
-      const backupData = {
-          version: 1,
-          date: new Date().toISOString(),
-          quotations: allQuotations,
-          invoices: allInvoices,
-          clients: allClients,
-          expenses: allExpenses,
-          settings: settings
-      };
-      const blob = new Blob([JSON.stringify(backupData, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `Hanifgold_Backup_${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+  // When a backup was last exported, for the reminder banner: null until read, undefined if never
+  const [lastBackupAt, setLastBackupAt] = useState<number | null | undefined>(null);
+  const [isBackupReminderDismissed, setIsBackupReminderDismissed] = useState(false);
+
+  useEffect(() => {
+    if (isDataLoaded) getLastBackupExportedAt().then(setLastBackupAt).catch(error => console.error('Failed to read last backup date', error));
+  }, [isDataLoaded]);
+
+  const markBackupExported = () => {
+      setLastBackupAt(Date.now());
+      recordBackupExported().catch(error => console.error('Failed to record backup date', error));
+  };
+
+  // Rolling snapshots: checked on load and hourly, taken when the interval has passed
+  useEffect(() => {
+    if (!isDataLoaded || !settings.autoSnapshotEnabled) return;
+    const check = () => listSnapshots()
+      .then(snapshots => isSnapshotDue(snapshots, settings) ? takeSnapshot(settings) : null)
+      .catch(error => console.error('Automatic snapshot failed', error));
+    check();
+    const timer = window.setInterval(check, 60 * 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [isDataLoaded, settings]);
+
+  const handleBackup = async () => {
+      const auditLog = await getAuditLog().catch(error => {
+          console.error('Failed to read the change history', error);
+          return [];
+      });
+      const backup = createBackup({ quotations: allQuotations, invoices: allInvoices, clients: allClients, expenses: allExpenses, settings }, getNumberSequences(), auditLog);
+      downloadBackup(backup, `Hanifgold_Backup_${new Date().toISOString().split('T')[0]}.json`);
+      markBackupExported();
   };
 
+  // Passphrase prompt for making an encrypted backup, or for opening one picked to restore
+  const [passphraseRequest, setPassphraseRequest] = useState<{ mode: 'encrypt' } | { mode: 'decrypt'; file: EncryptedBackupFile } | null>(null);
+
+  const handlePassphraseSubmit = async (passphrase: string) => {
+      if (!passphraseRequest) return;
+      if (passphraseRequest.mode === 'encrypt') {
+          const backup = createBackup({ quotations: allQuotations, invoices: allInvoices, clients: allClients, expenses: allExpenses, settings }, getNumberSequences(), await getAuditLog());
+          downloadBackup(await encryptBackup(backup, passphrase), `Hanifgold_Backup_${new Date().toISOString().split('T')[0]}.encrypted.json`);
+          markBackupExported();
+      } else {
+          const data = await decryptBackup(passphraseRequest.file, passphrase);
+          setRestorePreview(previewRestore(data, { quotations: allQuotations, invoices: allInvoices, clients: allClients, expenses: allExpenses, settings }));
+      }
+      setPassphraseRequest(null);
+  };
+
+  // Restoring happens in two steps: the file is checked and compared first, then applied as the user chooses
+  const [restorePreview, setRestorePreview] = useState<RestorePreview | null>(null);
+
   const handleRestore = (file: File) => {
       const reader = new FileReader();
       reader.onload = (e) => {
           try {
               const data = JSON.parse(e.target?.result as string);
-              // Basic validation
-              if (typeof data !== 'object' || data === null) throw new Error("Invalid file format");
-              
-              if (data.quotations && Array.isArray(data.quotations)) setAllQuotations(data.quotations);
-              if (data.invoices && Array.isArray(data.invoices)) setAllInvoices(data.invoices);
-              if (data.clients && Array.isArray(data.clients)) setAllClients(data.clients);
-              if (data.expenses && Array.isArray(data.expenses)) setAllExpenses(data.expenses);
-              if (data.settings) setSettings({ ...DEFAULT_SETTINGS, ...data.settings });
-              
-              alert('Data restored successfully!');
+              setIsSettingsOpen(false);
+              if (isEncryptedBackup(data)) {
+                  setPassphraseRequest({ mode: 'decrypt', file: data });
+                  return;
+              }
+              setRestorePreview(previewRestore(data, { quotations: allQuotations, invoices: allInvoices, clients: allClients, expenses: allExpenses, settings }));
           } catch (err) {
               console.error(err);
-              alert('Failed to restore data. The file may be corrupted or invalid.');
+              alert(err instanceof SyntaxError ? 'Failed to restore data. The file may be corrupted or invalid.' : `Failed to restore data. ${err instanceof Error ? err.message : ''}`);
           }
       };
       reader.readAsText(file);
   };
 
+  const handleRestoreSnapshot = async (snapshot: SnapshotInfo) => {
+      try {
+          const backup = await loadSnapshot(snapshot);
+          setRestorePreview(previewRestore(backup, { quotations: allQuotations, invoices: allInvoices, clients: allClients, expenses: allExpenses, settings }));
+          setIsSettingsOpen(false);
+      } catch (err) {
+          console.error(err);
+          alert(`Failed to open the snapshot. ${err instanceof Error ? err.message : ''}`);
+      }
+  };
+
+  const handleApplyRestore = async (modes: Record<RestorableCollection, RestoreMode>, restoreSettings: boolean) => {
+      if (!restorePreview) return;
+      const current = { quotations: allQuotations, invoices: allInvoices, clients: allClients, expenses: allExpenses, settings };
+      const sequences = getNumberSequences();
+      // Safety copy of everything as it is now, so a bad restore can itself be restored
+      try {
+          downloadBackup(createBackup(current, sequences, await getAuditLog()), `Hanifgold_SafetyBackup_${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+      } catch (err) {
+          console.error(err);
+          if (!window.confirm('A safety backup of your current data could not be saved. Restore anyway?')) return;
+      }
+
+      const restored = applyRestore(current, restorePreview, modes, restoreSettings);
+      setAllQuotations(restored.quotations);
+      setAllInvoices(restored.invoices);
+      setAllClients(restored.clients);
+      setAllExpenses(restored.expenses);
+      setSettings(restored.settings);
+      if (restorePreview.numberSequences) {
+          setNumberSequences(mergeNumberSequences(sequences, restorePreview.numberSequences)).catch(handleStorageError);
+      }
+      importAuditEntries(restorePreview.auditLog).catch(error => console.error('Failed to restore the change history', error));
+      setQuotationData(null);
+      setRestorePreview(null);
+      alert('Data restored successfully!');
+  };
+
 
   // Other Handlers
   const handleQuotationUpdate = (updatedQuotation: QuotationData) => {
+      // Accepting one revision rejects the others, so only it can be invoiced
+      const previous = allQuotations.find(q => q.id === updatedQuotation.id);
+      const isAccepting = updatedQuotation.status === 'Accepted' && previous?.status !== 'Accepted';
+      if (isAccepting) {
+          const invoiced = getRevisions(updatedQuotation, allQuotations).find(q => q.id !== updatedQuotation.id && q.status === 'Invoiced');
+          if (invoiced) {
+              alert(`Rev ${invoiced.revisionCode} of this quotation has already been invoiced. Cancel its invoice before accepting another revision.`);
+              return;
+          }
+      }
       setQuotationData(updatedQuotation);
-      setAllQuotations(prev => prev.map(q => q.id === updatedQuotation.id ? updatedQuotation : q));
+      setAllQuotations(prev => isAccepting ? acceptRevision(updatedQuotation, prev) : prev.map(q => q.id === updatedQuotation.id ? updatedQuotation : q));
+  };
+
+  const handleCreateRevision = () => {
+      if (!quotationData) return;
+      const { source, revision } = createRevision(quotationData, allQuotations);
+      setAllQuotations(prev => [revision, ...prev.map(q => q.id === source.id ? source : q)]);
+      setQuotationData(revision);
+  };
+
+  const handleSelectRevision = (id: string) => {
+      const revision = allQuotations.find(q => q.id === id);
+      if (revision) setQuotationData(revision);
   };
   
   const handleViewQuotation = (id: string) => {
@@ -466,6 +654,8 @@ const App: React.FC = () => {
           setClientDetails(quote.clientDetails); // Populate form for context
           setJobNotes([]); // Clear notes to avoid confusion
           resetJobNotes([]); // Reset undo history
+          setRoomMeasurements(quote.roomMeasurements || []);
+          setInputMode(quote.roomMeasurements?.length ? 'rooms' : 'notes');
           setView('generator');
       }
   };
@@ -476,6 +666,7 @@ const App: React.FC = () => {
           const newQuote = { 
               ...quote, 
               id: crypto.randomUUID(), 
+              quotationNumber: issueDocumentNumber('quotation', settings, allQuotations.map(q => q.quotationNumber || '')),
               date: Date.now(), 
               status: 'Pending' as const,
               invoiceId: undefined,
@@ -495,55 +686,98 @@ const App: React.FC = () => {
       }
   };
 
-  const handleConvertToInvoice = (id: string) => {
+  const handleConvertToInvoice = (id: string, mode: BillingMode = 'full') => {
       const quote = allQuotations.find(q => q.id === id);
       if (!quote) return;
-      if (quote.invoiceId) {
-          alert("This quotation has already been invoiced.");
+      if (getRevisions(quote, allQuotations).length > 1 && quote.status !== 'Accepted' && quote.status !== 'Invoiced') {
+          alert(`Only the accepted revision of a quotation can be invoiced. Accept Rev ${quote.revisionCode} first.`);
           return;
       }
 
-      const newInvoice: InvoiceData = {
-          id: crypto.randomUUID(),
-          quotationId: quote.id,
-          invoiceNumber: `${settings.invoicePrefix}-${new Date().getFullYear()}-${Math.floor(Math.random() * 10000)}`,
-          invoiceDate: Date.now(),
-          dueDate: Date.now() + (7 * 24 * 60 * 60 * 1000), // +7 days default
-          status: 'Unpaid',
-          clientDetails: quote.clientDetails,
-          tiles: quote.tiles,
-          materials: quote.materials,
-          workmanshipRate: quote.workmanshipRate,
-          maintenance: quote.maintenance,
-          profitPercentage: quote.profitPercentage,
-          paymentTerms: 'Due on Receipt',
-          bankDetails: settings.defaultBankDetails,
-          invoiceNotes: settings.defaultInvoiceNotes,
-          showMaterials: quote.showMaterials,
-          showAdjustments: quote.showAdjustments,
-      };
+      let stage: InvoiceStage | undefined;
+      if (mode === 'balance') {
+          const balanceStage = createBalanceStage(quote, allInvoices, settings);
+          if (!balanceStage) {
+              alert("This quotation has already been invoiced in full.");
+              return;
+          }
+          stage = balanceStage;
+      } else {
+          if (getQuotationBilling(quote, allInvoices, settings).invoices.length > 0) {
+              alert("This quotation has already been invoiced.");
+              return;
+          }
+          if (mode === 'deposit') {
+              const depositStage = createDepositStage(quote, settings);
+              if (!depositStage) {
+                  alert("This quotation does not ask for a deposit.");
+                  return;
+              }
+              stage = depositStage;
+          }
+      }
+
+      const newInvoice = buildInvoiceFromQuotation(quote, settings, issueDocumentNumber('invoice', settings, allInvoices.map(i => i.invoiceNumber)), stage);
       
       setAllInvoices(prev => [newInvoice, ...prev]);
-      // Update quotation status
-      const updatedQuote = { ...quote, status: 'Invoiced' as const, invoiceId: newInvoice.id };
+      // Update quotation status; it keeps pointing at its first invoice, later stages link back through quotationId
+      const updatedQuote = { ...quote, status: 'Invoiced' as const, invoiceId: quote.invoiceId || newInvoice.id };
       handleQuotationUpdate(updatedQuote);
       
       setView('invoices');
       setEditingInvoice(newInvoice);
       setIsInvoiceModalOpen(true);
   };
+
+  // Ticking a billable checklist stage raises an interim invoice for its share of the contract
+  const handleBillMilestone = (quote: QuotationData, index: number) => {
+      const item = quote.checklist?.[index];
+      if (!item) return;
+      const stage = createMilestoneStage(quote, item, allInvoices, settings);
+      if (!stage) {
+          alert("This quotation has already been invoiced in full.");
+          return;
+      }
+
+      const newInvoice = buildInvoiceFromQuotation(quote, settings, issueDocumentNumber('invoice', settings, allInvoices.map(i => i.invoiceNumber)), stage);
+      setAllInvoices(prev => [newInvoice, ...prev]);
+      const checklist = quote.checklist!.map((c, i) => i === index ? { ...c, checked: true, invoiceId: newInvoice.id } : c);
+      handleQuotationUpdate({ ...quote, checklist, status: 'Invoiced', invoiceId: quote.invoiceId || newInvoice.id });
+
+      setEditingInvoice(newInvoice);
+      setIsInvoiceModalOpen(true);
+  };
   
   // Client Management
   const handleSaveClient = (client: Client) => {
       if (client.id) {
           setAllClients(prev => prev.map(c => c.id === client.id ? client : c));
       } else {
+          const match = findClientMatches(client, allClients)[0];
+          if (match && !window.confirm(`This looks like your existing client "${match.client.name}"${match.client.phone ? ` (${match.client.phone})` : ''}. Save as a new client anyway?`)) {
+              return;
+          }
           setAllClients(prev => [...prev, { ...client, id: crypto.randomUUID() }]);
       }
       setIsClientModalOpen(false);
       setEditingClient(null);
   };
   
+  // Relinks every quotation and invoice of the duplicate to the survivor, then removes the duplicate
+  const handleMergeClients = (survivorId: string, duplicateId: string) => {
+      const survivor = allClients.find(c => c.id === survivorId);
+      const duplicate = allClients.find(c => c.id === duplicateId);
+      if (!survivor || !duplicate || survivor.id === duplicate.id) return;
+      if (!window.confirm(`Merge "${duplicate.name}" into "${survivor.name}"? All of ${duplicate.name}'s quotations and invoices will move to ${survivor.name} and the duplicate record will be deleted.`)) return;
+
+      const merged = mergeClients(survivor, duplicate, allQuotations, allInvoices);
+      setAllClients(prev => prev.filter(c => c.id !== duplicate.id).map(c => c.id === survivor.id ? merged.client : c));
+      setAllQuotations(merged.quotations);
+      setAllInvoices(merged.invoices);
+      setQuotationData(prev => prev && prev.clientDetails.clientId === duplicate.id ? { ...prev, clientDetails: { ...prev.clientDetails, clientId: survivor.id } } : prev);
+      if (selectedClientId === duplicate.id) setSelectedClientId(survivor.id);
+  };
+
   const handleDeleteClient = (id: string) => {
       if (window.confirm("Delete this client? Quotations linked to this client will remain but lose the link.")) {
           setAllClients(prev => prev.filter(c => c.id !== id));
@@ -569,22 +803,42 @@ const App: React.FC = () => {
   
   // Invoice Management
   const handleSaveInvoice = (invoice: InvoiceData) => {
-      setAllInvoices(prev => prev.map(i => i.id === invoice.id ? invoice : i));
+      // Receipt and credit note numbers are issued on save, so anything abandoned in the modal never consumes one
+      const existingReceipts = allInvoices.flatMap(i => (i.payments || []).map(p => p.receiptNumber || '')).filter(Boolean);
+      const existingCreditNotes = allInvoices.flatMap(i => (i.creditNotes || []).map(c => c.creditNoteNumber || '')).filter(Boolean);
+      const saved: InvoiceData = {
+          ...invoice,
+          payments: invoice.payments?.map(p => p.receiptNumber ? p : { ...p, receiptNumber: issueDocumentNumber('receipt', settings, existingReceipts) }),
+          creditNotes: invoice.creditNotes?.map(c => c.creditNoteNumber ? c : { ...c, creditNoteNumber: issueDocumentNumber('creditNote', settings, existingCreditNotes) }),
+      };
+      setAllInvoices(prev => prev.map(i => i.id === saved.id ? saved : i));
+      if (saved.status === 'Cancelled') releaseQuotationFromInvoice(saved);
       setIsInvoiceModalOpen(false);
       setEditingInvoice(null);
   };
   
-  const handleDeleteInvoice = (id: string) => {
-      if (window.confirm("Delete this invoice? The linked quotation will revert to Accepted status.")) {
-          const inv = allInvoices.find(i => i.id === id);
-          setAllInvoices(prev => prev.filter(i => i.id !== id));
-          if (inv && inv.quotationId) {
-              const quote = allQuotations.find(q => q.id === inv.quotationId);
-              if (quote) {
-                  handleQuotationUpdate({ ...quote, status: 'Accepted', invoiceId: undefined });
-              }
-          }
+  // A cancelled invoice frees its quotation so it can be invoiced again, unless other stage invoices remain
+  const releaseQuotationFromInvoice = (invoice: InvoiceData) => {
+      const quote = allQuotations.find(q => q.id === invoice.quotationId);
+      if (!quote) return;
+      const remaining = allInvoices.filter(i => i.quotationId === quote.id && i.id !== invoice.id && i.status !== 'Cancelled');
+      if (remaining.length === 0) {
+          handleQuotationUpdate({ ...quote, status: 'Accepted', invoiceId: undefined });
+      } else if (quote.invoiceId === invoice.id) {
+          handleQuotationUpdate({ ...quote, invoiceId: remaining[remaining.length - 1].id });
       }
+  };
+
+  const handleCancelInvoice = (id: string) => {
+      const inv = allInvoices.find(i => i.id === id);
+      if (!inv) return;
+      const amount = getCreditableAmount(inv, settings);
+      const reason = window.prompt(`Cancel invoice ${inv.invoiceNumber}? A credit note for ${new Intl.NumberFormat().format(amount)} will be issued and the linked quotation will revert to Accepted status.\n\nReason for cancellation:`, 'Invoice cancelled');
+      if (reason === null) return;
+      const creditNoteNumber = issueDocumentNumber('creditNote', settings, allInvoices.flatMap(i => (i.creditNotes || []).map(c => c.creditNoteNumber || '')));
+      const cancelled = applyCreditNote(inv, { creditNoteNumber, date: Date.now(), amount, reason }, settings);
+      setAllInvoices(prev => prev.map(i => i.id === id ? cancelled : i));
+      releaseQuotationFromInvoice(cancelled);
   }
 
   // Voice Command Handler
@@ -643,9 +897,10 @@ const App: React.FC = () => {
                 ${task.text}
               `;
               
-              const aiData = await generateQuotationFromAI(combinedInput, settings, settings.addCheckmateDefault, settings.showChecklistDefault);
+              const aiData = await generateQuotation(combinedInput, settings, settings.addCheckmateDefault, settings.showChecklistDefault);
               const newQuote: QuotationData = {
                   id: crypto.randomUUID(),
+                  quotationNumber: issueDocumentNumber('quotation', settings, [...allQuotations, ...generated].map(q => q.quotationNumber || '')),
                   date: Date.now(),
                   status: 'Pending',
                   ...aiData,
@@ -690,6 +945,9 @@ const App: React.FC = () => {
       }
   };
 
+  const hasData = allQuotations.length > 0 || allInvoices.length > 0 || allClients.length > 0;
+  const backupOverdueDays = lastBackupAt !== null && hasData ? getBackupOverdueDays(lastBackupAt, settings) : null;
+
   // Main Render
   return (
     <div className="flex h-screen bg-brand-light dark:bg-brand-dark text-slate-700 dark:text-slate-200 font-sans overflow-hidden">
@@ -771,8 +1029,37 @@ const App: React.FC = () => {
              </div>
         </header>
 
+        {storageError && (
+            <div role="alert" className="flex items-start justify-between gap-4 px-6 py-3 bg-red-50 dark:bg-red-900/30 border-b border-red-200 dark:border-red-800 text-sm text-danger">
+                <p>{storageError}</p>
+                <button onClick={() => setStorageError(null)} className="font-semibold hover:underline flex-shrink-0">Dismiss</button>
+            </div>
+        )}
+
+        {duplicateNumbers.length > 0 && (
+            <div role="alert" className="flex items-start justify-between gap-4 px-6 py-3 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-200">
+                <p>Another device issued the same number{duplicateNumbers.length === 1 ? '' : 's'} while offline: {duplicateNumbers.join(', ')}. Edit one of each so every document keeps a unique number.</p>
+                <button onClick={() => setDuplicateNumbers([])} className="font-semibold hover:underline flex-shrink-0">Dismiss</button>
+            </div>
+        )}
+
+        {backupOverdueDays !== null && !isBackupReminderDismissed && (
+            <div role="status" className="flex flex-wrap items-center justify-between gap-4 px-6 py-3 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-200">
+                <p>{backupOverdueDays === Infinity ? "You haven't exported a backup yet." : `No backup has been exported for ${backupOverdueDays} days.`} Snapshots stay on this device; keep a copy elsewhere too.</p>
+                <div className="flex items-center gap-4 flex-shrink-0">
+                    <button onClick={handleBackup} className="font-semibold hover:underline">Back up now</button>
+                    <button onClick={() => setIsBackupReminderDismissed(true)} className="hover:underline">Later</button>
+                </div>
+            </div>
+        )}
+
         {/* Scrollable Page Content */}
         <main className="flex-1 overflow-y-auto custom-scrollbar bg-brand-light dark:bg-brand-dark p-4 md:p-8">
+             {!isDataLoaded ? (
+                <div className="h-full flex items-center justify-center gap-3 text-gray-500">
+                    <LoadingSpinner /> Loading your data…
+                </div>
+             ) : (
              <div className="max-w-7xl mx-auto h-full">
                 {view === 'dashboard' && <Dashboard quotations={allQuotations} invoices={allInvoices} expenses={allExpenses} settings={settings} />}
                 
@@ -788,6 +1075,25 @@ const App: React.FC = () => {
                             saveClientInfo={saveClientInfo}
                             setSaveClientInfo={setSaveClientInfo}
                         />
+                        <div className="flex bg-gray-100 dark:bg-slate-800 p-1 rounded-xl">
+                            {(['notes', 'rooms'] as const).map(mode => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setInputMode(mode)}
+                                    className={`flex-1 py-2 text-xs font-bold uppercase tracking-wide rounded-lg transition-all ${inputMode === mode ? 'bg-white dark:bg-slate-700 text-brand-dark dark:text-white shadow-sm' : 'text-gray-500 hover:text-brand-dark dark:hover:text-white'}`}
+                                >
+                                    {mode === 'notes' ? 'Job Notes' : `Room Dimensions${roomMeasurements.length > 0 ? ` (${roomMeasurements.length})` : ''}`}
+                                </button>
+                            ))}
+                        </div>
+                        {inputMode === 'rooms' ? (
+                        <RoomMeasurementInput
+                            rooms={roomMeasurements}
+                            setRooms={setRoomMeasurements}
+                            disabled={!!quotationData}
+                            settings={settings}
+                        />
+                        ) : (
                         <InputSection
                             notes={jobNotes}
                             setNotes={setJobNotes}
@@ -803,6 +1109,7 @@ const App: React.FC = () => {
                             canUndo={canUndoJobNotes}
                             canRedo={canRedoJobNotes}
                         />
+                        )}
                         
                         {!quotationData ? (
                             <button
@@ -819,6 +1126,7 @@ const App: React.FC = () => {
                                     setQuotationData(null);
                                     setJobNotes([]);
                                     resetJobNotes([]);
+                                    setRoomMeasurements([]);
                                     setClientDetails({
                                         clientName: '', clientAddress: '', clientPhone: '', projectName: '',
                                         showClientName: true, showClientAddress: true, showClientPhone: true, showProjectName: true
@@ -848,16 +1156,41 @@ const App: React.FC = () => {
                                 onEditChecklist={() => setIsEditChecklistOpen(true)}
                                 onAddAdjustment={() => setIsAddAdjustmentOpen(true)}
                                 onUpdate={handleQuotationUpdate}
+                                billing={quotationData ? getQuotationBilling(quotationData, allInvoices, settings) : undefined}
+                                onBillMilestone={(index) => quotationData && handleBillMilestone(quotationData, index)}
+                                revisions={quotationData ? getRevisions(quotationData, allQuotations) : undefined}
+                                onSelectRevision={handleSelectRevision}
+                                onCreateRevision={handleCreateRevision}
                             />
                         </div>
                     </div>
                 </div>
                 )}
 
-                {view === 'clients' && (
+                {view === 'clients' && selectedClient && (
+                    <ClientDetail
+                        client={selectedClient}
+                        quotations={allQuotations}
+                        invoices={allInvoices}
+                        expenses={allExpenses}
+                        settings={settings}
+                        onBack={() => setSelectedClientId(null)}
+                        onEdit={(client) => { setEditingClient(client); setIsClientModalOpen(true); }}
+                        onUpdate={(client) => setAllClients(prev => prev.map(c => c.id === client.id ? client : c))}
+                        onViewQuotation={handleViewQuotation}
+                        onEditInvoice={(id) => {
+                            const inv = allInvoices.find(i => i.id === id);
+                            if (inv) { setEditingInvoice(inv); setIsInvoiceModalOpen(true); }
+                        }}
+                    />
+                )}
+
+                {view === 'clients' && !selectedClient && (
                     <Clients 
                         clients={allClients} 
                         quotations={allQuotations}
+                        invoices={allInvoices}
+                        settings={settings}
                         onAdd={() => { setEditingClient(null); setIsClientModalOpen(true); }}
                         onEdit={(client) => { setEditingClient(client); setIsClientModalOpen(true); }}
                         onDelete={handleDeleteClient}
@@ -865,12 +1198,15 @@ const App: React.FC = () => {
                             setHistoryFilterIds(allQuotations.filter(q => q.clientDetails.clientId === clientId).map(q => q.id));
                             setView('history');
                         }}
+                        onOpen={setSelectedClientId}
+                        onMerge={handleMergeClients}
                     />
                 )}
 
                 {view === 'history' && (
                     <History 
                         quotations={allQuotations} 
+                        invoices={allInvoices}
                         onView={handleViewQuotation} 
                         onDuplicate={handleDuplicateQuotation}
                         onDelete={handleDeleteQuotation}
@@ -885,12 +1221,13 @@ const App: React.FC = () => {
                 {view === 'invoices' && (
                     <Invoices 
                         invoices={allInvoices}
+                        quotations={allQuotations}
                         settings={settings}
                         onEdit={(id) => {
                             const inv = allInvoices.find(i => i.id === id);
                             if (inv) { setEditingInvoice(inv); setIsInvoiceModalOpen(true); }
                         }}
-                        onDelete={handleDeleteInvoice}
+                        onCancel={handleCancelInvoice}
                         onUpdate={handleSaveInvoice}
                     />
                 )}
@@ -905,6 +1242,7 @@ const App: React.FC = () => {
                     />
                 )}
              </div>
+             )}
         </main>
 
         {/* Mobile Navigation */}
@@ -922,8 +1260,16 @@ const App: React.FC = () => {
         settings={settings} 
         onSave={setSettings} 
         onBackup={handleBackup}
+        onEncryptedBackup={() => setPassphraseRequest({ mode: 'encrypt' })}
         onRestore={handleRestore}
+        onRestoreSnapshot={handleRestoreSnapshot}
+        syncStatus={syncStatus}
+        onSyncNow={performSync}
+        duplicateNumbers={duplicateNumbers}
+        onClearDuplicateNumbers={() => setDuplicateNumbers([])}
       />
+      {restorePreview && <RestorePreviewModal preview={restorePreview} onApply={handleApplyRestore} onClose={() => setRestorePreview(null)} />}
+      {passphraseRequest && <PassphraseModal mode={passphraseRequest.mode} onSubmit={handlePassphraseSubmit} onClose={() => setPassphraseRequest(null)} />}
       
       <AddMaterialModal 
         isOpen={isAddMaterialOpen} 
@@ -996,6 +1342,7 @@ const App: React.FC = () => {
             onClose={() => setIsInvoiceModalOpen(false)}
             onSave={handleSaveInvoice}
             invoice={editingInvoice}
+            quotation={allQuotations.find(q => q.id === editingInvoice.quotationId)}
             settings={settings}
           />
       )}
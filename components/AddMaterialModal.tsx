@@ -23,6 +23,7 @@ const AddMaterialModal: React.FC<AddMaterialModalProps> = ({ isOpen, onClose, on
         quantity,
         unit,
         unitPrice,
+        provenance: { source: 'manual' },
       });
       // Reset form and close
       setItem('');
@@ -0,0 +1,67 @@
+import React from 'react';
+import { BillingScheduleRow } from '../services/billingService';
+
+interface BillingScheduleProps {
+  rows: BillingScheduleRow[];
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-NG', {
+    style: 'currency',
+    currency: 'NGN',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const BillingSchedule: React.FC<BillingScheduleProps> = ({ rows }) => {
+  const totals = rows.reduce(
+    (acc, row) => ({ planned: acc.planned + row.planned, billed: acc.billed + row.billed, paid: acc.paid + row.paid, remaining: acc.remaining + row.remaining }),
+    { planned: 0, billed: 0, paid: 0, remaining: 0 }
+  );
+
+  return (
+    <section className="print:hidden">
+      <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2">Billing Schedule</h3>
+      <div className="overflow-x-auto rounded-lg border border-gray-200">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 text-gray-500 uppercase text-[10px] tracking-wide">
+            <tr>
+              <th className="text-left px-3 py-2">Stage</th>
+              <th className="text-right px-3 py-2">Planned</th>
+              <th className="text-right px-3 py-2">Billed</th>
+              <th className="text-right px-3 py-2">Paid</th>
+              <th className="text-right px-3 py-2">Remaining</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row, index) => (
+              <tr key={index}>
+                <td className="px-3 py-2 text-slate-700">
+                  <span className="font-medium">{row.label}</span>
+                  {row.invoiceNumber
+                    ? <span className="block text-[10px] text-gray-400 font-mono">{row.invoiceNumber}</span>
+                    : <span className="block text-[10px] text-gray-400">Not yet invoiced</span>}
+                </td>
+                <td className="px-3 py-2 text-right text-slate-700">{formatCurrency(row.planned)}</td>
+                <td className="px-3 py-2 text-right text-slate-700">{formatCurrency(row.billed)}</td>
+                <td className="px-3 py-2 text-right text-green-600 font-semibold">{formatCurrency(row.paid)}</td>
+                <td className={`px-3 py-2 text-right font-bold ${row.remaining > 0 ? 'text-amber-600' : 'text-slate-400'}`}>{formatCurrency(row.remaining)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-gray-50 font-bold text-slate-800">
+            <tr>
+              <td className="px-3 py-2">Total</td>
+              <td className="px-3 py-2 text-right">{formatCurrency(totals.planned)}</td>
+              <td className="px-3 py-2 text-right">{formatCurrency(totals.billed)}</td>
+              <td className="px-3 py-2 text-right">{formatCurrency(totals.paid)}</td>
+              <td className="px-3 py-2 text-right">{formatCurrency(totals.remaining)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default BillingSchedule;
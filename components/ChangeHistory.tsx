@@ -0,0 +1,56 @@
+import React, { useState, useEffect } from 'react';
+import { AuditEntry } from '../types';
+import { formatAuditPath, formatAuditValue, getDocumentHistory, subscribeToAuditLog } from '../services/auditService';
+
+interface ChangeHistoryProps {
+  documentId: string;
+}
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  created: 'Created',
+  updated: 'Edited',
+  deleted: 'Deleted',
+};
+
+const ChangeHistory: React.FC<ChangeHistoryProps> = ({ documentId }) => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    const load = () => getDocumentHistory(documentId).then(setEntries).catch(error => {
+      console.error('Failed to load change history', error);
+      setEntries([]);
+    });
+    load();
+    return subscribeToAuditLog(load);
+  }, [documentId]);
+
+  if (entries === null) return <p className="text-sm text-gray-500">Loading history…</p>;
+  if (entries.length === 0) return <p className="text-sm text-gray-500">No changes recorded yet.</p>;
+
+  return (
+    <ul className="divide-y divide-border-color dark:divide-slate-700 max-h-80 overflow-y-auto">
+      {entries.map(entry => (
+        <li key={entry.id} className="py-3 text-sm">
+          <p className="text-xs text-gray-500">
+            <span className="font-semibold text-brand-dark dark:text-white">{ACTION_LABELS[entry.action]}</span>
+            {' · '}{new Date(entry.at).toLocaleString()}
+            {entry.user && ` · ${entry.user}`}
+          </p>
+          {entry.changes.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {entry.changes.map((change, index) => (
+                <li key={index} className="text-xs text-slate-700 dark:text-slate-300">
+                  <span className="font-medium">{formatAuditPath(change.path)}:</span>{' '}
+                  <span className="text-gray-400 line-through">{formatAuditValue(change.path, change.from)}</span>{' → '}
+                  <span>{formatAuditValue(change.path, change.to)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ChangeHistory;
@@ -0,0 +1,217 @@
+import React, { useState, useMemo } from 'react';
+import { Client, ClientInteraction, ClientInteractionType, QuotationData, InvoiceData, Expense, Settings } from '../types';
+import { getClientSummary, getClientTimeline, INTERACTION_TYPES, TimelineEventKind } from '../services/clientService';
+import { calculateTotals } from '../services/calculationService';
+import { getInvoiceBalance } from '../services/paymentService';
+import { buildWhatsAppLink, normalizePhoneNumber } from '../services/shareService';
+import MetricCard from './MetricCard';
+import StatementModal from './StatementModal';
+import { DollarSignIcon, CheckCircleIcon, FileTextIcon, InvoiceIcon, ViewIcon, EditIcon, DeleteIcon, PlusIcon, WhatsAppIcon } from './icons';
+
+interface ClientDetailProps {
+  client: Client;
+  quotations: QuotationData[];
+  invoices: InvoiceData[];
+  expenses: Expense[];
+  settings: Settings;
+  onBack: () => void;
+  onEdit: (client: Client) => void;
+  onUpdate: (client: Client) => void;
+  onViewQuotation: (id: string) => void;
+  onEditInvoice: (id: string) => void;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', minimumFractionDigits: 0 }).format(amount);
+};
+
+const toInputDate = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const timelineStyles: Record<TimelineEventKind, string> = {
+  quotation: 'bg-amber-400',
+  invoice: 'bg-sky-500',
+  payment: 'bg-emerald-500',
+  creditNote: 'bg-gray-400',
+  expense: 'bg-rose-400',
+  interaction: 'bg-gold',
+};
+
+const ClientDetail: React.FC<ClientDetailProps> = ({ client, quotations, invoices, expenses, settings, onBack, onEdit, onUpdate, onViewQuotation, onEditInvoice }) => {
+  const [isStatementOpen, setIsStatementOpen] = useState(false);
+  const [newInteraction, setNewInteraction] = useState<{ date: string; type: ClientInteractionType; note: string }>(() => ({ date: toInputDate(new Date()), type: 'Call', note: '' }));
+
+  const summary = useMemo(() => getClientSummary(client, quotations, invoices, expenses, settings), [client, quotations, invoices, expenses, settings]);
+  const timeline = useMemo(() => getClientTimeline(client, summary, settings), [client, summary, settings]);
+  const whatsAppNumber = normalizePhoneNumber(client.phone, settings.defaultCountryCode);
+
+  const handleAddInteraction = () => {
+      if (!newInteraction.note.trim()) {
+          alert('Enter a note for this interaction.');
+          return;
+      }
+      const interaction: ClientInteraction = {
+          id: crypto.randomUUID(),
+          date: new Date(`${newInteraction.date}T12:00:00`).getTime(),
+          type: newInteraction.type,
+          note: newInteraction.note.trim(),
+      };
+      onUpdate({ ...client, interactions: [...(client.interactions || []), interaction] });
+      setNewInteraction(prev => ({ ...prev, note: '' }));
+  };
+
+  const handleRemoveInteraction = (id: string) => {
+      if (window.confirm('Remove this entry from the log?')) {
+          onUpdate({ ...client, interactions: (client.interactions || []).filter(i => i.id !== id) });
+      }
+  };
+
+  const cardClass = "bg-white dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-2xl p-6 shadow-soft";
+  const inputClass = "w-full px-3 py-2 bg-brand-light dark:bg-slate-900 border border-border-color dark:border-slate-700 rounded-lg text-sm focus:ring-gold/80 focus:border-gold";
+
+  return (
+    <div className="bg-brand-light dark:bg-slate-900/50 p-8 rounded-2xl border border-gold-light dark:border-slate-700 shadow-lg space-y-8">
+      <div className="flex flex-col md:flex-row justify-between items-start gap-4">
+        <div>
+          <button onClick={onBack} className="text-sm font-semibold text-gold-dark hover:underline mb-2">&larr; All Clients</button>
+          <h1 className="text-3xl font-bold text-brand-dark dark:text-white">{client.name}</h1>
+          {client.address && <p className="text-gray-500">{client.address}</p>}
+          {client.phone && (
+            <div className="flex items-center gap-3 mt-1">
+              <a href={`tel:${client.phone}`} className="text-gray-600 dark:text-slate-300 hover:text-gold-dark">{client.phone}</a>
+              {whatsAppNumber && (
+                <a href={buildWhatsAppLink('', whatsAppNumber)} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-xs font-semibold text-green-600 hover:underline">
+                  <WhatsAppIcon className="w-4 h-4" /> WhatsApp
+                </a>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => setIsStatementOpen(true)} className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-700 text-brand-dark dark:text-white font-semibold rounded-lg border border-border-color dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-600 shadow-sm">
+            <FileTextIcon className="w-4 h-4" /> Statement
+          </button>
+          <button onClick={() => onEdit(client)} className="flex items-center gap-2 px-4 py-2 bg-gold text-brand-dark font-bold rounded-lg hover:bg-gold-dark shadow-md">
+            <EditIcon className="w-4 h-4" /> Edit
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+        <MetricCard title="Lifetime Value" value={formatCurrency(summary.lifetimeValue)} icon={<DollarSignIcon className="w-6 h-6 text-emerald-600"/>} gradient="bg-emerald-50"/>
+        <MetricCard title="Outstanding" value={formatCurrency(summary.outstandingBalance)} icon={<InvoiceIcon className="w-6 h-6 text-rose-600"/>} gradient="bg-rose-50"/>
+        <MetricCard title="Acceptance Rate" value={`${summary.acceptanceRate.toFixed(0)}%`} icon={<CheckCircleIcon className="w-6 h-6 text-blue-600"/>} gradient="bg-blue-50"/>
+        <MetricCard title="Total Quoted" value={formatCurrency(summary.totalQuoted)} icon={<FileTextIcon className="w-6 h-6 text-amber-600"/>} gradient="bg-amber-50"/>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <div className={cardClass}>
+            <h3 className="text-lg font-bold text-brand-dark dark:text-white mb-4">Quotations ({summary.quotations.length})</h3>
+            {summary.quotations.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500 uppercase text-left"><tr><th className="py-1">Date</th><th className="py-1">Quote #</th><th className="py-1">Project</th><th className="py-1">Status</th><th className="py-1 text-right">Total</th><th></th></tr></thead>
+                <tbody className="divide-y divide-border-color dark:divide-slate-700">
+                  {summary.quotations.map(q => (
+                    <tr key={q.id} className="text-brand-dark dark:text-slate-200">
+                      <td className="py-2">{new Date(q.date).toLocaleDateString()}</td>
+                      <td className="py-2 font-mono text-xs">{q.quotationNumber || '—'}</td>
+                      <td className="py-2">{q.clientDetails.projectName}</td>
+                      <td className="py-2">{q.status}</td>
+                      <td className="py-2 text-right font-semibold">{formatCurrency(calculateTotals(q, settings).grandTotal)}</td>
+                      <td className="py-2 text-right"><button onClick={() => onViewQuotation(q.id)} className="p-1 text-gray-500 hover:text-gold-dark" title="Open Quotation"><ViewIcon className="w-4 h-4"/></button></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : <p className="text-sm text-gray-500">No quotations yet.</p>}
+          </div>
+
+          <div className={cardClass}>
+            <h3 className="text-lg font-bold text-brand-dark dark:text-white mb-4">Invoices ({summary.invoices.length})</h3>
+            {summary.invoices.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500 uppercase text-left"><tr><th className="py-1">Date</th><th className="py-1">Invoice #</th><th className="py-1">Status</th><th className="py-1 text-right">Total</th><th className="py-1 text-right">Balance</th><th></th></tr></thead>
+                <tbody className="divide-y divide-border-color dark:divide-slate-700">
+                  {summary.invoices.map(inv => (
+                    <tr key={inv.id} className="text-brand-dark dark:text-slate-200">
+                      <td className="py-2">{new Date(inv.invoiceDate).toLocaleDateString()}</td>
+                      <td className="py-2 font-mono text-xs">{inv.invoiceNumber}{inv.stage && <span className="block font-sans text-gray-500">{inv.stage.label}</span>}</td>
+                      <td className="py-2">{inv.status}</td>
+                      <td className="py-2 text-right">{formatCurrency(calculateTotals(inv, settings).grandTotal)}</td>
+                      <td className="py-2 text-right font-semibold">{inv.status === 'Cancelled' ? '—' : formatCurrency(getInvoiceBalance(inv, settings))}</td>
+                      <td className="py-2 text-right"><button onClick={() => onEditInvoice(inv.id)} className="p-1 text-gray-500 hover:text-gold-dark" title="View/Edit Invoice"><EditIcon className="w-4 h-4"/></button></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : <p className="text-sm text-gray-500">No invoices yet.</p>}
+          </div>
+
+          <div className={cardClass}>
+            <h3 className="text-lg font-bold text-brand-dark dark:text-white mb-4">Project Expenses ({formatCurrency(summary.totalExpenses)})</h3>
+            {summary.expenses.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500 uppercase text-left"><tr><th className="py-1">Date</th><th className="py-1">Category</th><th className="py-1">Description</th><th className="py-1 text-right">Amount</th></tr></thead>
+                <tbody className="divide-y divide-border-color dark:divide-slate-700">
+                  {summary.expenses.map(e => (
+                    <tr key={e.id} className="text-brand-dark dark:text-slate-200">
+                      <td className="py-2">{new Date(e.date).toLocaleDateString()}</td>
+                      <td className="py-2">{e.category}</td>
+                      <td className="py-2">{e.description}</td>
+                      <td className="py-2 text-right font-semibold">{formatCurrency(e.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : <p className="text-sm text-gray-500">No expenses linked to this client's projects.</p>}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className={cardClass}>
+            <h3 className="text-lg font-bold text-brand-dark dark:text-white mb-4">Log Interaction</h3>
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <input type="date" aria-label="Interaction date" value={newInteraction.date} onChange={e => setNewInteraction(prev => ({ ...prev, date: e.target.value }))} className={inputClass} />
+                <select aria-label="Interaction type" value={newInteraction.type} onChange={e => setNewInteraction(prev => ({ ...prev, type: e.target.value as ClientInteractionType }))} className={inputClass}>
+                  {INTERACTION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+              </div>
+              <textarea aria-label="Interaction note" value={newInteraction.note} onChange={e => setNewInteraction(prev => ({ ...prev, note: e.target.value }))} rows={3} placeholder="e.g. Measured both bathrooms, client wants a revised quote" className={inputClass} />
+              <button onClick={handleAddInteraction} className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-brand-dark text-white text-sm font-semibold rounded-lg hover:bg-slate-700">
+                <PlusIcon className="w-4 h-4" /> Add to Log
+              </button>
+            </div>
+          </div>
+
+          <div className={cardClass}>
+            <h3 className="text-lg font-bold text-brand-dark dark:text-white mb-4">Activity</h3>
+            {timeline.length > 0 ? (
+              <ol className="relative border-l border-border-color dark:border-slate-700 ml-2 space-y-4">
+                {timeline.map(event => (
+                  <li key={event.id} className="ml-4">
+                    <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${timelineStyles[event.kind]}`}></span>
+                    <div className="flex justify-between gap-2">
+                      <p className="text-sm font-semibold text-brand-dark dark:text-white">{event.title}</p>
+                      {event.kind === 'interaction' && (
+                        <button onClick={() => handleRemoveInteraction(event.id.replace('interaction-', ''))} className="p-1 text-gray-400 hover:text-danger" aria-label="Remove entry"><DeleteIcon className="w-3.5 h-3.5"/></button>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">{new Date(event.date).toLocaleDateString()}{event.amount !== undefined && ` · ${formatCurrency(event.amount)}`}</p>
+                    {event.detail && <p className="text-sm text-gray-600 dark:text-slate-400 whitespace-pre-wrap">{event.detail}</p>}
+                  </li>
+                ))}
+              </ol>
+            ) : <p className="text-sm text-gray-500">No activity yet.</p>}
+          </div>
+        </div>
+      </div>
+
+      {isStatementOpen && (
+        <StatementModal client={client} quotations={quotations} invoices={invoices} settings={settings} onClose={() => setIsStatementOpen(false)} />
+      )}
+    </div>
+  );
+};
+
+export default ClientDetail;
@@ -1,6 +1,7 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { ClientDetails, Client } from '../types';
 import { ChevronDownIcon } from './icons';
+import { findClientMatches } from '../services/clientService';
 
 interface ClientDetailsFormProps {
   details: ClientDetails;
@@ -35,10 +36,11 @@ const ClientDetailsForm: React.FC<ClientDetailsFormProps> = ({ details, setDetai
     } else {
         setDetails(prev => ({ ...prev, [name]: value, clientId: undefined })); // Clear clientId if name is manually changed
          if (name === 'clientName' && value.length > 1) {
+            const fuzzyMatches = findClientMatches({ name: value }, allClients).map(m => m.client);
             const filtered = allClients.filter(client => 
                 client.name.toLowerCase().includes(value.toLowerCase())
             );
-            setSuggestions(filtered);
+            setSuggestions([...filtered, ...fuzzyMatches.filter(c => !filtered.includes(c))]);
             setShowSuggestions(true);
         } else {
             setShowSuggestions(false);
@@ -57,6 +59,12 @@ const ClientDetailsForm: React.FC<ClientDetailsFormProps> = ({ details, setDetai
       setShowSuggestions(false);
   };
   
+  // An unlinked client that looks like someone already on file, by name or phone number
+  const possibleMatch = useMemo(() => {
+      if (details.clientId || !details.clientName.trim()) return null;
+      return findClientMatches({ name: details.clientName, phone: details.clientPhone }, allClients)[0] || null;
+  }, [details.clientId, details.clientName, details.clientPhone, allClients]);
+
   const optionalFields = [
       { name: 'clientAddress', showName: 'showClientAddress', label: "Client's Address / Project Site", placeholder: "e.g., 123 Banana Island, Lagos" },
       { name: 'clientPhone', showName: 'showClientPhone', label: "Client's Phone", placeholder: "e.g., 08012345678" },
@@ -148,6 +156,19 @@ const ClientDetailsForm: React.FC<ClientDetailsFormProps> = ({ details, setDetai
           </div>
         </div>
 
+        {possibleMatch && !disabled && (
+            <div className="flex items-center justify-between gap-4 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm">
+                <p className="text-amber-800 dark:text-amber-200">
+                    Looks like existing client <strong>{possibleMatch.client.name}</strong>
+                    {possibleMatch.client.phone && ` (${possibleMatch.client.phone})`}
+                    {possibleMatch.reasons.includes('phone') ? ' – same phone number.' : '.'}
+                </p>
+                <button type="button" onClick={() => handleSuggestionClick(possibleMatch.client)} className="flex-shrink-0 px-3 py-1 bg-gold text-brand-dark font-semibold rounded-md hover:bg-gold-dark transition-colors">
+                    Link
+                </button>
+            </div>
+        )}
+
         {!details.clientId && details.clientName.trim() && (
             <div className="flex items-center pt-2">
                  <input
@@ -1,18 +1,32 @@
 import React, { useState, useMemo } from 'react';
-import { Client, QuotationData } from '../types';
-import { EditIcon, DeleteIcon, ViewIcon, PlusIcon, FileTextIcon, ClientsIcon } from './icons';
+import { Client, QuotationData, InvoiceData, Settings } from '../types';
+import { EditIcon, DeleteIcon, ViewIcon, PlusIcon, FileTextIcon, ClientsIcon, PdfIcon } from './icons';
+import { getReceipts } from '../services/paymentService';
+import { exportReceiptToPdf } from '../services/exportService';
+import StatementModal from './StatementModal';
+import MergeClientsModal from './MergeClientsModal';
 
 interface ClientsProps {
   clients: Client[];
   quotations: QuotationData[];
+  invoices: InvoiceData[];
+  settings: Settings;
   onAdd: () => void;
   onEdit: (client: Client) => void;
   onDelete: (id: string) => void;
   onViewQuotes: (id: string) => void;
+  onOpen: (id: string) => void;
+  onMerge: (survivorId: string, duplicateId: string) => void;
 }
 
-const Clients: React.FC<ClientsProps> = ({ clients, quotations, onAdd, onEdit, onDelete, onViewQuotes }) => {
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', minimumFractionDigits: 0 }).format(amount);
+};
+
+const Clients: React.FC<ClientsProps> = ({ clients, quotations, invoices, settings, onAdd, onEdit, onDelete, onViewQuotes, onOpen, onMerge }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [statementClient, setStatementClient] = useState<Client | null>(null);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
 
   const filteredClients = useMemo(() => {
     if (!searchTerm) return clients;
@@ -34,6 +48,15 @@ const Clients: React.FC<ClientsProps> = ({ clients, quotations, onAdd, onEdit, o
     return counts;
   }, [quotations]);
 
+  const receiptsByClient = useMemo(() => {
+    const grouped: Record<string, ReturnType<typeof getReceipts>> = {};
+    for (const receipt of getReceipts(invoices)) {
+        const clientId = receipt.invoice.clientDetails.clientId;
+        if (clientId) (grouped[clientId] = grouped[clientId] || []).push(receipt);
+    }
+    return grouped;
+  }, [invoices]);
+
   return (
     <div className="bg-brand-light dark:bg-slate-900/50 p-8 rounded-2xl border border-gold-light dark:border-slate-700 shadow-lg space-y-8">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
@@ -41,6 +64,14 @@ const Clients: React.FC<ClientsProps> = ({ clients, quotations, onAdd, onEdit, o
           <h1 className="text-3xl font-bold text-brand-dark dark:text-white">Client Management</h1>
           <p className="text-gray-500">View, add, and edit your client records.</p>
         </div>
+        <div className="w-full md:w-auto flex flex-col sm:flex-row gap-2">
+        <button
+          onClick={() => setIsMergeOpen(true)}
+          className="w-full md:w-auto flex items-center justify-center gap-2 px-4 py-2 bg-white dark:bg-slate-700 text-brand-dark dark:text-white font-semibold rounded-lg border border-border-color dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-600 transition-all shadow-sm"
+        >
+          <ClientsIcon className="w-5 h-5"/>
+          Find Duplicates
+        </button>
         <button
           onClick={onAdd}
           className="w-full md:w-auto flex items-center justify-center gap-2 px-4 py-2 bg-gold text-brand-dark font-bold rounded-lg hover:bg-gold-dark transition-all shadow-md transform hover:scale-105"
@@ -48,6 +79,7 @@ const Clients: React.FC<ClientsProps> = ({ clients, quotations, onAdd, onEdit, o
           <PlusIcon className="w-5 h-5"/>
           Add New Client
         </button>
+        </div>
       </div>
 
       <input
@@ -63,15 +95,31 @@ const Clients: React.FC<ClientsProps> = ({ clients, quotations, onAdd, onEdit, o
           filteredClients.map(client => (
             <div key={client.id} className="bg-white dark:bg-slate-800 border border-gold-light dark:border-slate-700 rounded-2xl p-6 flex flex-col justify-between shadow-lg hover:shadow-xl hover:-translate-y-1 transition-all duration-300">
               <div>
-                <h3 className="font-bold text-lg text-brand-dark dark:text-white">{client.name}</h3>
+                <button onClick={() => onOpen(client.id)} className="font-bold text-lg text-brand-dark dark:text-white hover:text-gold-dark text-left" title="Open client">{client.name}</button>
                 <p className="text-sm text-gray-600 dark:text-slate-400">{client.address}</p>
                 <p className="text-sm text-gray-600 dark:text-slate-400">{client.phone}</p>
+                {receiptsByClient[client.id] && (
+                  <details className="mt-3 text-sm">
+                    <summary className="cursor-pointer font-medium text-brand-dark dark:text-slate-300">{receiptsByClient[client.id].length} Receipt{receiptsByClient[client.id].length !== 1 ? 's' : ''}</summary>
+                    <ul className="mt-2 space-y-1">
+                      {receiptsByClient[client.id].map(({ invoice, payment }) => (
+                        <li key={payment.id} className="flex items-center justify-between gap-2">
+                          <button onClick={() => exportReceiptToPdf(invoice, payment, settings)} className="flex items-center gap-1 font-mono text-xs text-gold-dark hover:underline" title={`Receipt for ${invoice.invoiceNumber}`}>
+                            <PdfIcon className="w-4 h-4"/> {payment.receiptNumber}
+                          </button>
+                          <span className="text-xs text-gray-500">{new Date(payment.date).toLocaleDateString()} · {formatCurrency(payment.amount)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
               </div>
               <div className="mt-4 pt-4 border-t border-border-color dark:border-slate-700 flex justify-between items-center">
                 <div className="text-sm font-medium text-brand-dark dark:text-slate-300">
                   {quoteCounts[client.id] || 0} Quotation{quoteCounts[client.id] !== 1 ? 's' : ''}
                 </div>
                 <div className="flex items-center gap-1">
+                  <button onClick={() => setStatementClient(client)} className="p-2 text-gray-500 hover:text-emerald-600 hover:bg-emerald-100 rounded-full transition-colors" title="Statement of Account"><FileTextIcon className="w-5 h-5"/></button>
                   <button onClick={() => onViewQuotes(client.id)} className="p-2 text-gray-500 hover:text-gold-dark hover:bg-gold-light rounded-full transition-colors" title="View Quotations"><ViewIcon className="w-5 h-5"/></button>
                   <button onClick={() => onEdit(client)} className="p-2 text-gray-500 hover:text-indigo-500 hover:bg-indigo-100 rounded-full transition-colors" title="Edit Client"><EditIcon className="w-5 h-5"/></button>
                   <button onClick={() => onDelete(client.id)} className="p-2 text-gray-500 hover:text-danger hover:bg-red-100 rounded-full transition-colors" title="Delete Client"><DeleteIcon className="w-5 h-5"/></button>
@@ -87,6 +135,9 @@ const Clients: React.FC<ClientsProps> = ({ clients, quotations, onAdd, onEdit, o
           </div>
         )}
       </div>
+
+      {isMergeOpen && <MergeClientsModal clients={clients} quotations={quotations} invoices={invoices} onMerge={onMerge} onClose={() => setIsMergeOpen(false)} />}
+      <StatementModal client={statementClient} quotations={quotations} invoices={invoices} settings={settings} onClose={() => setStatementClient(null)} />
     </div>
   );
 };
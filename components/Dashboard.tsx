@@ -4,6 +4,7 @@ import MetricCard from './MetricCard';
 import { DollarSignIcon, FileTextIcon, ExpenseIcon, CheckCircleIcon, ExportIcon } from './icons';
 import { exportAnalyticsToCsv } from '../services/exportService';
 import { calculateTotals } from '../services/calculationService';
+import { getIssuedCreditNotes, getReceivedPayments } from '../services/paymentService';
 
 // --- Reusable Chart Components ---
 
@@ -81,8 +82,8 @@ interface DashboardProps {
 const Dashboard: React.FC<DashboardProps> = ({ quotations, invoices, expenses, settings }) => {
     const [dateRange, setDateRange] = useState('all');
 
-    const { filteredQuotations, filteredInvoices, filteredExpenses } = useMemo(() => {
-        if (dateRange === 'all') return { filteredQuotations: quotations, filteredInvoices: invoices, filteredExpenses: expenses };
+    const { filteredQuotations, filteredInvoices, filteredExpenses, rangeStart } = useMemo(() => {
+        if (dateRange === 'all') return { filteredQuotations: quotations, filteredInvoices: invoices, filteredExpenses: expenses, rangeStart: undefined };
         const now = new Date();
         const rangeStart = new Date();
         if (dateRange === 'this_month') {
@@ -95,7 +96,7 @@ const Dashboard: React.FC<DashboardProps> = ({ quotations, invoices, expenses, s
         const fq = quotations.filter(q => new Date(q.date) >= rangeStart);
         const fi = invoices.filter(i => new Date(i.invoiceDate) >= rangeStart);
         const fe = expenses.filter(e => new Date(e.date) >= rangeStart);
-        return { filteredQuotations: fq, filteredInvoices: fi, filteredExpenses: fe };
+        return { filteredQuotations: fq, filteredInvoices: fi, filteredExpenses: fe, rangeStart };
     }, [quotations, invoices, expenses, dateRange]);
 
     const metrics = useMemo(() => {
@@ -108,11 +109,17 @@ const Dashboard: React.FC<DashboardProps> = ({ quotations, invoices, expenses, s
         const now = new Date();
         const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
 
-        const paidInvoices = filteredInvoices.filter(i => i.status === 'Paid');
-        const totalRevenue = paidInvoices.reduce((sum: number, i) => sum + calculateTotals(i, settings).grandTotal, 0);
-        const paidThisMonth = paidInvoices
-            .filter(i => i.paymentDate && new Date(i.paymentDate) >= startOfMonth)
-            .reduce((sum: number, i) => sum + calculateTotals(i, settings).grandTotal, 0);
+        // Revenue is cash actually received, dated by payment rather than by invoice; credit notes count as negative revenue in the period they were issued
+        const creditNoteMovements = getIssuedCreditNotes(invoices, rangeStart).map(r => ({ date: r.creditNote.date, amount: -(Number(r.creditNote.amount) || 0) }));
+        const cashMovements = [
+            ...getReceivedPayments(invoices, settings, rangeStart).map(r => ({ date: r.payment.date, amount: Number(r.payment.amount) || 0 })),
+            ...creditNoteMovements,
+        ];
+        const totalRevenue = cashMovements.reduce((sum: number, m) => sum + m.amount, 0);
+        const creditNotesTotal = -creditNoteMovements.reduce((sum: number, m) => sum + m.amount, 0);
+        const paidThisMonth = cashMovements
+            .filter(m => new Date(m.date) >= startOfMonth)
+            .reduce((sum: number, m) => sum + m.amount, 0);
         
         const totalExpenses = filteredExpenses.reduce((sum: number, e) => sum + (Number(e.amount) || 0), 0);
         
@@ -129,12 +136,12 @@ const Dashboard: React.FC<DashboardProps> = ({ quotations, invoices, expenses, s
         sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 5);
         sixMonthsAgo.setDate(1);
 
-        paidInvoices.forEach(i => {
-            const date = new Date(i.paymentDate || i.invoiceDate);
+        cashMovements.forEach(movement => {
+            const date = new Date(movement.date);
             if (date < sixMonthsAgo) return;
             const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
             if (!monthlyData[monthKey]) monthlyData[monthKey] = { revenue: 0, expenses: 0 };
-            monthlyData[monthKey].revenue += calculateTotals(i, settings).grandTotal;
+            monthlyData[monthKey].revenue += movement.amount;
         });
 
         filteredExpenses.forEach(e => {
@@ -155,8 +162,8 @@ const Dashboard: React.FC<DashboardProps> = ({ quotations, invoices, expenses, s
         }));
 
 
-        return { totalQuoted, totalQuotations, acceptanceRate, invoicesGenerated: filteredInvoices.length, paidThisMonth, totalExpenses, netProfit, expenseBreakdown, monthlyPerformance };
-    }, [filteredQuotations, filteredInvoices, filteredExpenses, settings]);
+        return { totalQuoted, totalQuotations, acceptanceRate, invoicesGenerated: filteredInvoices.filter(i => i.status !== 'Cancelled').length, paidThisMonth, creditNotesTotal, totalExpenses, netProfit, expenseBreakdown, monthlyPerformance };
+    }, [filteredQuotations, filteredInvoices, filteredExpenses, invoices, rangeStart, settings]);
     
     const expenseColors = ['#3B82F6', '#8B5CF6', '#EC4899', '#F59E0B', '#10B981', '#6366F1', '#14B8A6'];
     const expenseChartData = Object.entries(metrics.expenseBreakdown)
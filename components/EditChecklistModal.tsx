@@ -25,6 +25,11 @@ const EditChecklistModal: React.FC<EditChecklistModalProps> = ({ isOpen, onClose
     setChecklist(newChecklist);
   };
 
+  const handleBillingChange = (index: number, value: string) => {
+    const percentage = Math.min(100, Math.max(0, parseFloat(value) || 0));
+    setChecklist(checklist.map((item, i) => (i === index ? { ...item, billingPercentage: percentage || undefined } : item)));
+  };
+
   const handleAddItem = () => {
     setChecklist([
       ...checklist,
@@ -46,6 +51,8 @@ const EditChecklistModal: React.FC<EditChecklistModalProps> = ({ isOpen, onClose
   };
 
   if (!isOpen) return null;
+
+  const totalBillingPercentage = checklist.reduce((sum, item) => sum + (Number(item.billingPercentage) || 0), 0);
   
   const inputClass = "block w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg shadow-sm sm:text-sm focus:ring-gold/80 focus:border-gold transition disabled:bg-slate-200 dark:disabled:bg-slate-700 disabled:text-gray-500";
 
@@ -54,7 +61,7 @@ const EditChecklistModal: React.FC<EditChecklistModalProps> = ({ isOpen, onClose
       <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
         <div className="p-8 border-b border-border-color dark:border-slate-700">
           <h2 className="text-xl font-bold text-brand-dark dark:text-white">Edit Project Checklist</h2>
-          <p className="text-sm text-gray-500">Add, remove, or rephrase tasks for this project.</p>
+          <p className="text-sm text-gray-500">Add, remove, or rephrase tasks for this project. Give a stage a billing % to raise an interim invoice when it is ticked.</p>
         </div>
         <div className="p-8 overflow-y-auto space-y-3">
           {checklist.map((checklistItem, index) => {
@@ -69,6 +76,21 @@ const EditChecklistModal: React.FC<EditChecklistModalProps> = ({ isOpen, onClose
                   placeholder={`Task #${index + 1}`}
                   disabled={isCheckmate}
                 />
+                <div className="relative w-24 flex-shrink-0">
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={checklistItem.billingPercentage || ''}
+                    onChange={(e) => handleBillingChange(index, e.target.value)}
+                    className={`${inputClass} pr-7`}
+                    placeholder="Bill"
+                    aria-label="Billing percentage"
+                    disabled={isCheckmate || !!checklistItem.invoiceId}
+                    title={checklistItem.invoiceId ? 'This stage has already been invoiced' : 'Share of the contract billed when this stage is ticked'}
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400 pointer-events-none">%</span>
+                </div>
                  <button
                     onClick={() => handleRemoveItem(index)}
                     className="p-2 text-gray-400 hover:text-danger hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full transition-colors flex-shrink-0 disabled:text-gray-300 disabled:hover:bg-transparent"
@@ -87,6 +109,11 @@ const EditChecklistModal: React.FC<EditChecklistModalProps> = ({ isOpen, onClose
                 <PlusIcon className="w-5 h-5" />
                 Add New Task
             </button>
+            {totalBillingPercentage > 0 && (
+              <p className={`text-xs font-semibold ${totalBillingPercentage > 100 ? 'text-danger' : 'text-gray-500'}`}>
+                Milestones bill {totalBillingPercentage}% of the contract{totalBillingPercentage > 100 ? ' — more than the full amount; later stages will be capped at what is left to invoice.' : '.'}
+              </p>
+            )}
         </div>
         <div className="p-6 bg-brand-light dark:bg-slate-900/50 border-t border-border-color dark:border-slate-700 flex justify-end gap-4 mt-auto">
           <button
@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { Tile, Settings } from '../types';
 import { PlusIcon, RemoveIcon } from './icons';
+import { getCoverageRate, calculateCartons, calculateSqmFromCartons, calculateWastageCartons, getWastagePercentage, LAYING_PATTERNS } from '../services/pricingRules';
 
 interface EditTilesModalProps {
   isOpen: boolean;
@@ -12,12 +13,10 @@ interface EditTilesModalProps {
 }
 
 // Local interface allowing strings for numeric fields to support typing decimals (e.g., "1.")
-// Added 'addWastage' flag to local state
 interface EditableTile extends Omit<Tile, 'sqm' | 'cartons' | 'unitPrice'> {
   sqm: string | number;
   cartons: string | number;
   unitPrice: string | number;
-  addWastage?: boolean; 
 }
 
 const EditTilesModal: React.FC<EditTilesModalProps> = ({ isOpen, onClose, onSave, currentTiles, settings }) => {
@@ -30,81 +29,27 @@ const EditTilesModal: React.FC<EditTilesModalProps> = ({ isOpen, onClose, onSave
         sqm: t.sqm,
         cartons: t.cartons,
         unitPrice: t.unitPrice,
-        addWastage: false // Default to false to keep calculations strict unless user opts in
     })));
   }, [currentTiles, isOpen]);
 
-  const getCoverageRate = (category: string) => {
-    const cat = (category || '').toLowerCase().trim();
-    const { 
-        sittingRoomTileM2PerCarton, roomTileM2PerCarton, toiletWallTileM2PerCarton, 
-        toiletFloorTileM2PerCarton, kitchenWallTileM2PerCarton, kitchenFloorTileM2PerCarton,
-        externalWallTileM2PerCarton, stepTileM2PerCarton, wallTileM2PerCarton, floorTileM2PerCarton 
-    } = settings;
-
-    if (cat === 'sr' || cat === 'lr' || cat.includes('sitting') || cat.includes('living') || cat.includes('parlour') || cat.includes('dining')) return sittingRoomTileM2PerCarton;
-    if (cat === 'br' || cat === 'mbr' || cat.includes('bedroom') || cat.includes('room') || cat.includes('guest') || cat.includes('store')) return roomTileM2PerCarton;
-    
-    if (cat === 'tw' || (cat.includes('toilet') && cat.includes('wall')) || (cat.includes('bathroom') && cat.includes('wall'))) return toiletWallTileM2PerCarton;
-    if (cat === 'tf' || (cat.includes('toilet') && cat.includes('floor')) || (cat.includes('bathroom') && cat.includes('floor'))) return toiletFloorTileM2PerCarton;
-    
-    if (cat === 'kw' || (cat.includes('kitchen') && cat.includes('wall'))) return kitchenWallTileM2PerCarton;
-    if (cat === 'kf' || (cat.includes('kitchen') && cat.includes('floor'))) return kitchenFloorTileM2PerCarton;
-    
-    if (cat === 'ext' || cat.includes('external') || cat.includes('outside') || cat.includes('facade')) return externalWallTileM2PerCarton;
-    if (cat === 'step' || cat.includes('step') || cat.includes('stair')) return stepTileM2PerCarton;
-    
-    if (cat.includes('wall')) return wallTileM2PerCarton;
-    
-    return floorTileM2PerCarton; // Default fallback
-  };
-
-  const handleTileChange = (index: number, field: keyof EditableTile, value: string | number | boolean) => {
+  const handleTileChange = (index: number, field: keyof EditableTile, value: string | number) => {
     const newTiles = [...tiles];
     const tile = { ...newTiles[index] };
     
     // Determine current rate based on potential category change
-    const currentRate = getCoverageRate(field === 'category' ? (value as string) : (tile.category as string));
-    const wastageFactor = settings.wastageFactor;
+    const currentRate = getCoverageRate(field === 'category' ? (value as string) : (tile.category as string), settings);
 
-    // Update the field state directly first (except for addWastage which needs logic first)
-    if (field !== 'addWastage') {
-       (tile as any)[field] = value;
-    }
+    (tile as any)[field] = value;
 
     // --- Automatic Calculation Logic ---
 
-    if (field === 'addWastage') {
-        const isAdding = value as boolean;
-        tile.addWastage = isAdding;
-        
-        const numSqm = typeof tile.sqm === 'string' ? parseFloat(tile.sqm) : tile.sqm;
-        
-        if (!isNaN(numSqm) && numSqm > 0) {
-            // Transform the displayed SQM value
-            let adjustedSqm = numSqm;
-            if (isAdding) {
-                // Apply wastage: Increase Net to Gross
-                adjustedSqm = numSqm * wastageFactor;
-            } else {
-                // Remove wastage: Decrease Gross to Net
-                adjustedSqm = numSqm / wastageFactor;
-            }
-            
-            // Update SQM state with formatted value (2 decimals)
-            tile.sqm = parseFloat(adjustedSqm.toFixed(2));
-            
-            // Recalculate Cartons based on new Effective SQM
-            tile.cartons = Math.ceil(tile.sqm / currentRate);
-        }
-    } 
-    else if (field === 'sqm' || field === 'category') {
+    if (field === 'sqm' || field === 'category') {
         // If SQM or Category changes, calculate Cartons based on the current value in the SQM box.
         // We treat the number in the box as the "Effective SQM" required.
         const numSqm = typeof tile.sqm === 'string' ? parseFloat(tile.sqm) : tile.sqm;
         
         if (!isNaN(numSqm) && numSqm > 0) {
-            tile.cartons = Math.ceil(numSqm / currentRate);
+            tile.cartons = calculateCartons(numSqm, currentRate);
         } else if (field === 'sqm' && value === '') {
             tile.cartons = 0;
         }
@@ -115,12 +60,33 @@ const EditTilesModal: React.FC<EditTilesModalProps> = ({ isOpen, onClose, onSave
         const numCartons = typeof value === 'string' ? parseFloat(value) : (value as number);
         
         if (!isNaN(numCartons) && numCartons > 0) {
-             tile.sqm = parseFloat((numCartons * currentRate).toFixed(2));
+             tile.sqm = calculateSqmFromCartons(numCartons, currentRate);
         } else if (value === '') {
             tile.sqm = 0;
         }
     }
 
+    // Keep the "why this price?" record in step with manual edits
+    if (field === 'unitPrice') {
+        tile.provenance = { ...tile.provenance, source: 'manual', matchedSizeRule: undefined, settingsField: undefined };
+    } else if (field === 'sqm' || field === 'category' || field === 'cartons') {
+        const numSqm = Number(tile.sqm) || 0;
+        tile.provenance = {
+            ...tile.provenance,
+            source: tile.provenance?.source || 'manual',
+            coverageRate: currentRate,
+            quantityFrom: field === 'cartons' ? 'cartons' : 'sqm',
+            unroundedCartons: field === 'cartons' ? undefined : parseFloat((numSqm / (currentRate || 1)).toFixed(4)),
+        };
+    }
+
+    // Wastage is fixed on the line here, not recalculated from settings later
+    if (field === 'pattern' || field === 'size' || field === 'sqm' || field === 'category' || field === 'cartons') {
+        const numeric = { ...tile, sqm: Number(tile.sqm) || 0, cartons: Number(tile.cartons) || 0 };
+        tile.wastagePercentage = getWastagePercentage(numeric, settings);
+        tile.wastageCartons = calculateWastageCartons(numeric, settings);
+    }
+
     newTiles[index] = tile;
     setTiles(newTiles);
   };
@@ -136,7 +102,6 @@ const EditTilesModal: React.FC<EditTilesModalProps> = ({ isOpen, onClose, onSave
         tileType: 'Unknown',
         unitPrice: 0,
         size: '',
-        addWastage: false
       },
     ]);
   };
@@ -155,7 +120,11 @@ const EditTilesModal: React.FC<EditTilesModalProps> = ({ isOpen, onClose, onSave
         // Ensure numeric values are actually numbers
         cartons: Math.max(0, Number(tile.cartons) || 0),
         sqm: Math.max(0, Number(tile.sqm) || 0),
-        unitPrice: Math.max(0, Number(tile.unitPrice) || 0)
+        unitPrice: Math.max(0, Number(tile.unitPrice) || 0),
+        pattern: tile.pattern || undefined,
+        wastagePercentage: tile.wastagePercentage,
+        wastageCartons: tile.wastageCartons,
+        provenance: tile.provenance
     }));
     onSave(validatedTiles);
   };
@@ -216,16 +185,6 @@ const EditTilesModal: React.FC<EditTilesModalProps> = ({ isOpen, onClose, onSave
                     onChange={(e) => handleTileChange(index, 'cartons', e.target.value)}
                     className={inputClass}
                   />
-                  <div className="flex items-center mt-2">
-                    <input 
-                        type="checkbox" 
-                        id={`wastage-${index}`}
-                        checked={tile.addWastage || false}
-                        onChange={(e) => handleTileChange(index, 'addWastage', e.target.checked)}
-                        className="h-3 w-3 rounded border-border-color text-gold focus:ring-gold"
-                    />
-                    <label htmlFor={`wastage-${index}`} className="ml-1.5 text-[10px] text-gray-500 uppercase font-bold tracking-wide cursor-pointer select-none">Add Wastage ({Math.round((settings.wastageFactor - 1) * 100)}%)</label>
-                  </div>
                 </div>
                  <div>
                   <label htmlFor={`size-${index}`} className="block text-xs font-bold text-brand-dark dark:text-slate-200 uppercase tracking-wide mb-1">Size</label>
@@ -248,7 +207,24 @@ const EditTilesModal: React.FC<EditTilesModalProps> = ({ isOpen, onClose, onSave
                     className={inputClass}
                   />
                 </div>
-                <div className="md:col-span-4">
+                <div className="md:col-span-2">
+                  <label htmlFor={`pattern-${index}`} className="block text-xs font-bold text-brand-dark dark:text-slate-200 uppercase tracking-wide mb-1">Laying Pattern</label>
+                  <select
+                    id={`pattern-${index}`}
+                    value={tile.pattern || ''}
+                    onChange={(e) => handleTileChange(index, 'pattern', e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">None (no wastage)</option>
+                    {LAYING_PATTERNS.map(pattern => <option key={pattern} value={pattern}>{pattern}</option>)}
+                  </select>
+                  {!!tile.wastagePercentage && (
+                    <p className="mt-1 text-[10px] text-gray-500 uppercase font-bold tracking-wide">
+                      +{tile.wastageCartons || 0} wastage cartons ({tile.wastagePercentage}%)
+                    </p>
+                  )}
+                </div>
+                <div className="md:col-span-2">
                   <label htmlFor={`tileType-${index}`} className="block text-xs font-bold text-brand-dark dark:text-slate-200 uppercase tracking-wide mb-1">Tile Type</label>
                   <select
                     id={`tileType-${index}`}
@@ -1,18 +1,21 @@
 
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { QuotationData, Settings } from '../types';
-import { ViewIcon, DeleteIcon, DuplicateIcon, PdfIcon, ArrowUpIcon, ArrowDownIcon, FileTextIcon, InvoiceIcon, ChevronDownIcon } from './icons';
+import { QuotationData, InvoiceData, Settings } from '../types';
+import { ViewIcon, DeleteIcon, DuplicateIcon, PdfIcon, ArrowUpIcon, ArrowDownIcon, FileTextIcon, InvoiceIcon, ChevronDownIcon, DollarSignIcon } from './icons';
 import { exportToPdf } from '../services/exportService';
 import { calculateTotals } from '../services/calculationService';
+import { BillingMode, QuotationBilling, getQuotationBilling } from '../services/billingService';
+import { formatQuotationReference } from '../services/revisionService';
 
 interface HistoryProps {
   quotations: QuotationData[];
+  invoices: InvoiceData[];
   onView: (id: string) => void;
   onDuplicate: (id: string) => void;
   onDelete: (id: string) => void;
   onUpdateStatus: (updatedQuotation: QuotationData) => void;
-  onConvertToInvoice: (id: string) => void;
+  onConvertToInvoice: (id: string, mode?: BillingMode) => void;
   settings: Settings;
   activeFilterIds: string[] | null;
   onFilterChange: () => void;
@@ -83,13 +86,43 @@ const StatusControl: React.FC<{
     );
 };
 
+// Convert actions: one invoice or a deposit invoice up front, then the remaining balance once a stage has been billed
+const BillingActions: React.FC<{ quotation: QuotationData; billing: QuotationBilling; onConvert: (id: string, mode?: BillingMode) => void }> = ({ quotation, billing, onConvert }) => {
+  if (quotation.status === 'Accepted' && billing.invoices.length === 0) {
+    return (
+      <>
+        <button onClick={() => onConvert(quotation.id)} className="p-2 text-gray-500 hover:text-success hover:bg-green-100 rounded-full transition-colors" title="Convert to Invoice"><InvoiceIcon className="w-5 h-5"/></button>
+        {!!quotation.depositPercentage && (
+          <button onClick={() => onConvert(quotation.id, 'deposit')} className="p-2 text-gray-500 hover:text-success hover:bg-green-100 rounded-full transition-colors" title={`Deposit Invoice (${quotation.depositPercentage}%)`}><DollarSignIcon className="w-5 h-5"/></button>
+        )}
+      </>
+    );
+  }
+  if (billing.invoices.some(i => i.stage) && billing.remaining > 0) {
+    return <button onClick={() => onConvert(quotation.id, 'balance')} className="p-2 text-gray-500 hover:text-success hover:bg-green-100 rounded-full transition-colors" title="Invoice Remaining Balance"><InvoiceIcon className="w-5 h-5"/></button>;
+  }
+  return null;
+};
+
+const BillingProgress: React.FC<{ billing: QuotationBilling }> = ({ billing }) => (
+  billing.invoiced > 0 && billing.remaining > 0
+    ? <div className="text-xs text-gray-500 font-normal">Invoiced {formatCurrency(billing.invoiced)} · {formatCurrency(billing.remaining)} left</div>
+    : null
+);
+
 const History: React.FC<HistoryProps> = ({ 
-  quotations, onView, onDuplicate, onDelete, onUpdateStatus, onConvertToInvoice, settings, activeFilterIds, onFilterChange 
+  quotations, invoices, onView, onDuplicate, onDelete, onUpdateStatus, onConvertToInvoice, settings, activeFilterIds, onFilterChange 
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('All');
   const [showBulkOnly, setShowBulkOnly] = useState(false);
   const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' }>({ key: 'date', direction: 'desc' });
+
+  const billingByQuote = useMemo(() => {
+    const billing: Record<string, QuotationBilling> = {};
+    quotations.forEach(q => { billing[q.id] = getQuotationBilling(q, invoices, settings); });
+    return billing;
+  }, [quotations, invoices, settings]);
   
   const sortedAndFilteredQuotations = useMemo(() => {
     let filtered;
@@ -109,7 +142,8 @@ const History: React.FC<HistoryProps> = ({
         const lowercasedTerm = searchTerm.toLowerCase();
         filtered = filtered.filter(q =>
           q.clientDetails.clientName.toLowerCase().includes(lowercasedTerm) ||
-          q.clientDetails.projectName.toLowerCase().includes(lowercasedTerm)
+          q.clientDetails.projectName.toLowerCase().includes(lowercasedTerm) ||
+          (q.quotationNumber || '').toLowerCase().includes(lowercasedTerm)
         );
       }
     }
@@ -214,16 +248,18 @@ const History: React.FC<HistoryProps> = ({
                     {q.isBulkGenerated && <span className="px-2 py-0.5 text-xs font-semibold text-indigo-800 bg-indigo-100 rounded-full">Bulk</span>}
                   </div>
                   <div className="text-xs text-gray-500">{q.clientDetails.projectName}</div>
+                  {q.quotationNumber && <div className="text-xs text-gray-400 font-mono">{formatQuotationReference(q)}</div>}
                 </td>
                 <td className="p-4">{new Date(q.date).toLocaleDateString()}</td>
                 <td className="p-4"><StatusControl quotation={q} onUpdateStatus={onUpdateStatus} /></td>
-                <td className="p-4 font-semibold">{formatCurrency(calculateTotals(q, settings).grandTotal)}</td>
+                <td className="p-4 font-semibold">
+                  {formatCurrency(calculateTotals(q, settings).grandTotal)}
+                  <BillingProgress billing={billingByQuote[q.id]} />
+                </td>
                 <td className="p-4">
                   <div className="flex items-center justify-end gap-1">
-                      <div className="w-9 h-9 flex items-center justify-center">
-                          {q.status === 'Accepted' && !q.invoiceId && (
-                              <button onClick={() => onConvertToInvoice(q.id)} className="p-2 text-gray-500 hover:text-success hover:bg-green-100 rounded-full transition-colors" title="Convert to Invoice"><InvoiceIcon className="w-5 h-5"/></button>
-                          )}
+                      <div className="min-w-[2.25rem] h-9 flex items-center justify-center">
+                          <BillingActions quotation={q} billing={billingByQuote[q.id]} onConvert={onConvertToInvoice} />
                       </div>
                       <div className="w-9 h-9 flex items-center justify-center">
                           <button onClick={() => onView(q.id)} className="p-2 text-gray-500 hover:text-gold-dark hover:bg-gold-light rounded-full transition-colors" title="View/Edit"><ViewIcon className="w-5 h-5"/></button>
@@ -256,16 +292,18 @@ const History: React.FC<HistoryProps> = ({
                   {q.isBulkGenerated && <span className="px-2 py-0.5 text-xs font-semibold text-indigo-800 bg-indigo-100 rounded-full">Bulk</span>}
                 </div>
                 <div className="text-xs text-gray-500">{q.clientDetails.projectName}</div>
+                {q.quotationNumber && <div className="text-xs text-gray-400 font-mono">{formatQuotationReference(q)}</div>}
                 <div className="text-xs text-gray-500 mt-1">{new Date(q.date).toLocaleDateString()}</div>
               </div>
               <StatusControl quotation={q} onUpdateStatus={onUpdateStatus} />
             </div>
             <div className="mt-4 pt-4 border-t border-border-color flex justify-between items-center">
-              <div className="text-lg font-bold text-gold-dark">{formatCurrency(calculateTotals(q, settings).grandTotal)}</div>
+              <div className="text-lg font-bold text-gold-dark">
+                {formatCurrency(calculateTotals(q, settings).grandTotal)}
+                <BillingProgress billing={billingByQuote[q.id]} />
+              </div>
               <div className="flex items-center gap-1">
-                {q.status === 'Accepted' && !q.invoiceId && (
-                    <button onClick={() => onConvertToInvoice(q.id)} className="p-2 text-gray-500 hover:text-success hover:bg-green-100 rounded-full" title="Convert to Invoice"><InvoiceIcon className="w-5 h-5"/></button>
-                )}
+                <BillingActions quotation={q} billing={billingByQuote[q.id]} onConvert={onConvertToInvoice} />
                 <button onClick={() => onView(q.id)} className="p-2 text-gray-500 hover:text-gold-dark hover:bg-gold-light rounded-full"><ViewIcon className="w-5 h-5"/></button>
                 <button onClick={() => onDuplicate(q.id)} className="p-2 text-gray-500 hover:text-indigo-500 hover:bg-indigo-100 rounded-full"><DuplicateIcon className="w-5 h-5"/></button>
                 <button onClick={() => exportToPdf(q, settings)} className="p-2 text-gray-500 hover:text-orange-500 hover:bg-orange-100 rounded-full" title="Download PDF"><PdfIcon className="w-5 h-5"/></button>
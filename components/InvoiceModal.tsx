@@ -2,24 +2,43 @@
 
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { InvoiceData, Settings } from '../types';
-import { RemoveIcon, DollarSignIcon } from './icons';
+import { Adjustment, InvoiceData, Payment, PaymentMethod, QuotationData, Settings } from '../types';
+import { RemoveIcon, DollarSignIcon, PlusIcon, PdfIcon } from './icons';
 import QRCode from './QRCode';
-import { calculateTotals } from '../services/calculationService';
+import ChangeHistory from './ChangeHistory';
+import { calculateTotals, getInvoiceQuoteDifference } from '../services/calculationService';
+import { exportCreditNoteToPdf, exportReceiptToPdf } from '../services/exportService';
+import { PAYMENT_METHODS, applyCreditNote, applyPayments, getAmountPaid, getCreditableAmount, getCreditedAmount, getInvoiceBalance, getInvoicePayments, recordPayment } from '../services/paymentService';
 
 interface InvoiceModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (invoice: InvoiceData) => void;
   invoice: InvoiceData;
+  quotation?: QuotationData; // Source quotation, used to flag totals that drift from what was accepted
   settings: Settings;
 }
 
-const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, onSave, invoice, settings }) => {
+type InvoiceFlag = 'showWorkmanship' | 'showMaintenance' | 'showTax' | 'showMaterials' | 'showAdjustments';
+
+const FLAG_LABELS: Record<InvoiceFlag, string> = {
+  showWorkmanship: 'Workmanship',
+  showMaintenance: 'Maintenance',
+  showTax: 'Tax',
+  showMaterials: 'Materials',
+  showAdjustments: 'Adjustments',
+};
+
+const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, onSave, invoice, quotation, settings }) => {
   const [localInvoice, setLocalInvoice] = useState<InvoiceData>(invoice);
+  const [newPayment, setNewPayment] = useState<{ date: number; amount: number; method: PaymentMethod; reference: string }>({ date: Date.now(), amount: 0, method: 'Bank Transfer', reference: '' });
+  const [newCredit, setNewCredit] = useState<{ amount: number; reason: string }>({ amount: 0, reason: '' });
 
   useEffect(() => {
-    setLocalInvoice(invoice);
+    // Materialize the ledger so invoices marked paid before it existed show their payment
+    setLocalInvoice({ ...invoice, payments: getInvoicePayments(invoice, settings) });
+    setNewPayment({ date: Date.now(), amount: getInvoiceBalance(invoice, settings), method: 'Bank Transfer', reference: '' });
+    setNewCredit({ amount: 0, reason: '' });
   }, [invoice, isOpen]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -34,22 +53,95 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, onSave, in
     }
   };
   
+  // Mirrors the fallbacks in calculateTotals for invoices created before these flags existed
+  const getFlag = (flag: InvoiceFlag): boolean => {
+      const value = localInvoice[flag];
+      if (value !== undefined) return value;
+      if (flag === 'showTax') return settings.showTax;
+      if (flag === 'showMaintenance') return settings.showMaintenance;
+      return true;
+  };
+
+  const handleToggleFlag = (flag: InvoiceFlag) => {
+      setLocalInvoice(prev => ({ ...prev, [flag]: !getFlag(flag) }));
+  };
+
+  const handleAdjustmentChange = (index: number, changes: Partial<Adjustment>) => {
+      setLocalInvoice(prev => ({ ...prev, adjustments: (prev.adjustments || []).map((adj, i) => i === index ? { ...adj, ...changes } : adj) }));
+  };
+
+  const handleAddAdjustment = () => {
+      setLocalInvoice(prev => ({ ...prev, adjustments: [...(prev.adjustments || []), { description: '', amount: 0 }] }));
+  };
+
+  const handleRemoveAdjustment = (index: number) => {
+      setLocalInvoice(prev => ({ ...prev, adjustments: (prev.adjustments || []).filter((_, i) => i !== index) }));
+  };
+
   const handleMarkAsPaid = () => {
-      setLocalInvoice(prev => ({ ...prev, status: 'Paid', paymentDate: Date.now() }));
+      setLocalInvoice(prev => recordPayment(prev, { date: Date.now(), amount: getInvoiceBalance(prev, settings), method: newPayment.method, reference: newPayment.reference }, settings));
+      setNewPayment(prev => ({ ...prev, amount: 0, reference: '' }));
   }
 
+  const handleAddPayment = () => {
+      if (!(newPayment.amount > 0)) {
+          alert('Enter a payment amount greater than zero.');
+          return;
+      }
+      const updated = recordPayment(localInvoice, newPayment, settings);
+      setLocalInvoice(updated);
+      setNewPayment({ date: Date.now(), amount: getInvoiceBalance(updated, settings), method: newPayment.method, reference: '' });
+  };
+
+  const handleRemovePayment = (id: string) => {
+      setLocalInvoice(prev => applyPayments(prev, (prev.payments || []).filter((p: Payment) => p.id !== id), settings));
+  };
+
+  const handleAddCreditNote = () => {
+      const creditable = getCreditableAmount(localInvoice, settings);
+      if (!(newCredit.amount > 0) || newCredit.amount > creditable) {
+          alert(`Enter a credit amount between 0 and ${new Intl.NumberFormat().format(creditable)}.`);
+          return;
+      }
+      if (!newCredit.reason.trim()) {
+          alert('Enter a reason for the credit note.');
+          return;
+      }
+      setLocalInvoice(prev => applyCreditNote(prev, { date: Date.now(), amount: newCredit.amount, reason: newCredit.reason.trim() }, settings));
+      setNewCredit({ amount: 0, reason: '' });
+  };
+
+  // Only credit notes not yet saved (and numbered) can be removed; issued ones are part of the record
+  const handleRemoveCreditNote = (id: string) => {
+      setLocalInvoice(prev => applyPayments({ ...prev, creditNotes: (prev.creditNotes || []).filter(c => c.id !== id) }, prev.payments || [], settings));
+  };
+
+  // Waiving keeps the fee on record so the same period is not charged again
+  const handleToggleLateFeeWaived = (id: string) => {
+      setLocalInvoice(prev => applyPayments({ ...prev, lateFees: (prev.lateFees || []).map(f => f.id === id ? { ...f, waived: !f.waived } : f) }, prev.payments || [], settings));
+  };
+
   const totals = useMemo(() => {
     const calculated = calculateTotals(localInvoice, settings);
     return {
         subtotal: calculated.subtotal,
         discountAmount: Math.abs(calculated.totalAdjustments),
         taxAmount: calculated.taxAmount,
+        totalAdjustments: calculated.totalAdjustments,
+        contractTotal: calculated.contractTotal,
         grandTotal: calculated.grandTotal,
+        lateFeeTotal: calculated.lateFeeTotal,
+        depositAmount: calculated.depositAmount,
+        amountPaid: getAmountPaid(localInvoice, settings),
+        credited: getCreditedAmount(localInvoice),
+        balance: getInvoiceBalance(localInvoice, settings),
+        quoteDifference: quotation ? getInvoiceQuoteDifference(localInvoice, quotation, settings) : 0,
     };
-  }, [localInvoice, settings]);
+  }, [localInvoice, quotation, settings]);
 
   const handleSave = () => {
-    onSave(localInvoice);
+    // Line edits can change the total, so settle the status against the ledger again
+    onSave(applyPayments(localInvoice, localInvoice.payments || [], settings));
   };
   
   if (!isOpen) return null;
@@ -61,7 +153,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, onSave, in
         type={type}
         id={name}
         name={name}
-        value={localInvoice[name] as any}
+        value={(localInvoice[name] ?? '') as any}
         onChange={handleChange}
         className="mt-1 block w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-gold/80 focus:border-gold sm:text-sm transition"
         {...props}
@@ -83,6 +175,11 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, onSave, in
             <RemoveIcon className="w-5 h-5" />
           </button>
         </div>
+        {quotation && totals.quoteDifference !== 0 && (
+          <div className="mx-8 mt-6 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200" role="alert">
+            <strong>Total differs from the quotation.</strong> This invoice comes to {new Intl.NumberFormat().format(totals.grandTotal)}, while quotation {quotation.quotationNumber || ''} came to {new Intl.NumberFormat().format(totals.grandTotal - totals.quoteDifference)} ({totals.quoteDifference > 0 ? '+' : ''}{new Intl.NumberFormat().format(totals.quoteDifference)}).
+          </div>
+        )}
         <div className="p-8 overflow-y-auto grid grid-cols-1 md:grid-cols-3 gap-8">
           {/* Left Column - Details */}
           <div className="md:col-span-2 space-y-6">
@@ -112,13 +209,149 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, onSave, in
                 </div>
                  <div>
                   <label htmlFor="status" className="block text-sm font-bold text-brand-dark dark:text-slate-200">Status</label>
-                   <select id="status" name="status" value={localInvoice.status} onChange={handleChange} className="mt-1 block w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg">
-                       <option value="Unpaid">Unpaid</option>
-                       <option value="Paid">Paid</option>
-                       <option value="Overdue">Overdue</option>
-                   </select>
+                   {/* Follows from the payments, credit notes and due date */}
+                   <p id="status" className="mt-1 px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg text-sm font-semibold">{localInvoice.status}</p>
                 </div>
              </div>
+             <div className="p-4 border dark:border-slate-700 rounded-lg space-y-4">
+                <h3 className="text-sm font-bold text-brand-dark dark:text-slate-200">Pricing & Visibility</h3>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    {renderInput('workmanshipRate', 'Workmanship (/m²)', 'number', { min: 0 })}
+                    {renderInput('maintenance', 'Maintenance', 'number', { min: 0 })}
+                    {renderInput('profitPercentage', 'Profit (%)', 'number', { min: 0 })}
+                    {renderInput('depositPercentage', 'Deposit (%)', 'number', { min: 0, max: 100 })}
+                </div>
+                <div className="flex flex-wrap gap-x-6 gap-y-2">
+                    {(Object.keys(FLAG_LABELS) as InvoiceFlag[]).map(flag => (
+                        <label key={flag} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <input type="checkbox" checked={getFlag(flag)} onChange={() => handleToggleFlag(flag)} className="h-4 w-4 rounded border-gray-300 text-gold focus:ring-gold" />
+                            {FLAG_LABELS[flag]}
+                        </label>
+                    ))}
+                </div>
+                <div className="space-y-2">
+                    {(localInvoice.adjustments || []).map((adj, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <input type="text" aria-label="Adjustment description" value={adj.description} onChange={e => handleAdjustmentChange(index, { description: e.target.value })} placeholder="Description, e.g. Discount" className="flex-1 px-2 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg text-sm"/>
+                            <input type="number" aria-label="Adjustment amount" step="0.01" value={adj.amount || ''} onChange={e => handleAdjustmentChange(index, { amount: parseFloat(e.target.value) || 0 })} placeholder="Amount (negative for discounts)" className="w-40 px-2 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg text-sm"/>
+                            <button onClick={() => handleRemoveAdjustment(index)} className="p-1 text-gray-400 hover:text-danger" aria-label="Remove adjustment"><RemoveIcon className="w-4 h-4"/></button>
+                        </div>
+                    ))}
+                    <button onClick={handleAddAdjustment} className="flex items-center gap-1 text-sm font-semibold text-gold-dark hover:underline">
+                        <PlusIcon className="w-4 h-4"/> Add Adjustment
+                    </button>
+                </div>
+            </div>
+             <div className="p-4 border dark:border-slate-700 rounded-lg space-y-3">
+                <h3 className="text-sm font-bold text-brand-dark dark:text-slate-200">Payments Received</h3>
+                {(localInvoice.payments || []).length > 0 ? (
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-gray-500 uppercase text-left">
+                            <tr><th className="py-1">Date</th><th className="py-1">Method</th><th className="py-1">Reference</th><th className="py-1">Receipt</th><th className="py-1 text-right">Amount</th><th></th></tr>
+                        </thead>
+                        <tbody className="divide-y divide-border-color dark:divide-slate-700">
+                            {(localInvoice.payments || []).map(p => (
+                                <tr key={p.id}>
+                                    <td className="py-2">{new Date(p.date).toLocaleDateString()}</td>
+                                    <td className="py-2">{p.method}</td>
+                                    <td className="py-2 text-gray-500">{p.reference || '-'}</td>
+                                    <td className="py-2">
+                                        {p.receiptNumber ? (
+                                            <button onClick={() => exportReceiptToPdf(localInvoice, p, settings)} className="flex items-center gap-1 font-mono text-xs text-gold-dark hover:underline" title="Download receipt">
+                                                <PdfIcon className="w-4 h-4"/> {p.receiptNumber}
+                                            </button>
+                                        ) : (
+                                            <span className="text-xs text-gray-400">Issued on save</span>
+                                        )}
+                                    </td>
+                                    <td className="py-2 text-right font-semibold">{new Intl.NumberFormat().format(p.amount)}</td>
+                                    <td className="py-2 text-right">
+                                        <button onClick={() => handleRemovePayment(p.id)} className="p-1 text-gray-400 hover:text-danger" aria-label="Remove payment"><RemoveIcon className="w-4 h-4"/></button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : (
+                    <p className="text-sm text-gray-500">No payments recorded yet.</p>
+                )}
+                {totals.balance > 0 && (
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end">
+                        <input type="date" aria-label="Payment date" value={formatDateForInput(newPayment.date)} onChange={e => setNewPayment(prev => ({ ...prev, date: new Date(e.target.value).getTime() || Date.now() }))} className="px-2 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg text-sm"/>
+                        <input type="number" aria-label="Payment amount" min="0" step="0.01" value={newPayment.amount || ''} onChange={e => setNewPayment(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))} placeholder="Amount" className="px-2 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg text-sm"/>
+                        <select aria-label="Payment method" value={newPayment.method} onChange={e => setNewPayment(prev => ({ ...prev, method: e.target.value as PaymentMethod }))} className="px-2 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg text-sm">
+                            {PAYMENT_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+                        </select>
+                        <input type="text" aria-label="Payment reference" value={newPayment.reference} onChange={e => setNewPayment(prev => ({ ...prev, reference: e.target.value }))} placeholder="Reference" className="px-2 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg text-sm"/>
+                        <button onClick={handleAddPayment} className="flex items-center justify-center gap-1 px-3 py-2 bg-brand-dark text-white text-sm font-semibold rounded-lg hover:bg-slate-700">
+                            <PlusIcon className="w-4 h-4"/> Add
+                        </button>
+                    </div>
+                )}
+            </div>
+             <div className="p-4 border dark:border-slate-700 rounded-lg space-y-3">
+                <h3 className="text-sm font-bold text-brand-dark dark:text-slate-200">Credit Notes</h3>
+                {(localInvoice.creditNotes || []).length > 0 ? (
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-gray-500 uppercase text-left">
+                            <tr><th className="py-1">Date</th><th className="py-1">Credit Note</th><th className="py-1">Reason</th><th className="py-1 text-right">Amount</th><th></th></tr>
+                        </thead>
+                        <tbody className="divide-y divide-border-color dark:divide-slate-700">
+                            {(localInvoice.creditNotes || []).map(c => (
+                                <tr key={c.id}>
+                                    <td className="py-2">{new Date(c.date).toLocaleDateString()}</td>
+                                    <td className="py-2">
+                                        {c.creditNoteNumber ? (
+                                            <button onClick={() => exportCreditNoteToPdf(localInvoice, c, settings)} className="flex items-center gap-1 font-mono text-xs text-gold-dark hover:underline" title="Download credit note">
+                                                <PdfIcon className="w-4 h-4"/> {c.creditNoteNumber}
+                                            </button>
+                                        ) : (
+                                            <span className="text-xs text-gray-400">Issued on save</span>
+                                        )}
+                                    </td>
+                                    <td className="py-2 text-gray-500">{c.reason}{c.refundAmount > 0 && <span className="block text-xs">Refund due: {new Intl.NumberFormat().format(c.refundAmount)}</span>}</td>
+                                    <td className="py-2 text-right font-semibold">-{new Intl.NumberFormat().format(c.amount)}</td>
+                                    <td className="py-2 text-right">
+                                        {!c.creditNoteNumber && (
+                                            <button onClick={() => handleRemoveCreditNote(c.id)} className="p-1 text-gray-400 hover:text-danger" aria-label="Remove credit note"><RemoveIcon className="w-4 h-4"/></button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : (
+                    <p className="text-sm text-gray-500">No credit notes issued.</p>
+                )}
+                {localInvoice.status !== 'Cancelled' && (
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end">
+                        <input type="number" aria-label="Credit amount" min="0" step="0.01" value={newCredit.amount || ''} onChange={e => setNewCredit(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))} placeholder="Amount" className="px-2 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg text-sm"/>
+                        <input type="text" aria-label="Credit reason" value={newCredit.reason} onChange={e => setNewCredit(prev => ({ ...prev, reason: e.target.value }))} placeholder="Reason, e.g. 2 cartons returned" className="sm:col-span-3 px-2 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg text-sm"/>
+                        <button onClick={handleAddCreditNote} className="flex items-center justify-center gap-1 px-3 py-2 bg-brand-dark text-white text-sm font-semibold rounded-lg hover:bg-slate-700">
+                            <PlusIcon className="w-4 h-4"/> Credit
+                        </button>
+                    </div>
+                )}
+            </div>
+             {(localInvoice.lateFees || []).length > 0 && (
+                <div className="p-4 border border-red-200 dark:border-red-900/50 rounded-lg space-y-3">
+                    <h3 className="text-sm font-bold text-brand-dark dark:text-slate-200">Late Fees</h3>
+                    <table className="w-full text-sm">
+                        <tbody className="divide-y divide-border-color dark:divide-slate-700">
+                            {(localInvoice.lateFees || []).map(f => (
+                                <tr key={f.id} className={f.waived ? 'text-gray-400' : ''}>
+                                    <td className="py-2">{new Date(f.date).toLocaleDateString()}</td>
+                                    <td className="py-2">{f.description}</td>
+                                    <td className={`py-2 text-right font-semibold ${f.waived ? 'line-through' : ''}`}>{new Intl.NumberFormat().format(f.amount)}</td>
+                                    <td className="py-2 text-right">
+                                        <button onClick={() => handleToggleLateFeeWaived(f.id)} className="text-xs font-semibold text-gold-dark hover:underline">{f.waived ? 'Reinstate' : 'Waive'}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+             )}
              <div>
                 <label htmlFor="bankDetails" className="block text-sm font-bold text-brand-dark dark:text-slate-200">Bank Details</label>
                 <textarea id="bankDetails" name="bankDetails" value={localInvoice.bankDetails} onChange={handleChange} rows={4} className="mt-1 block w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg" />
@@ -127,6 +360,12 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, onSave, in
                 <label htmlFor="invoiceNotes" className="block text-sm font-bold text-brand-dark dark:text-slate-200">Notes / Remarks</label>
                 <textarea id="invoiceNotes" name="invoiceNotes" value={localInvoice.invoiceNotes} onChange={handleChange} rows={3} className="mt-1 block w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg" />
             </div>
+            <details className="p-4 border border-border-color dark:border-slate-700 rounded-lg">
+                <summary className="text-sm font-bold text-brand-dark dark:text-slate-200 cursor-pointer">Change History</summary>
+                <div className="mt-3">
+                    <ChangeHistory documentId={invoice.id} />
+                </div>
+            </details>
           </div>
 
           {/* Right Column - Totals */}
@@ -135,8 +374,20 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, onSave, in
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between"><span>Subtotal</span> <span className="font-medium">{new Intl.NumberFormat().format(totals.subtotal)}</span></div>
                 
-                {settings.showTax && <div className="flex justify-between border-t dark:border-slate-700 pt-2 mt-2"><span>Tax ({settings.taxPercentage}%)</span> <span className="font-medium">{new Intl.NumberFormat().format(totals.taxAmount)}</span></div>}
-                <div className="flex justify-between font-bold text-xl text-gold-dark border-t-2 dark:border-slate-700 pt-2 mt-2"><span>Amount Due</span> <span>{new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN'}).format(totals.grandTotal)}</span></div>
+                {getFlag('showAdjustments') && totals.totalAdjustments !== 0 && <div className="flex justify-between"><span>Adjustments</span> <span className="font-medium">{new Intl.NumberFormat().format(totals.totalAdjustments)}</span></div>}
+                {getFlag('showTax') && <div className="flex justify-between border-t dark:border-slate-700 pt-2 mt-2"><span>Tax ({settings.taxPercentage}%)</span> <span className="font-medium">{new Intl.NumberFormat().format(totals.taxAmount)}</span></div>}
+                {localInvoice.stage && (
+                    <>
+                        <div className="flex justify-between border-t dark:border-slate-700 pt-2 mt-2"><span>Contract Total</span> <span className="font-medium">{new Intl.NumberFormat().format(totals.contractTotal)}</span></div>
+                        {localInvoice.stage.previouslyInvoiced > 0 && <div className="flex justify-between text-gray-500"><span>Previously Invoiced</span> <span className="font-medium">-{new Intl.NumberFormat().format(localInvoice.stage.previouslyInvoiced)}</span></div>}
+                    </>
+                )}
+                {totals.lateFeeTotal > 0 && <div className="flex justify-between text-danger"><span>Late Fees</span> <span className="font-medium">{new Intl.NumberFormat().format(totals.lateFeeTotal)}</span></div>}
+                <div className="flex justify-between font-semibold border-t dark:border-slate-700 pt-2 mt-2"><span>{localInvoice.stage ? `${localInvoice.stage.label} Invoice` : 'Invoice Total'}</span> <span>{new Intl.NumberFormat().format(totals.grandTotal)}</span></div>
+                <div className="flex justify-between text-success"><span>Amount Paid</span> <span className="font-medium">-{new Intl.NumberFormat().format(totals.amountPaid)}</span></div>
+                {totals.depositAmount > 0 && <div className="flex justify-between text-gray-500"><span>Deposit Required ({localInvoice.depositPercentage}%)</span> <span className="font-medium">{new Intl.NumberFormat().format(totals.depositAmount)}</span></div>}
+                {totals.credited > 0 && <div className="flex justify-between text-gray-500"><span>Credited</span> <span className="font-medium">-{new Intl.NumberFormat().format(totals.credited)}</span></div>}
+                <div className="flex justify-between font-bold text-xl text-gold-dark border-t-2 dark:border-slate-700 pt-2 mt-2"><span>Balance Due</span> <span>{new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN'}).format(totals.balance)}</span></div>
               </div>
               
               {settings.showQRCode && settings.paymentUrl && (
@@ -148,9 +399,9 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ isOpen, onClose, onSave, in
                 </div>
               )}
 
-              {localInvoice.status !== 'Paid' && (
+              {totals.balance > 0 && (
                 <button onClick={handleMarkAsPaid} className="w-full mt-4 flex items-center justify-center gap-2 px-4 py-2 bg-success text-white font-bold rounded-lg hover:bg-emerald-600 transition-all">
-                    <DollarSignIcon className="w-5 h-5"/> Mark as Paid
+                    <DollarSignIcon className="w-5 h-5"/> Record Full Payment
                 </button>
               )}
           </div>
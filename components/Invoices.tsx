@@ -1,16 +1,21 @@
 
 
 import React, { useState, useMemo } from 'react';
-import { InvoiceData, Settings } from '../types';
-import { ViewIcon, DeleteIcon, PdfIcon, ArrowUpIcon, ArrowDownIcon, FileTextIcon, CheckCircleIcon, EditIcon } from './icons';
+import { InvoiceData, QuotationData, Settings } from '../types';
+import { ViewIcon, DeleteIcon, PdfIcon, ArrowUpIcon, ArrowDownIcon, FileTextIcon, CheckCircleIcon, EditIcon, WhatsAppIcon } from './icons';
 import { exportInvoiceToPdf } from '../services/exportService';
-import { calculateTotals } from '../services/calculationService';
+import { shareInvoiceViaWhatsApp } from '../services/shareService';
+import { calculateTotals, getInvoiceQuoteDifference } from '../services/calculationService';
+import { getAmountPaid, getCreditedAmount, getInvoiceBalance, recordPayment } from '../services/paymentService';
+import { getReminderQueue, ReminderQueueItem } from '../services/overdueService';
+import ReminderQueue from './ReminderQueue';
 
 interface InvoicesProps {
   invoices: InvoiceData[];
+  quotations: QuotationData[];
   settings: Settings;
   onEdit: (id: string) => void;
-  onDelete: (id: string) => void;
+  onCancel: (id: string) => void;
   onUpdate: (updatedInvoice: InvoiceData) => void;
 }
 
@@ -18,33 +23,40 @@ const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', minimumFractionDigits: 0 }).format(amount);
 };
 
-const StatusBadge: React.FC<{ status: 'Paid' | 'Unpaid' | 'Overdue' }> = ({ status }) => {
+const StatusBadge: React.FC<{ status: InvoiceData['status'] }> = ({ status }) => {
   const styles = {
     Unpaid: 'bg-amber-100 text-amber-800 border-amber-200',
+    'Partially Paid': 'bg-sky-100 text-sky-800 border-sky-200',
     Paid: 'bg-emerald-100 text-success border-emerald-200',
     Overdue: 'bg-red-100 text-danger border-red-200',
+    Cancelled: 'bg-gray-100 text-gray-500 border-gray-200',
   };
-  return <span className={`px-3 py-1 text-xs font-bold rounded-full border ${styles[status]}`}>{status}</span>;
+  return <span className={`px-3 py-1 text-xs font-bold rounded-full border whitespace-nowrap ${styles[status]}`}>{status}</span>;
 };
 
-const Invoices: React.FC<InvoicesProps> = ({ invoices, settings, onEdit, onDelete, onUpdate }) => {
+const Invoices: React.FC<InvoicesProps> = ({ invoices, quotations, settings, onEdit, onCancel, onUpdate }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('All');
   const [sortConfig, setSortConfig] = useState<{ key: string; direction: 'asc' | 'desc' }>({ key: 'invoiceDate', direction: 'desc' });
   
-  const processedInvoices = useMemo(() => {
-      const now = new Date().getTime();
-      return invoices.map(inv => {
-          let status: 'Paid' | 'Unpaid' | 'Overdue' = inv.status;
-          if (inv.status === 'Unpaid' && inv.dueDate < now) {
-              status = 'Overdue';
-          }
-          return { ...inv, status };
+  // Overdue statuses are stored by the reconciliation in App, so the list shows invoices as they are
+  const reminderQueue = useMemo(() => getReminderQueue(invoices, settings), [invoices, settings]);
+
+  const handleReminderSent = (item: ReminderQueueItem) => {
+      onUpdate({ ...item.invoice, reminders: [...(item.invoice.reminders || []), { stage: item.stage, sentAt: Date.now() }] });
+  };
+
+  const quoteDifferences = useMemo(() => {
+      const differences: Record<string, number> = {};
+      invoices.forEach(inv => {
+          const quote = quotations.find(q => q.id === inv.quotationId);
+          if (quote) differences[inv.id] = getInvoiceQuoteDifference(inv, quote, settings);
       });
-  }, [invoices]);
+      return differences;
+  }, [invoices, quotations, settings]);
 
   const sortedAndFilteredInvoices = useMemo(() => {
-    let filtered = [...processedInvoices];
+    let filtered = [...invoices];
 
     if (statusFilter !== 'All') {
       filtered = filtered.filter(inv => inv.status === statusFilter);
@@ -64,6 +76,9 @@ const Invoices: React.FC<InvoicesProps> = ({ invoices, settings, onEdit, onDelet
         if (sortConfig.key === 'total') {
             aValue = calculateTotals(a, settings).grandTotal;
             bValue = calculateTotals(b, settings).grandTotal;
+        } else if (sortConfig.key === 'balance') {
+            aValue = getInvoiceBalance(a, settings);
+            bValue = getInvoiceBalance(b, settings);
         } else {
             aValue = a[sortConfig.key as keyof InvoiceData];
             bValue = b[sortConfig.key as keyof InvoiceData];
@@ -75,11 +90,12 @@ const Invoices: React.FC<InvoicesProps> = ({ invoices, settings, onEdit, onDelet
     });
 
     return filtered;
-  }, [processedInvoices, searchTerm, statusFilter, sortConfig, settings]);
+  }, [invoices, searchTerm, statusFilter, sortConfig, settings]);
   
   const handleMarkAsPaid = (invoice: InvoiceData) => {
-      if (window.confirm(`Are you sure you want to mark invoice ${invoice.invoiceNumber} as Paid?`)) {
-          onUpdate({ ...invoice, status: 'Paid', paymentDate: Date.now() });
+      const balance = getInvoiceBalance(invoice, settings);
+      if (window.confirm(`Record a payment of ${formatCurrency(balance)} and mark invoice ${invoice.invoiceNumber} as Paid?`)) {
+          onUpdate(recordPayment(invoice, { date: Date.now(), amount: balance, method: 'Bank Transfer', reference: '' }, settings));
       }
   }
 
@@ -102,6 +118,8 @@ const Invoices: React.FC<InvoicesProps> = ({ invoices, settings, onEdit, onDelet
         <h1 className="text-3xl font-bold text-brand-dark dark:text-white">Invoices</h1>
         <p className="text-gray-500">Manage all your client invoices.</p>
       </div>
+
+      <ReminderQueue items={reminderQueue} onMarkSent={handleReminderSent} />
       
       <div className="flex flex-col md:flex-row gap-6 justify-between">
         <input
@@ -111,8 +129,8 @@ const Invoices: React.FC<InvoicesProps> = ({ invoices, settings, onEdit, onDelet
           onChange={e => setSearchTerm(e.target.value)}
           className="w-full md:w-1/3 px-4 py-2 bg-white dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-gold/80 focus:border-gold"
         />
-        <div className="flex items-center gap-2">
-          {['All', 'Paid', 'Unpaid', 'Overdue'].map(status => (
+        <div className="flex flex-wrap items-center gap-2">
+          {['All', 'Paid', 'Partially Paid', 'Unpaid', 'Overdue', 'Cancelled'].map(status => (
             <button
               key={status}
               onClick={() => setStatusFilter(status)}
@@ -133,23 +151,35 @@ const Invoices: React.FC<InvoicesProps> = ({ invoices, settings, onEdit, onDelet
               <SortableHeader sortKey="invoiceDate" label="Issued" />
               <SortableHeader sortKey="dueDate" label="Due" />
               <SortableHeader sortKey="total" label="Total" />
+              <SortableHeader sortKey="balance" label="Balance" />
               <th className="p-4 font-semibold">Status</th>
               <th className="p-4 font-semibold text-right">Actions</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-border-color dark:divide-slate-700">
             {sortedAndFilteredInvoices.map(inv => (
-              <tr key={inv.id} className="bg-white dark:bg-slate-800 hover:bg-gold-lightest dark:hover:bg-slate-700 transition-colors">
-                <td className="p-4 font-semibold text-gold-dark">{inv.invoiceNumber}</td>
+              <tr key={inv.id} className={`bg-white dark:bg-slate-800 hover:bg-gold-lightest dark:hover:bg-slate-700 transition-colors ${inv.status === 'Cancelled' ? 'opacity-60' : ''}`}>
+                <td className="p-4 font-semibold text-gold-dark">
+                  {inv.invoiceNumber}
+                  {inv.stage && <div className="text-xs font-medium text-gray-500">{inv.stage.label}</div>}
+                </td>
                 <td className="p-4 font-bold text-brand-dark dark:text-white">{inv.clientDetails.clientName}</td>
                 <td className="p-4">{new Date(inv.invoiceDate).toLocaleDateString()}</td>
                 <td className="p-4">{new Date(inv.dueDate).toLocaleDateString()}</td>
-                <td className="p-4 font-semibold">{formatCurrency(calculateTotals(inv, settings).grandTotal)}</td>
+                <td className="p-4">
+                  <div className={`font-semibold ${inv.status === 'Cancelled' ? 'line-through' : ''}`}>{formatCurrency(calculateTotals(inv, settings).grandTotal)}</div>
+                  {!!quoteDifferences[inv.id] && <div className="text-xs font-semibold text-amber-600" title="Invoice total differs from its quotation">{quoteDifferences[inv.id] > 0 ? '+' : ''}{formatCurrency(quoteDifferences[inv.id])} vs quote</div>}
+                </td>
+                <td className="p-4">
+                  <div className="font-semibold">{formatCurrency(getInvoiceBalance(inv, settings))}</div>
+                  {getAmountPaid(inv, settings) > 0 && <div className="text-xs text-gray-500">Received {formatCurrency(getAmountPaid(inv, settings))}</div>}
+                  {getCreditedAmount(inv) > 0 && <div className="text-xs text-gray-500">Credited {formatCurrency(getCreditedAmount(inv))}</div>}
+                </td>
                 <td className="p-4"><StatusBadge status={inv.status} /></td>
                 <td className="p-4">
                   <div className="flex items-center justify-end gap-1">
                       <div className="w-9 h-9 flex items-center justify-center">
-                          {inv.status !== 'Paid' && (
+                          {inv.status !== 'Paid' && inv.status !== 'Cancelled' && (
                             <button onClick={() => handleMarkAsPaid(inv)} className="p-2 text-gray-500 hover:text-success hover:bg-green-100 rounded-full transition-colors" title="Mark as Paid"><CheckCircleIcon className="w-5 h-5"/></button>
                           )}
                       </div>
@@ -160,7 +190,12 @@ const Invoices: React.FC<InvoicesProps> = ({ invoices, settings, onEdit, onDelet
                           <button onClick={async () => await exportInvoiceToPdf(inv, settings)} className="p-2 text-gray-500 hover:text-orange-500 hover:bg-orange-100 rounded-full transition-colors" title="Download PDF"><PdfIcon className="w-5 h-5"/></button>
                       </div>
                       <div className="w-9 h-9 flex items-center justify-center">
-                          <button onClick={() => onDelete(inv.id)} className="p-2 text-gray-500 hover:text-danger hover:bg-red-100 rounded-full transition-colors" title="Delete"><DeleteIcon className="w-5 h-5"/></button>
+                          <button onClick={async () => await shareInvoiceViaWhatsApp(inv, settings)} className="p-2 text-gray-500 hover:text-green-600 hover:bg-green-100 rounded-full transition-colors" title="Share via WhatsApp"><WhatsAppIcon className="w-5 h-5"/></button>
+                      </div>
+                      <div className="w-9 h-9 flex items-center justify-center">
+                          {inv.status !== 'Cancelled' && (
+                            <button onClick={() => onCancel(inv.id)} className="p-2 text-gray-500 hover:text-danger hover:bg-red-100 rounded-full transition-colors" title="Cancel with Credit Note"><DeleteIcon className="w-5 h-5"/></button>
+                          )}
                       </div>
                   </div>
                 </td>
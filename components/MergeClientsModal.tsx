@@ -0,0 +1,129 @@
+import React, { useState, useMemo } from 'react';
+import { Client, QuotationData, InvoiceData } from '../types';
+import { findDuplicateClients } from '../services/clientService';
+
+interface MergeClientsModalProps {
+  clients: Client[];
+  quotations: QuotationData[];
+  invoices: InvoiceData[];
+  onMerge: (survivorId: string, duplicateId: string) => void;
+  onClose: () => void;
+}
+
+const MergeClientsModal: React.FC<MergeClientsModalProps> = ({ clients, quotations, invoices, onMerge, onClose }) => {
+  // Survivor picked for each suggested pair, keyed by "a.id|b.id"
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [manualSurvivorId, setManualSurvivorId] = useState('');
+  const [manualDuplicateId, setManualDuplicateId] = useState('');
+
+  const pairs = useMemo(() => findDuplicateClients(clients), [clients]);
+
+  const documentCounts = useMemo(() => {
+    const counts: Record<string, { quotations: number; invoices: number }> = {};
+    const countFor = (id: string) => (counts[id] = counts[id] || { quotations: 0, invoices: 0 });
+    quotations.forEach(q => q.clientDetails.clientId && countFor(q.clientDetails.clientId).quotations++);
+    invoices.forEach(i => i.clientDetails.clientId && countFor(i.clientDetails.clientId).invoices++);
+    return counts;
+  }, [quotations, invoices]);
+
+  const describe = (client: Client) => {
+    const count = documentCounts[client.id] || { quotations: 0, invoices: 0 };
+    return `${count.quotations} quotation${count.quotations !== 1 ? 's' : ''}, ${count.invoices} invoice${count.invoices !== 1 ? 's' : ''}`;
+  };
+
+  // By default keep whichever record has more documents
+  const defaultSurvivor = (a: Client, b: Client) => {
+    const total = (c: Client) => (documentCounts[c.id]?.quotations || 0) + (documentCounts[c.id]?.invoices || 0);
+    return total(b) > total(a) ? b.id : a.id;
+  };
+
+  const inputClass = "mt-1 block w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg shadow-sm sm:text-sm focus:ring-gold/80 focus:border-gold";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-8 border-b border-border-color dark:border-slate-700">
+          <h2 className="text-xl font-bold text-brand-dark dark:text-white">Duplicate Clients</h2>
+          <p className="text-sm text-gray-500">Merging moves every quotation and invoice to the record you keep and deletes the other.</p>
+        </div>
+
+        <div className="p-8 overflow-y-auto space-y-6">
+          {pairs.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No likely duplicates found.</p>
+          ) : (
+            <ul className="space-y-4">
+              {pairs.map(({ a, b, match }) => {
+                const key = `${a.id}|${b.id}`;
+                const survivorId = survivors[key] || defaultSurvivor(a, b);
+                const duplicateId = survivorId === a.id ? b.id : a.id;
+                return (
+                  <li key={key} className="p-4 border border-border-color dark:border-slate-700 rounded-lg">
+                    <p className="text-xs font-bold text-gray-500 uppercase mb-3">
+                      Same {match.reasons.join(' & ')}{match.reasons.includes('name') ? ` · ${Math.round(match.score * 100)}% name match` : ''}
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {[a, b].map(client => (
+                        <label key={client.id} className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${survivorId === client.id ? 'border-gold bg-gold-lightest dark:bg-slate-800' : 'border-border-color dark:border-slate-700'}`}>
+                          <input type="radio" name={key} checked={survivorId === client.id} onChange={() => setSurvivors(prev => ({ ...prev, [key]: client.id }))} className="mt-1 text-gold focus:ring-gold" />
+                          <span className="text-sm">
+                            <span className="block font-semibold text-brand-dark dark:text-white">{client.name}</span>
+                            {client.phone && <span className="block text-gray-500">{client.phone}</span>}
+                            {client.address && <span className="block text-gray-500">{client.address}</span>}
+                            <span className="block text-xs text-gray-400 mt-1">{describe(client)}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    <div className="flex justify-end mt-3">
+                      <button type="button" onClick={() => onMerge(survivorId, duplicateId)} className="px-4 py-2 bg-gold text-brand-dark font-semibold rounded-lg hover:bg-gold-dark transition-colors text-sm">
+                        Keep selected & merge
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="pt-6 border-t border-border-color dark:border-slate-700">
+            <h3 className="font-semibold text-brand-dark dark:text-white">Merge any two clients</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-2">
+              <div>
+                <label htmlFor="mergeDuplicate" className="block text-xs font-bold text-gray-500 uppercase">Merge this client…</label>
+                <select id="mergeDuplicate" value={manualDuplicateId} onChange={e => setManualDuplicateId(e.target.value)} className={inputClass}>
+                  <option value="">Select client</option>
+                  {clients.map(c => <option key={c.id} value={c.id}>{c.name}{c.phone ? ` (${c.phone})` : ''}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="mergeSurvivor" className="block text-xs font-bold text-gray-500 uppercase">…into this client</label>
+                <select id="mergeSurvivor" value={manualSurvivorId} onChange={e => setManualSurvivorId(e.target.value)} className={inputClass}>
+                  <option value="">Select client</option>
+                  {clients.filter(c => c.id !== manualDuplicateId).map(c => <option key={c.id} value={c.id}>{c.name}{c.phone ? ` (${c.phone})` : ''}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="flex justify-end mt-3">
+              <button
+                type="button"
+                disabled={!manualSurvivorId || !manualDuplicateId || manualSurvivorId === manualDuplicateId}
+                onClick={() => onMerge(manualSurvivorId, manualDuplicateId)}
+                className="px-4 py-2 bg-gold text-brand-dark font-semibold rounded-lg hover:bg-gold-dark transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Merge
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 bg-brand-light dark:bg-slate-900/50 border-t border-border-color dark:border-slate-700 flex justify-end mt-auto">
+          <button type="button" onClick={onClose} className="px-6 py-2 bg-gold text-brand-dark font-bold rounded-lg hover:bg-gold-dark transition-all shadow-md">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeClientsModal;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+
+interface PassphraseModalProps {
+  mode: 'encrypt' | 'decrypt';
+  onSubmit: (passphrase: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const PassphraseModal: React.FC<PassphraseModalProps> = ({ mode, onSubmit, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'encrypt') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('The passphrases do not match.');
+        return;
+      }
+    }
+    setError(null);
+    setIsWorking(true);
+    try {
+      await onSubmit(passphrase);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const inputClass = "mt-1 block w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg shadow-sm sm:text-sm focus:ring-gold/80 focus:border-gold";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" aria-modal="true" role="dialog">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl max-w-md w-full">
+        <div className="p-8 space-y-4">
+          <div>
+            <h2 className="text-xl font-bold text-brand-dark dark:text-white">{mode === 'encrypt' ? 'Encrypted Backup' : 'Encrypted Backup File'}</h2>
+            <p className="text-sm text-gray-500">
+              {mode === 'encrypt'
+                ? 'Choose a passphrase to protect the backup. It cannot be recovered if you forget it.'
+                : 'Enter the passphrase this backup was encrypted with.'}
+            </p>
+          </div>
+          <div>
+            <label htmlFor="backupPassphrase" className="block text-sm font-bold text-brand-dark dark:text-slate-200">Passphrase</label>
+            <input type="password" id="backupPassphrase" value={passphrase} onChange={e => setPassphrase(e.target.value)} autoFocus autoComplete={mode === 'encrypt' ? 'new-password' : 'current-password'} className={inputClass} />
+          </div>
+          {mode === 'encrypt' && (
+            <div>
+              <label htmlFor="backupPassphraseConfirm" className="block text-sm font-bold text-brand-dark dark:text-slate-200">Confirm Passphrase</label>
+              <input type="password" id="backupPassphraseConfirm" value={confirmation} onChange={e => setConfirmation(e.target.value)} autoComplete="new-password" className={inputClass} />
+            </div>
+          )}
+          {error && <p role="alert" className="text-sm text-danger">{error}</p>}
+        </div>
+        <div className="p-6 bg-brand-light dark:bg-slate-900/50 border-t border-border-color dark:border-slate-700 flex justify-end gap-4 rounded-b-2xl">
+          <button type="button" onClick={onClose} className="px-6 py-2 bg-white dark:bg-slate-700 text-brand-dark dark:text-white font-semibold rounded-lg border border-border-color dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-600 transition-all shadow-sm">Cancel</button>
+          <button type="submit" disabled={isWorking || !passphrase} className="flex items-center gap-2 px-6 py-2 bg-gold text-brand-dark font-bold rounded-lg hover:bg-gold-dark transition-all shadow-md disabled:opacity-50 disabled:cursor-not-allowed">
+            {isWorking && <LoadingSpinner />}
+            {mode === 'encrypt' ? 'Encrypt & Download' : 'Decrypt'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PassphraseModal;
@@ -1,11 +1,18 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { QuotationData, Settings, Tile, Material, ChecklistItem, Adjustment } from '../types';
-import { HanifgoldLogoIcon, SpeakerIcon, PlusIcon, EditIcon, ExportIcon, CsvIcon, CheckCircleIcon, CorporateIcon, MinimalistIcon, WordIcon, PdfIcon, CheckmateIcon, ShareIcon, MailIcon, SettingsIcon } from './icons';
+import { QuotationData, Settings, Tile, Material, ChecklistItem, Adjustment, PriceProvenance } from '../types';
+import { HanifgoldLogoIcon, SpeakerIcon, PlusIcon, EditIcon, ExportIcon, CsvIcon, CheckCircleIcon, CorporateIcon, MinimalistIcon, WordIcon, PdfIcon, CheckmateIcon, ShareIcon, MailIcon, SettingsIcon, WhatsAppIcon, HistoryIcon, DuplicateIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
 import { generateSpeechFromText, getAiSummaryForTts } from '../services/geminiService';
 import { exportToPdf, exportToExcel, exportToWord, exportToCsv } from '../services/exportService';
 import { calculateTotals } from '../services/calculationService';
+import { shareQuotationViaWhatsApp } from '../services/shareService';
+import { PRICE_FIELD_LABELS, getWastageCartons } from '../services/pricingRules';
+import { QuotationBilling, getBillingSchedule } from '../services/billingService';
+import BillingSchedule from './BillingSchedule';
+import ChangeHistory from './ChangeHistory';
+import RevisionCompareModal from './RevisionCompareModal';
+import { formatQuotationReference } from '../services/revisionService';
 
 // Audio decoding functions (unchanged)
 function decode(base64: string) {
@@ -47,6 +54,11 @@ interface QuotationDisplayProps {
   onEditChecklist: () => void;
   onAddAdjustment: () => void;
   onUpdate: (updatedQuotation: QuotationData) => void;
+  billing?: QuotationBilling; // Invoiced vs remaining, once the quotation has been (partly) invoiced
+  onBillMilestone?: (index: number) => void; // Raises the interim invoice for a checklist milestone
+  revisions?: QuotationData[]; // Every revision of this quotation, in order, when it has been revised
+  onSelectRevision?: (id: string) => void;
+  onCreateRevision?: () => void;
 }
 
 const formatCurrency = (amount: number) => {
@@ -57,12 +69,67 @@ const formatCurrency = (amount: number) => {
   }).format(amount);
 };
 
+const PRICE_SOURCE_LABELS: Record<PriceProvenance['source'], string> = {
+  'explicit': 'Price written in the job notes',
+  'size-rule': 'Size-based default price',
+  'category-default': 'Category default price',
+  'material-default': 'Material default price',
+  'ai-estimate': 'AI market estimate',
+  'manual': 'Entered or edited manually',
+};
+
+// Builds the "why this price?" explanation lines for a tile or material row
+const explainPrice = (provenance: PriceProvenance | undefined, line: { unitPrice: number; sqm?: number; cartons?: number }): string[] => {
+  if (!provenance) return ['No pricing record (created before price tracking or entered manually).'];
+  const lines = [`${PRICE_SOURCE_LABELS[provenance.source]}: ${formatCurrency(line.unitPrice)}`];
+  if (provenance.matchedSizeRule) lines.push(`Matched size rule ${provenance.matchedSizeRule.size} → ${formatCurrency(provenance.matchedSizeRule.price)}`);
+  if (provenance.settingsField) lines.push(`From Settings: ${PRICE_FIELD_LABELS[provenance.settingsField as keyof typeof PRICE_FIELD_LABELS] || provenance.settingsField}`);
+  if (provenance.defaultSizeApplied) lines.push('No size stated; category default size used');
+  if (provenance.coverageRate) lines.push(`Coverage rate: ${provenance.coverageRate} m² per carton`);
+  if (provenance.quantityFrom === 'sqm' && provenance.unroundedCartons !== undefined) {
+    lines.push(`${line.sqm} m² ÷ ${provenance.coverageRate} = ${provenance.unroundedCartons} → ${line.cartons} cartons (rounded up)`);
+  } else if (provenance.quantityFrom === 'cartons') {
+    lines.push(`${line.cartons} cartons × ${provenance.coverageRate} = ${line.sqm} m²`);
+  }
+  if (provenance.assumedQuantity) lines.push('No quantity in the notes; 1 was assumed. Check this line.');
+  return lines;
+};
 
-const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, settings, onAddMaterial, onEditTiles, onEditChecklist, onAddAdjustment, onUpdate }) => {
+const PriceProvenancePopover: React.FC<{ provenance?: PriceProvenance; line: { unitPrice: number; sqm?: number; cartons?: number } }> = ({ provenance, line }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  return (
+    <span className="relative inline-block ml-1.5 align-middle print:hidden">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        onBlur={() => setIsOpen(false)}
+        className="w-4 h-4 rounded-full bg-gray-100 text-gray-500 hover:bg-gold-light hover:text-gold-dark text-[9px] font-bold leading-4 text-center opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+        title="Why this price?"
+        aria-label="Why this price?"
+      >
+        ?
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-6 w-72 bg-white rounded-lg shadow-xl border border-gray-200 p-3 z-30 animate-fade-in text-left">
+          <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1.5">Why this price?</p>
+          <ul className="space-y-1">
+            {explainPrice(provenance, line).map((text, i) => (
+              <li key={i} className="text-xs text-slate-700 font-normal">{text}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </span>
+  );
+};
+
+const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, settings, onAddMaterial, onEditTiles, onEditChecklist, onAddAdjustment, onUpdate, billing, onBillMilestone, revisions, onSelectRevision, onCreateRevision }) => {
     const [previewStyle, setPreviewStyle] = useState<'corporate' | 'minimalist'>('corporate');
     const [isTtsLoading, setIsTtsLoading] = useState(false);
     const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
     const [isSummaryConfigOpen, setIsSummaryConfigOpen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isCompareOpen, setIsCompareOpen] = useState(false);
     const exportMenuRef = useRef<HTMLDivElement>(null);
     const summaryConfigRef = useRef<HTMLDivElement>(null);
     const { 
@@ -111,8 +178,19 @@ const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, se
         }
     };
     
+    // A milestone whose invoice was cancelled can be billed again
+    const isMilestoneBilled = (item: ChecklistItem) => !!item.invoiceId && !!billing?.invoices.some(i => i.id === item.invoiceId);
+
     const handleChecklistToggle = (index: number) => {
         if (!data || !data.checklist) return;
+        const item = data.checklist[index];
+        // Ticking a milestone stage of an accepted job raises its interim invoice
+        const canBill = !item.checked && (Number(item.billingPercentage) || 0) > 0 && !isMilestoneBilled(item)
+            && (data.status === 'Accepted' || data.status === 'Invoiced') && onBillMilestone;
+        if (canBill && window.confirm(`Raise an interim invoice for "${item.item}" (${item.billingPercentage}% of the contract)?`)) {
+            onBillMilestone(index);
+            return;
+        }
         const newChecklist = [...data.checklist];
         newChecklist[index] = { ...newChecklist[index], checked: !newChecklist[index].checked };
         onUpdate({ ...data, checklist: newChecklist });
@@ -153,6 +231,12 @@ const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, se
         window.location.href = `mailto:?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
         setIsExportMenuOpen(false);
     };
+
+    const handleWhatsAppShare = async () => {
+        if (!data) return;
+        setIsExportMenuOpen(false);
+        await shareQuotationViaWhatsApp(data, settings);
+    };
     
     const renderHeader = () => {
         if (!data) return null;
@@ -177,6 +261,7 @@ const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, se
                 <div className="text-sm text-gray-500 mt-3 space-y-1">
                     <p><span className="font-medium text-brand-dark">Date:</span> {new Date(data.date).toLocaleDateString()}</p>
                     {data.invoiceNumber && <p><span className="font-medium text-brand-dark">Invoice #:</span> {data.invoiceNumber}</p>}
+                    {data.quotationNumber && !('invoiceNumber' in data) && <p><span className="font-medium text-brand-dark">Quote #:</span> {formatQuotationReference(data)}</p>}
                     {data.dueDate && <p><span className="font-medium text-brand-dark">Due Date:</span> {new Date(data.dueDate).toLocaleDateString()}</p>}
                 </div>
             </div>
@@ -247,6 +332,8 @@ const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, se
         } = data;
 
         const summary = calculateTotals(data, settings);
+        // Planned as soon as a checklist stage has a billing percentage, before anything is invoiced
+        const billingSchedule = getBillingSchedule(data, billing?.invoices || [], settings);
         
         let sectionCounter = 1;
         const getSectionNumber = () => sectionCounter++;
@@ -300,9 +387,35 @@ const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, se
                             <button onClick={() => setPreviewStyle('minimalist')} className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${previewStyle === 'minimalist' ? 'bg-white dark:bg-gray-600 shadow text-brand-dark dark:text-white' : 'text-gray-500'}`}>Clean</button>
                         </div>
                         <StatusIndicator />
+                        {revisions && revisions.length > 1 && (
+                            <select value={data.id} onChange={e => onSelectRevision?.(e.target.value)} className="px-2 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-xs font-bold text-brand-dark dark:text-white" title="Revision">
+                                {revisions.map(r => <option key={r.id} value={r.id}>Rev {r.revisionCode} · {r.status}</option>)}
+                            </select>
+                        )}
+                        {billing && billing.invoiced > 0 && (
+                            <span className="px-2 py-0.5 text-[10px] font-bold rounded-full bg-sky-50 text-sky-700 border border-sky-200 uppercase tracking-wider" title={`${billing.invoices.length} invoice(s) raised`}>
+                                Invoiced {formatCurrency(billing.invoiced)} · {formatCurrency(billing.remaining)} remaining
+                            </span>
+                        )}
+                        {data.generatedBy === 'offline' && (data.aiUnavailableReason
+                            ? <span className="px-2 py-0.5 text-[10px] font-bold rounded-full bg-amber-50 text-amber-700 border border-amber-200 uppercase tracking-wider" title={`The AI could not be used (${data.aiUnavailableReason}), so the offline notes parser produced this draft. Check the lines before sending.`}>Offline fallback · check lines</span>
+                            : <span className="px-2 py-0.5 text-[10px] font-bold rounded-full bg-slate-100 text-slate-600 border border-slate-200 uppercase tracking-wider" title="Generated by the offline notes parser">Offline</span>)}
                      </div>
 
                      <div className="flex items-center gap-2">
+                        {revisions && revisions.length > 1 && (
+                            <button onClick={() => setIsCompareOpen(true)} className="px-3 py-2 rounded-lg text-xs font-bold text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors" title="Compare revisions">
+                                Compare
+                            </button>
+                        )}
+                        {onCreateRevision && (
+                            <button onClick={onCreateRevision} className="p-2 rounded-lg text-gray-600 dark:text-gray-300 border border-transparent hover:bg-gray-100 dark:hover:bg-gray-700 hover:border-gray-200 transition-colors" title="New Revision">
+                                <DuplicateIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                        <button onClick={() => setIsHistoryOpen(prev => !prev)} className={`p-2 rounded-lg transition-colors border ${isHistoryOpen ? 'bg-gold-light/30 text-gold-dark border-gold/40' : 'text-gray-600 dark:text-gray-300 border-transparent hover:bg-gray-100 dark:hover:bg-gray-700 hover:border-gray-200'}`} title="Change History">
+                             <HistoryIcon className="w-4 h-4" />
+                        </button>
                         <button onClick={handleReadAloud} disabled={isTtsLoading} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 transition-colors border border-transparent hover:border-gray-200" title="Read Aloud">
                              {isTtsLoading ? <LoadingSpinner /> : <SpeakerIcon className="w-4 h-4" />}
                         </button>
@@ -317,17 +430,42 @@ const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, se
                                     <button onClick={async () => { await exportToWord(data, settings); setIsExportMenuOpen(false); }} className="w-full flex items-center gap-3 px-3 py-2 text-sm font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-200"><WordIcon className="w-4 h-4 text-blue-600"/> Word (.docx)</button>
                                     <div className="my-1 border-t border-gray-100 dark:border-slate-700"></div>
                                     <button onClick={handleShare} className="w-full flex items-center gap-3 px-3 py-2 text-sm font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-200"><MailIcon className="w-4 h-4 text-gray-400"/> Email Quote</button>
+                                    <button onClick={handleWhatsAppShare} className="w-full flex items-center gap-3 px-3 py-2 text-sm font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-slate-800 text-slate-700 dark:text-slate-200"><WhatsAppIcon className="w-4 h-4 text-green-600"/> Share via WhatsApp</button>
                                 </div>
                             )}
                         </div>
-                        {status === 'Pending' && (
+                        {(status === 'Pending' || (status === 'Rejected' && revisions && revisions.length > 1)) && (
                             <div className="flex gap-1 ml-2">
-                                <button onClick={() => handleStatusChange('Accepted')} className="p-2 bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition-colors shadow-sm" title="Accept"><CheckCircleIcon className="w-4 h-4"/></button>
+                                <button onClick={() => handleStatusChange('Accepted')} className="p-2 bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition-colors shadow-sm" title={revisions && revisions.length > 1 ? 'Accept this revision for invoicing' : 'Accept'}><CheckCircleIcon className="w-4 h-4"/></button>
                             </div>
                         )}
                      </div>
                 </div>
 
+                {isCompareOpen && revisions && revisions.length > 1 && (
+                    <RevisionCompareModal
+                        revisions={revisions}
+                        initialBeforeId={revisions[Math.max(0, revisions.findIndex(r => r.id === data.id) - 1)].id}
+                        initialAfterId={revisions.findIndex(r => r.id === data.id) > 0 ? data.id : revisions[1].id}
+                        settings={settings}
+                        onClose={() => setIsCompareOpen(false)}
+                    />
+                )}
+
+                {isHistoryOpen && (
+                    <div className="glass-panel p-4 rounded-xl mb-6 shadow-soft print:hidden">
+                        <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-2">Change History</h3>
+                        <ChangeHistory documentId={data.id} />
+                    </div>
+                )}
+
+                {/* For the business only, so kept out of the printed and exported quotation */}
+                {billingSchedule.length > 0 && (
+                    <div className="glass-panel p-4 rounded-xl mb-6 shadow-soft print:hidden">
+                        <BillingSchedule rows={billingSchedule} />
+                    </div>
+                )}
+
                 {/* The Paper Document */}
                 <div id="quotation-output" className="paper-sheet rounded-lg p-12 text-slate-800 relative mb-12">
                     {renderHeader()}
@@ -383,11 +521,11 @@ const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, se
                                         <tbody className="divide-y divide-gray-100">
                                             {groupTiles.map((tile: Tile, index: number) => (
                                                 <tr key={index} className="group hover:bg-gray-50/80 transition-colors">
-                                                    <td className="py-2 pl-2 font-medium text-slate-800">{tile.category}</td>
+                                                    <td className="py-2 pl-2 font-medium text-slate-800">{tile.category}<PriceProvenancePopover provenance={tile.provenance} line={tile} /></td>
                                                     <td className="py-2 text-right text-gray-600">{tile.sqm.toFixed(2)}</td>
-                                                    <td className="py-2 text-right text-gray-600">{tile.cartons}</td>
+                                                    <td className="py-2 text-right text-gray-600">{tile.cartons}{getWastageCartons(tile) > 0 && <span className="block text-[10px] text-amber-600 font-semibold" title={`${tile.wastagePercentage}% ${tile.pattern ? `${tile.pattern} laying` : 'large-format'} wastage`}>+{getWastageCartons(tile)} wastage</span>}</td>
                                                     {showTileSize && <td className="py-2 pl-4 text-gray-600">{tile.size || '-'}</td>}
-                                                    <td className="py-2 pl-4 text-gray-600">{tile.tileType}</td>
+                                                    <td className="py-2 pl-4 text-gray-600">{tile.tileType}{tile.pattern && <span className="block text-[10px] text-gray-400">{tile.pattern}</span>}</td>
                                                     {showUnitPrice && <td className="py-2 text-right text-gray-600">{formatCurrency(tile.unitPrice)}</td>}
                                                     {showSubtotal && <td className="py-2 text-right font-medium text-slate-800 pr-2">{formatCurrency(tile.cartons * tile.unitPrice)}</td>}
                                                 </tr>
@@ -437,8 +575,8 @@ const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, se
                                 <tbody className="divide-y divide-gray-100">
                                 {materials.map((mat: Material, index: number) => (
                                     <tr key={index} className="group hover:bg-gray-50/80 transition-colors">
-                                    <td className="py-2 pl-2 font-medium text-slate-800">{mat.item}</td>
-                                    <td className="py-2 text-right text-gray-600">{mat.quantity} <span className="text-[10px] text-gray-400 uppercase">{mat.unit}</span></td>
+                                    <td className="py-2 pl-2 font-medium text-slate-800">{mat.item}<PriceProvenancePopover provenance={mat.provenance} line={mat} /></td>
+                                    <td className="py-2 text-right text-gray-600">{mat.provenance?.assumedQuantity && <span className="mr-1 text-[10px] font-bold text-amber-600 print:hidden" title="No quantity in the notes; 1 was assumed">Check</span>}{mat.quantity} <span className="text-[10px] text-gray-400 uppercase">{mat.unit}</span></td>
                                     {showUnitPrice && <td className="py-2 text-right text-gray-600">{formatCurrency(mat.unitPrice)}</td>}
                                     {showSubtotal && <td className="py-2 text-right font-medium text-slate-800 pr-2">{formatCurrency(mat.quantity * mat.unitPrice)}</td>}
                                     </tr>
@@ -502,13 +640,18 @@ const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, se
                                     {(checklist && checklist.length > 0) ? checklist.map((item, index) => {
                                         const isCheckmate = item.item === 'Checkmate';
                                         return (
-                                            <div key={index} className={`flex items-start gap-2 p-1.5 rounded ${isCheckmate ? 'bg-gold/5 border border-gold/20' : ''}`}>
+                                            <div key={index} className={`relative flex items-start gap-2 p-1.5 rounded ${isCheckmate ? 'bg-gold/5 border border-gold/20' : ''}`}>
                                                 <div className={`mt-1 h-3 w-3 rounded-sm border flex items-center justify-center ${item.checked ? 'bg-brand-dark border-brand-dark text-white' : 'border-gray-400'}`}>
                                                     {item.checked && <svg className="w-2 h-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7"></path></svg>}
                                                 </div>
                                                 <span className={`text-xs flex-1 leading-tight ${item.checked ? 'text-gray-400 line-through' : 'text-slate-700'} ${isCheckmate ? 'font-bold text-brand-dark' : ''}`}>
                                                     {item.item}
                                                 </span>
+                                                {(Number(item.billingPercentage) || 0) > 0 && (
+                                                    <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded-full uppercase tracking-wide ${isMilestoneBilled(item) ? 'bg-sky-50 text-sky-700 border border-sky-200' : 'bg-gray-100 text-gray-500'}`}>
+                                                        {isMilestoneBilled(item) ? `Billed ${item.billingPercentage}%` : `${item.billingPercentage}%`}
+                                                    </span>
+                                                )}
                                                 <input type="checkbox" checked={item.checked} onChange={() => handleChecklistToggle(index)} className="hidden" />
                                                 <div className="absolute inset-0 cursor-pointer print:hidden" onClick={() => handleChecklistToggle(index)}></div>
                                             </div>
@@ -546,6 +689,7 @@ const QuotationDisplay: React.FC<QuotationDisplayProps> = ({ data, isLoading, se
                                 {(showCostSummary ?? true) ? (
                                     <div className="space-y-2 relative z-10 text-sm">
                                         <div className="flex justify-between text-white/70"><span>Tiles</span> <span className="font-medium text-white">{formatCurrency(summary.totalTileCost)}</span></div>
+                                        {summary.wastageCost > 0 && <div className="flex justify-between text-white/70"><span>Wastage ({summary.totalWastageCartons} ctns)</span> <span className="font-medium text-white">{formatCurrency(summary.wastageCost)}</span></div>}
                                         {(showMaterials ?? true) && <div className="flex justify-between text-white/70"><span>Materials</span> <span className="font-medium text-white">{formatCurrency(summary.totalMaterialCost)}</span></div>}
                                         
                                         {(showWorkmanship ?? true) && (
@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { ReminderQueueItem, REMINDER_STAGE_LABELS } from '../services/overdueService';
+import { ChevronDownIcon, DuplicateIcon, CheckCircleIcon, WarningIcon } from './icons';
+
+interface ReminderQueueProps {
+  items: ReminderQueueItem[];
+  onMarkSent: (item: ReminderQueueItem) => void;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', minimumFractionDigits: 0 }).format(amount);
+};
+
+const stageStyles = {
+  first: 'bg-amber-100 text-amber-800 border-amber-200',
+  second: 'bg-orange-100 text-orange-800 border-orange-200',
+  final: 'bg-red-100 text-danger border-red-200',
+};
+
+const ReminderQueue: React.FC<ReminderQueueProps> = ({ items, onMarkSent }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [openMessageId, setOpenMessageId] = useState<string | null>(null);
+
+  // One block per client, so everything owed by the same person can be chased together
+  const byClient = useMemo(() => {
+    const groups: Record<string, ReminderQueueItem[]> = {};
+    items.forEach(item => {
+      const name = item.invoice.clientDetails.clientName || 'Unknown Client';
+      if (!groups[name]) groups[name] = [];
+      groups[name].push(item);
+    });
+    return Object.entries(groups);
+  }, [items]);
+
+  const handleCopy = async (message: string) => {
+    try {
+      await navigator.clipboard.writeText(message);
+    } catch (error) {
+      console.error('Failed to copy reminder', error);
+      alert('Could not copy the message. Select the text and copy it manually.');
+    }
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border border-red-200 dark:border-red-900/50 rounded-lg overflow-hidden">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full flex items-center justify-between px-4 py-3 bg-red-50 dark:bg-red-900/20 text-left">
+        <span className="flex items-center gap-2 font-bold text-danger">
+          <WarningIcon className="w-5 h-5" />
+          Payment Reminders Due ({items.length})
+        </span>
+        <ChevronDownIcon className={`w-5 h-5 text-gray-500 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+      {isExpanded && (
+        <div className="divide-y divide-border-color dark:divide-slate-700">
+          {byClient.map(([clientName, clientItems]) => (
+            <div key={clientName} className="p-4 space-y-3">
+              <div className="flex justify-between items-baseline">
+                <p className="font-bold text-brand-dark dark:text-white">{clientName}</p>
+                {clientItems[0].invoice.clientDetails.clientPhone && <p className="text-xs text-gray-500">{clientItems[0].invoice.clientDetails.clientPhone}</p>}
+              </div>
+              {clientItems.map(item => (
+                <div key={item.invoice.id} className="space-y-2">
+                  <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <span className="font-mono font-semibold text-brand-dark dark:text-slate-200">{item.invoice.invoiceNumber}</span>
+                    <span className={`px-2 py-0.5 text-[10px] font-bold rounded-full border uppercase tracking-wide ${stageStyles[item.stage]}`}>{REMINDER_STAGE_LABELS[item.stage]}</span>
+                    <span className="text-gray-500">{item.daysOverdue} day{item.daysOverdue === 1 ? '' : 's'} overdue</span>
+                    <span className="font-bold text-danger">{formatCurrency(item.balance)}</span>
+                    <div className="flex gap-2 ml-auto">
+                      <button onClick={() => setOpenMessageId(openMessageId === item.invoice.id ? null : item.invoice.id)} className="text-xs font-semibold text-gold-dark hover:underline">
+                        {openMessageId === item.invoice.id ? 'Hide Message' : 'View Message'}
+                      </button>
+                      <button onClick={() => handleCopy(item.message)} className="flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-md bg-gray-100 dark:bg-slate-700 text-brand-dark dark:text-white hover:bg-gray-200 dark:hover:bg-slate-600" title="Copy message">
+                        <DuplicateIcon className="w-3.5 h-3.5" /> Copy
+                      </button>
+                      <button onClick={() => onMarkSent(item)} className="flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded-md bg-success text-white hover:bg-emerald-600" title="Mark this reminder as sent">
+                        <CheckCircleIcon className="w-3.5 h-3.5" /> Mark Sent
+                      </button>
+                    </div>
+                  </div>
+                  {openMessageId === item.invoice.id && (
+                    <textarea readOnly value={item.message} rows={8} className="w-full px-3 py-2 text-xs bg-brand-light dark:bg-slate-900 border border-border-color dark:border-slate-700 rounded-lg font-sans" />
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReminderQueue;
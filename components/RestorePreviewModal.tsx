@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { RESTORABLE_COLLECTIONS, RestorableCollection, RestoreMode, RestorePreview } from '../services/backupService';
+import { formatMigrationReport } from '../services/schemaService';
+
+interface RestorePreviewModalProps {
+  preview: RestorePreview | null;
+  onApply: (modes: Record<RestorableCollection, RestoreMode>, restoreSettings: boolean) => void;
+  onClose: () => void;
+}
+
+const COLLECTION_LABELS: Record<RestorableCollection, string> = {
+  quotations: 'Quotations',
+  invoices: 'Invoices',
+  clients: 'Clients',
+  expenses: 'Expenses',
+};
+
+const MODE_LABELS: Record<RestoreMode, string> = {
+  merge: 'Merge (newer wins)',
+  replace: 'Replace',
+  skip: 'Keep current',
+};
+
+const RestorePreviewModal: React.FC<RestorePreviewModalProps> = ({ preview, onApply, onClose }) => {
+  const [modes, setModes] = useState<Record<RestorableCollection, RestoreMode>>({ quotations: 'merge', invoices: 'merge', clients: 'merge', expenses: 'merge' });
+  const [restoreSettings, setRestoreSettings] = useState(false);
+
+  if (!preview) return null;
+
+  const repairSummary = formatMigrationReport(preview.report);
+  const selectClass = "px-2 py-1 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-md text-sm focus:ring-gold/80 focus:border-gold";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-8 border-b border-border-color dark:border-slate-700">
+          <h2 className="text-xl font-bold text-brand-dark dark:text-white">Restore Backup</h2>
+          <p className="text-sm text-gray-500">
+            {preview.backupDate ? `Backup from ${new Date(preview.backupDate).toLocaleString()}` : 'Undated backup'} · schema v{preview.version}
+          </p>
+        </div>
+
+        <div className="p-8 overflow-y-auto space-y-6">
+          {repairSummary && (
+            <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-200 whitespace-pre-line">
+              {repairSummary}
+            </div>
+          )}
+
+          <div className="overflow-x-auto border border-border-color dark:border-slate-700 rounded-lg">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-brand-dark text-white text-xs uppercase">
+                <tr>
+                  <th className="p-3">Collection</th>
+                  <th className="p-3 text-right">In Backup</th>
+                  <th className="p-3 text-right">Current</th>
+                  <th className="p-3 text-right">New</th>
+                  <th className="p-3 text-right">Conflicts</th>
+                  <th className="p-3">Action</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border-color dark:divide-slate-700">
+                {RESTORABLE_COLLECTIONS.map(collection => {
+                  const stats = preview.collections[collection];
+                  return (
+                    <tr key={collection} className="text-brand-dark dark:text-slate-200">
+                      <td className="p-3 font-semibold">{COLLECTION_LABELS[collection]}</td>
+                      {stats ? (
+                        <>
+                          <td className="p-3 text-right">{stats.inBackup}</td>
+                          <td className="p-3 text-right">{stats.current}</td>
+                          <td className="p-3 text-right">{stats.added}</td>
+                          <td className={`p-3 text-right ${stats.conflicts.length ? 'text-amber-600 font-semibold' : ''}`}>{stats.conflicts.length}</td>
+                          <td className="p-3">
+                            <select
+                              value={modes[collection]}
+                              onChange={e => setModes(prev => ({ ...prev, [collection]: e.target.value as RestoreMode }))}
+                              className={selectClass}
+                              aria-label={`Restore action for ${COLLECTION_LABELS[collection]}`}
+                            >
+                              {(Object.keys(MODE_LABELS) as RestoreMode[]).map(mode => <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>)}
+                            </select>
+                          </td>
+                        </>
+                      ) : (
+                        <td className="p-3 text-gray-400" colSpan={5}>Not in this backup</td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {RESTORABLE_COLLECTIONS.some(c => preview.collections[c]?.conflicts.length) && (
+            <details className="text-sm">
+              <summary className="cursor-pointer font-medium text-brand-dark dark:text-slate-300">Show conflicting records</summary>
+              <ul className="mt-2 space-y-1">
+                {RESTORABLE_COLLECTIONS.flatMap(collection => (preview.collections[collection]?.conflicts || []).map(conflict => (
+                  <li key={`${collection}-${conflict.id}`} className="flex justify-between gap-4">
+                    <span>{COLLECTION_LABELS[collection]}: {conflict.label}</span>
+                    <span className="text-xs text-gray-500">{conflict.backupIsNewer ? 'Backup copy is newer' : 'Current copy is newer'}</span>
+                  </li>
+                )))}
+              </ul>
+            </details>
+          )}
+
+          {preview.hasSettings && (
+            <div className="flex items-center">
+              <input type="checkbox" id="restoreSettings" checked={restoreSettings} onChange={e => setRestoreSettings(e.target.checked)} className="h-4 w-4 rounded border-border-color text-gold focus:ring-gold" />
+              <label htmlFor="restoreSettings" className="ml-2 text-sm text-brand-dark dark:text-slate-300">Also replace settings (prices, company details, logo)</label>
+            </div>
+          )}
+
+          {preview.auditLog.length > 0 && (
+            <p className="text-xs text-gray-500">The backup's {preview.auditLog.length} change history entries are added to the history kept here.</p>
+          )}
+          <p className="text-xs text-gray-500">A safety backup of your current data is downloaded before anything is changed.</p>
+        </div>
+
+        <div className="p-6 bg-brand-light dark:bg-slate-900/50 border-t border-border-color dark:border-slate-700 flex justify-end gap-4 mt-auto">
+          <button type="button" onClick={onClose} className="px-6 py-2 bg-white dark:bg-slate-700 text-brand-dark dark:text-white font-semibold rounded-lg border border-border-color dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-600 transition-all shadow-sm">Cancel</button>
+          <button type="button" onClick={() => onApply(modes, restoreSettings)} className="px-6 py-2 bg-gold text-brand-dark font-bold rounded-lg hover:bg-gold-dark transition-all shadow-md">Restore</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestorePreviewModal;
@@ -0,0 +1,151 @@
+import React, { useState, useMemo } from 'react';
+import { QuotationData, Settings } from '../types';
+import { RevisionLineDiff, compareRevisions } from '../services/revisionService';
+import { RemoveIcon } from './icons';
+
+interface RevisionCompareModalProps {
+  revisions: QuotationData[];
+  initialBeforeId: string;
+  initialAfterId: string;
+  settings: Settings;
+  onClose: () => void;
+}
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN' }).format(amount);
+
+const FIELD_LABELS: Record<string, string> = {
+  cartons: 'cartons',
+  wastageCartons: 'wastage cartons',
+  sqm: 'm²',
+  unitPrice: 'price',
+  pattern: 'pattern',
+  quantity: 'qty',
+  unit: 'unit',
+  amount: 'amount',
+};
+
+const ROW_CLASSES: Record<RevisionLineDiff['change'], string> = {
+  added: 'bg-green-50 dark:bg-green-900/20',
+  removed: 'bg-red-50 dark:bg-red-900/20',
+  changed: 'bg-amber-50 dark:bg-amber-900/20',
+  unchanged: '',
+};
+
+const describeLine = (values: RevisionLineDiff['before'], changedFields: string[]) =>
+  values && Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([field, value]) => (
+      <span key={field} className={`mr-2 ${changedFields.includes(field) ? 'font-bold text-brand-dark dark:text-white' : ''}`}>
+        {FIELD_LABELS[field] || field}: {field === 'unitPrice' || field === 'amount' ? formatCurrency(Number(value)) : value}
+      </span>
+    ));
+
+const RevisionCompareModal: React.FC<RevisionCompareModalProps> = ({ revisions, initialBeforeId, initialAfterId, settings, onClose }) => {
+  const [beforeId, setBeforeId] = useState(initialBeforeId);
+  const [afterId, setAfterId] = useState(initialAfterId);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const before = revisions.find(r => r.id === beforeId) || revisions[0];
+  const after = revisions.find(r => r.id === afterId) || revisions[revisions.length - 1];
+  const comparison = useMemo(() => compareRevisions(before, after, settings), [before, after, settings]);
+
+  const renderPicker = (value: string, onChange: (id: string) => void) => (
+    <select value={value} onChange={e => onChange(e.target.value)} className="px-3 py-1.5 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg text-sm font-semibold">
+      {revisions.map(r => <option key={r.id} value={r.id}>Rev {r.revisionCode} · {r.status}</option>)}
+    </select>
+  );
+
+  const renderSection = (title: string, lines: RevisionLineDiff[]) => {
+    const visible = showUnchanged ? lines : lines.filter(line => line.change !== 'unchanged');
+    return (
+      <section>
+        <h3 className="text-sm font-bold text-brand-dark dark:text-slate-200 mb-2">{title}</h3>
+        {visible.length === 0 ? (
+          <p className="text-xs text-gray-500 italic">{lines.length === 0 ? 'None in either revision.' : 'No changes.'}</p>
+        ) : (
+          <table className="w-full text-xs">
+            <tbody className="divide-y divide-border-color dark:divide-slate-700">
+              {visible.map(line => (
+                <tr key={line.key} className={ROW_CLASSES[line.change]}>
+                  <td className="p-2 font-semibold w-1/4">
+                    {line.label}
+                    {line.change !== 'unchanged' && line.change !== 'changed' && <span className="ml-1 font-normal text-gray-500">({line.change})</span>}
+                  </td>
+                  <td className={`p-2 ${line.change === 'removed' ? 'line-through text-gray-500' : ''}`}>
+                    {describeLine(line.before, line.changedFields) || '—'}
+                    {line.before && <span className="block text-gray-500">{formatCurrency(line.beforeAmount)}</span>}
+                  </td>
+                  <td className="p-2">
+                    {describeLine(line.after, line.changedFields) || '—'}
+                    {line.after && <span className="block text-gray-500">{formatCurrency(line.afterAmount)}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-border-color dark:border-slate-700 flex flex-wrap justify-between items-center gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-brand-dark dark:text-white">Compare Revisions</h2>
+            <p className="text-sm text-gray-500">Added lines are green, removed lines red, and changed values bold.</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-slate-800" aria-label="Close"><RemoveIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            {renderPicker(before.id, setBeforeId)}
+            <span className="text-gray-500">→</span>
+            {renderPicker(after.id, setAfterId)}
+            <label className="ml-auto flex items-center gap-2 text-gray-600 dark:text-slate-400">
+              <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} className="h-4 w-4 rounded border-border-color text-gold focus:ring-gold" />
+              Show unchanged lines
+            </label>
+          </div>
+
+          {renderSection('Tiles', comparison.tiles)}
+          {renderSection('Materials', comparison.materials)}
+          {renderSection('Adjustments', comparison.adjustments)}
+
+          <section>
+            <h3 className="text-sm font-bold text-brand-dark dark:text-slate-200 mb-2">Totals</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 text-left">
+                  <th className="p-2"></th>
+                  <th className="p-2 text-right">Rev {before.revisionCode}</th>
+                  <th className="p-2 text-right">Rev {after.revisionCode}</th>
+                  <th className="p-2 text-right">Difference</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border-color dark:divide-slate-700">
+                {comparison.totals.map(total => {
+                  const difference = Math.round((total.after - total.before) * 100) / 100;
+                  return (
+                    <tr key={total.label} className={`${difference !== 0 ? 'bg-amber-50 dark:bg-amber-900/20' : ''} ${total.label === 'Grand Total' ? 'font-bold' : ''}`}>
+                      <td className="p-2">{total.label}</td>
+                      <td className="p-2 text-right">{formatCurrency(total.before)}</td>
+                      <td className="p-2 text-right">{formatCurrency(total.after)}</td>
+                      <td className={`p-2 text-right ${difference < 0 ? 'text-success' : difference > 0 ? 'text-danger' : 'text-gray-400'}`}>
+                        {difference > 0 ? '+' : ''}{formatCurrency(difference)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionCompareModal;
@@ -0,0 +1,176 @@
+import React from 'react';
+import { RoomMeasurement, RoomOpening, Settings } from '../types';
+import { PlusIcon, RemoveIcon } from './icons';
+import { calculateRoomAreas } from '../services/roomMeasurementService';
+
+interface RoomMeasurementInputProps {
+  rooms: RoomMeasurement[];
+  setRooms: (rooms: RoomMeasurement[]) => void;
+  disabled: boolean;
+  settings: Settings;
+}
+
+const createRoom = (group: string): RoomMeasurement => ({
+  id: crypto.randomUUID(),
+  name: '',
+  group,
+  floorLength: 0,
+  floorWidth: 0,
+  wallPerimeter: 0,
+  wallHeight: 0,
+  openings: [],
+  skirtingRun: 0,
+});
+
+const RoomMeasurementInput: React.FC<RoomMeasurementInputProps> = ({ rooms, setRooms, disabled, settings }) => {
+
+  const updateRoom = (index: number, changes: Partial<RoomMeasurement>) => {
+    setRooms(rooms.map((room, i) => (i === index ? { ...room, ...changes } : room)));
+  };
+
+  const updateOpening = (roomIndex: number, openingIndex: number, changes: Partial<RoomOpening>) => {
+    const openings = rooms[roomIndex].openings.map((o, i) => (i === openingIndex ? { ...o, ...changes } : o));
+    updateRoom(roomIndex, { openings });
+  };
+
+  const handleAddRoom = () => {
+    // New rooms default to the group of the previous one, so a flat can be entered room by room
+    setRooms([...rooms, createRoom(rooms.length > 0 ? rooms[rooms.length - 1].group || 'General' : 'General')]);
+  };
+
+  const handleRemoveRoom = (index: number) => setRooms(rooms.filter((_, i) => i !== index));
+
+  const handleAddOpening = (index: number, kind: RoomOpening['kind']) => {
+    const opening: RoomOpening = kind === 'door' ? { kind, width: 0.9, height: 2.1 } : { kind, width: 1.2, height: 1.2 };
+    updateRoom(index, { openings: [...rooms[index].openings, opening] });
+  };
+
+  const handleRemoveOpening = (roomIndex: number, openingIndex: number) => {
+    updateRoom(roomIndex, { openings: rooms[roomIndex].openings.filter((_, i) => i !== openingIndex) });
+  };
+
+  const toNumber = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+  const inputClass = "w-full px-2 py-1.5 bg-white dark:bg-slate-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm focus:border-gold focus:ring-2 focus:ring-gold/20 transition-all disabled:opacity-60";
+  const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-wide mb-1";
+
+  const renderNumber = (index: number, field: 'floorLength' | 'floorWidth' | 'wallPerimeter' | 'wallHeight' | 'skirtingRun', label: string) => (
+    <div>
+      <label htmlFor={`${field}-${index}`} className={labelClass}>{label}</label>
+      <input
+        type="number"
+        id={`${field}-${index}`}
+        step="0.01"
+        min="0"
+        value={rooms[index][field] || ''}
+        onChange={(e) => updateRoom(index, { [field]: toNumber(e.target.value) })}
+        disabled={disabled}
+        className={inputClass}
+        placeholder="0"
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-surface-dark p-6 rounded-2xl border border-border-color dark:border-border-dark shadow-soft">
+      <div className="flex justify-between items-center mb-1">
+        <h2 className="text-sm font-bold text-brand-dark dark:text-white uppercase tracking-wide">
+          Room Measurements
+        </h2>
+        <span className="text-[10px] text-gray-400 font-bold uppercase tracking-wide">Metres</span>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">Enter room dimensions and tile lines are calculated for you. Job notes, if any, are still used for materials and client details.</p>
+
+      <div className="space-y-4">
+        {rooms.map((room, index) => {
+          const areas = calculateRoomAreas(room, settings);
+          return (
+            <div key={room.id} className="p-4 border border-slate-100 dark:border-slate-700/50 bg-slate-50 dark:bg-slate-800/50 rounded-xl relative">
+              <button
+                onClick={() => handleRemoveRoom(index)}
+                disabled={disabled}
+                className="absolute top-2 right-2 p-1.5 text-gray-400 hover:text-danger hover:bg-red-100 rounded-full transition-colors"
+                aria-label="Remove room"
+              >
+                <RemoveIcon className="w-4 h-4" />
+              </button>
+
+              <div className="grid grid-cols-2 gap-3 pr-8">
+                <div>
+                  <label htmlFor={`name-${index}`} className={labelClass}>Room</label>
+                  <input type="text" id={`name-${index}`} value={room.name} onChange={(e) => updateRoom(index, { name: e.target.value })} disabled={disabled} className={inputClass} placeholder="e.g. Bedroom, Toilet" />
+                </div>
+                <div>
+                  <label htmlFor={`group-${index}`} className={labelClass}>Section / Group</label>
+                  <input type="text" id={`group-${index}`} value={room.group || ''} onChange={(e) => updateRoom(index, { group: e.target.value })} disabled={disabled} className={inputClass} placeholder="e.g. Flat 1" />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mt-3">
+                {renderNumber(index, 'floorLength', 'Floor L')}
+                {renderNumber(index, 'floorWidth', 'Floor W')}
+                {renderNumber(index, 'wallPerimeter', 'Wall Perim.')}
+                {renderNumber(index, 'wallHeight', 'Wall H')}
+                {renderNumber(index, 'skirtingRun', 'Skirting Run')}
+              </div>
+              {room.floorLength > 0 && room.floorWidth > 0 && (
+                <button
+                  onClick={() => updateRoom(index, { wallPerimeter: parseFloat((2 * (room.floorLength + room.floorWidth)).toFixed(2)) })}
+                  disabled={disabled}
+                  className="mt-2 text-[10px] font-bold text-gold-dark hover:underline uppercase tracking-wide disabled:opacity-50"
+                >
+                  Use floor perimeter for walls
+                </button>
+              )}
+
+              {room.openings.length > 0 && (
+                <div className="mt-3 space-y-2">
+                  {room.openings.map((opening, oIndex) => (
+                    <div key={oIndex} className="flex items-center gap-2">
+                      <select
+                        value={opening.kind}
+                        onChange={(e) => updateOpening(index, oIndex, { kind: e.target.value as RoomOpening['kind'] })}
+                        disabled={disabled}
+                        className={`${inputClass} w-28`}
+                      >
+                        <option value="door">Door</option>
+                        <option value="window">Window</option>
+                      </select>
+                      <input type="number" step="0.01" min="0" value={opening.width || ''} onChange={(e) => updateOpening(index, oIndex, { width: toNumber(e.target.value) })} disabled={disabled} className={inputClass} placeholder="W" aria-label="Opening width" />
+                      <span className="text-gray-400 text-xs">×</span>
+                      <input type="number" step="0.01" min="0" value={opening.height || ''} onChange={(e) => updateOpening(index, oIndex, { height: toNumber(e.target.value) })} disabled={disabled} className={inputClass} placeholder="H" aria-label="Opening height" />
+                      <button onClick={() => handleRemoveOpening(index, oIndex)} disabled={disabled} className="p-1 text-gray-400 hover:text-danger" aria-label="Remove opening">
+                        <RemoveIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center justify-between gap-2 mt-3">
+                <div className="flex gap-2">
+                  <button onClick={() => handleAddOpening(index, 'door')} disabled={disabled} className="text-[10px] font-bold text-gray-500 hover:text-gold-dark uppercase tracking-wide disabled:opacity-50">− Door</button>
+                  <button onClick={() => handleAddOpening(index, 'window')} disabled={disabled} className="text-[10px] font-bold text-gray-500 hover:text-gold-dark uppercase tracking-wide disabled:opacity-50">− Window</button>
+                </div>
+                <p className="text-[10px] text-gray-500 font-bold uppercase tracking-wide">
+                  Floor {areas.floorSqm} m² · Walls {areas.wallSqm} m² · Skirting {areas.skirtingSqm} m²
+                </p>
+              </div>
+            </div>
+          );
+        })}
+
+        <button
+          onClick={handleAddRoom}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-border-color dark:border-slate-600 text-brand-dark dark:text-white font-semibold rounded-xl hover:border-gold hover:text-gold hover:bg-gold-light/10 transition-all disabled:opacity-50"
+        >
+          <PlusIcon className="w-5 h-5" />
+          Add Room
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RoomMeasurementInput;
@@ -1,8 +1,14 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Settings } from '../types';
+import { Settings, LayingPattern } from '../types';
+import { LAYING_PATTERNS } from '../services/pricingRules';
+import { peekNextDocumentNumber } from '../services/numberingService';
 import { RemoveIcon, DatabaseIcon, DownloadCloudIcon, UploadCloudIcon } from './icons';
 import SignaturePad from './SignaturePad';
+import SnapshotsPanel from './SnapshotsPanel';
+import { SnapshotInfo } from '../services/snapshotService';
+import SyncPanel from './SyncPanel';
+import { SyncStatus } from '../services/syncService';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -10,7 +16,13 @@ interface SettingsModalProps {
   settings: Settings;
   onSave: (newSettings: Settings) => void;
   onBackup?: () => void;
+  onEncryptedBackup?: () => void;
   onRestore?: (file: File) => void;
+  onRestoreSnapshot?: (snapshot: SnapshotInfo) => void;
+  syncStatus?: SyncStatus;
+  onSyncNow?: () => void;
+  duplicateNumbers?: string[];
+  onClearDuplicateNumbers?: () => void;
 }
 
 // Allow local state to hold strings for number fields to support decimal typing (e.g., "1.")
@@ -18,7 +30,7 @@ type EditableSettings = {
   [K in keyof Settings]: Settings[K] extends number ? string | number : Settings[K];
 };
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onSave, onBackup, onRestore }) => {
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings, onSave, onBackup, onEncryptedBackup, onRestore, onRestoreSnapshot, syncStatus, onSyncNow, duplicateNumbers, onClearDuplicateNumbers }) => {
   const [localSettings, setLocalSettings] = useState<EditableSettings>(settings);
   const [newUnit, setNewUnit] = useState('');
   const [newExpenseCategory, setNewExpenseCategory] = useState('');
@@ -28,8 +40,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
   const [newSize, setNewSize] = useState('');
   const [newSizePrice, setNewSizePrice] = useState<number | ''>('');
 
-  // Local state for wastage percentage (derived from factor)
-  const [wastagePercent, setWastagePercent] = useState<string | number>('');
+  // New state for size wastage
+  const [newWastageSize, setNewWastageSize] = useState('');
+  const [newWastagePercentage, setNewWastagePercentage] = useState<number | ''>('');
 
   const logoInputRef = useRef<HTMLInputElement>(null);
   const signatureInputRef = useRef<HTMLInputElement>(null);
@@ -38,9 +51,6 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
   useEffect(() => {
     // Sync local state when settings prop changes or modal opens
     setLocalSettings(settings);
-    // Convert factor (e.g., 1.10) to percentage (e.g., 10)
-    const percent = Math.round((settings.wastageFactor - 1) * 100);
-    setWastagePercent(percent);
   }, [settings, isOpen]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -54,16 +64,30 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
     }));
   };
 
-  const handleWastageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const val = e.target.value;
-      setWastagePercent(val);
-      // Update local settings immediately with the factor
-      const numVal = parseFloat(val);
-      if (!isNaN(numVal)) {
-          const factor = 1 + (numVal / 100);
-          setLocalSettings(prev => ({ ...prev, wastageFactor: factor }));
+  const handlePatternWastageChange = (pattern: LayingPattern, value: string) => {
+      setLocalSettings(prev => ({
+          ...prev,
+          wastageByPattern: { ...prev.wastageByPattern, [pattern]: value === '' ? 0 : parseFloat(value) || 0 }
+      }));
+  };
+
+  const handleAddSizeWastage = () => {
+      if (newWastageSize.trim() && typeof newWastagePercentage === 'number') {
+          setLocalSettings(prev => ({
+              ...prev,
+              wastageBySize: [...(prev.wastageBySize || []), { size: newWastageSize.trim(), percentage: newWastagePercentage }]
+          }));
+          setNewWastageSize('');
+          setNewWastagePercentage('');
       }
   };
+
+  const handleRemoveSizeWastage = (index: number) => {
+      setLocalSettings(prev => ({
+          ...prev,
+          wastageBySize: (prev.wastageBySize || []).filter((_, i) => i !== index)
+      }));
+  };
   
   const handleAddUnit = () => {
     if (newUnit.trim() && !localSettings.customMaterialUnits.includes(newUnit.trim().toLowerCase())) {
@@ -145,10 +169,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
   
   const handleRestoreFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
+      // The restore preview lets the user review and choose what to overwrite before anything changes
       if (file && onRestore) {
-          if (window.confirm("WARNING: Restoring data will overwrite your current quotations, invoices, and clients. Are you sure you want to proceed?")) {
-              onRestore(file);
-          }
+          onRestore(file);
       }
       if (restoreInputRef.current) restoreInputRef.current.value = '';
   };
@@ -235,10 +258,17 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
               {renderInput('companyAddress', 'Company Address', 'text')}
               {renderInput('companyEmail', 'Company Email', 'email')}
               {renderInput('companyPhone', 'Company Phone', 'tel')}
+              {renderInput('defaultCountryCode', 'Country Code for WhatsApp (e.g. 234)', 'text')}
             </div>
           )}
 
-          {renderSection('Category & Material Base Prices', 'Set the default unit prices and wastage settings.',
+          {renderSection('Quotation Engine', 'Choose how job notes are turned into quotations. The offline parser is always used when the AI is unavailable.',
+            <div className="space-y-4">
+               {renderCheckbox('useOfflineParser', 'Always use the offline notes parser (no AI)')}
+            </div>
+          )}
+
+          {renderSection('Category & Material Base Prices', 'Set the default unit prices for tiles, materials and labour.',
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                 <div className="sm:col-span-2"><h4 className="text-sm font-bold text-gold-darker uppercase tracking-wide mb-2">Common Areas</h4></div>
                 {renderInput('sittingRoomTilePrice', 'Sitting Room / Living Room (NGN)', 'number', '100')}
@@ -263,19 +293,47 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                 {renderInput('whiteCementPrice', 'White Cement Price (per bag) (NGN)', 'number', '100')}
                 {renderInput('sharpSandPrice', 'Sharp Sand Price (NGN)', 'number', '100')}
                 {renderInput('workmanshipRate', 'Workmanship Rate (per m²) (NGN)', 'number', '100')}
+            </div>
+          )}
 
-                <div className="sm:col-span-2 border-t border-border-color dark:border-slate-700 my-1"></div>
-                <div className="sm:col-span-2 bg-amber-50 dark:bg-amber-900/20 p-4 rounded-lg border border-amber-200 dark:border-amber-800">
-                    <label htmlFor="wastagePercent" className="block text-sm font-bold text-brand-dark dark:text-slate-200">Wastage Buffer (%)</label>
-                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">This percentage can be optionally added to calculations in the editor.</p>
-                    <input
-                        type="number"
-                        id="wastagePercent"
-                        value={wastagePercent}
-                        onChange={handleWastageChange}
-                        placeholder="e.g., 10"
-                        className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-gold/80 focus:border-gold sm:text-sm transition"
-                    />
+          {renderSection('Wastage by Laying Pattern', 'Extra cartons added for tiles with a laying pattern. Large-format sizes add their percentage on their own or on top of the pattern figure. Applied when a line is added or edited; saved documents keep their wastage.',
+            <div className="space-y-4">
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 bg-amber-50 dark:bg-amber-900/20 p-4 rounded-lg border border-amber-200 dark:border-amber-800">
+                    {LAYING_PATTERNS.map(pattern => (
+                        <div key={pattern}>
+                            <label htmlFor={`wastage-${pattern}`} className="block text-xs font-bold text-brand-dark dark:text-slate-200">{pattern} (%)</label>
+                            <input
+                                type="number"
+                                id={`wastage-${pattern}`}
+                                value={localSettings.wastageByPattern?.[pattern] ?? 0}
+                                onChange={(e) => handlePatternWastageChange(pattern, e.target.value)}
+                                className="mt-1 block w-full px-3 py-2 bg-white dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-gold/80 focus:border-gold sm:text-sm transition"
+                            />
+                        </div>
+                    ))}
+                </div>
+                <div className="flex gap-2 items-end">
+                    <div className="flex-grow">
+                        <label className="block text-xs font-bold text-gray-500 dark:text-slate-400 mb-1">Size (e.g. 60x120)</label>
+                        <input type="text" value={newWastageSize} onChange={(e) => setNewWastageSize(e.target.value)} className="w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg shadow-sm sm:text-sm" placeholder="e.g. 60x120"/>
+                    </div>
+                     <div className="w-32">
+                        <label className="block text-xs font-bold text-gray-500 dark:text-slate-400 mb-1">Extra (%)</label>
+                        <input type="number" value={newWastagePercentage} onChange={(e) => setNewWastagePercentage(e.target.value === '' ? '' : parseFloat(e.target.value))} className="w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg shadow-sm sm:text-sm" placeholder="0"/>
+                    </div>
+                    <button onClick={handleAddSizeWastage} disabled={!newWastageSize.trim() || newWastagePercentage === ''} className="px-4 py-2 bg-gold text-brand-dark font-bold rounded-lg disabled:opacity-50 mb-[1px]">Add</button>
+                </div>
+                <div className="space-y-2 max-h-40 overflow-y-auto border border-border-color dark:border-slate-700 rounded-lg p-2 bg-gray-50 dark:bg-slate-800/50">
+                    {(localSettings.wastageBySize || []).map((rule, index) => (
+                        <div key={index} className="flex justify-between items-center bg-white dark:bg-slate-800 p-2 rounded border border-gray-100 dark:border-slate-700 shadow-sm">
+                            <span className="font-mono text-sm text-brand-dark dark:text-slate-200 font-semibold">{rule.size}</span>
+                            <div className="flex items-center gap-4">
+                                <span className="font-bold text-sm text-gold-dark">+{rule.percentage}%</span>
+                                <button onClick={() => handleRemoveSizeWastage(index)} className="text-gray-400 hover:text-red-500"><RemoveIcon className="w-4 h-4"/></button>
+                            </div>
+                        </div>
+                    ))}
+                    {(!localSettings.wastageBySize || localSettings.wastageBySize.length === 0) && <p className="text-xs text-gray-400 italic text-center py-2">No size-based wastage configured.</p>}
                 </div>
             </div>
           )}
@@ -331,6 +389,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                 {renderInput('floorTileM2PerCarton', 'General Floor Coverage (m²/carton)', 'number', '0.01')}
                 {renderInput('externalWallTileM2PerCarton', 'External Wall Coverage (m²/carton)', 'number', '0.01')}
                 {renderInput('stepTileM2PerCarton', 'Step / Staircase Coverage (m²/carton)', 'number', '0.01')}
+                {renderInput('skirtingHeight', 'Skirting Height for Room Measurements (m)', 'number', '0.01')}
             </div>
           )}
 
@@ -440,7 +499,20 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
 
           {renderSection('Invoicing', 'Configure default settings for invoices.',
             <div className="space-y-6">
-                {renderInput('invoicePrefix', 'Invoice Prefix (e.g. INV)', 'text')}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                    {renderInput('invoicePrefix', 'Invoice Prefix (e.g. INV)', 'text')}
+                    {renderInput('invoiceNumberTemplate', 'Invoice Number Format', 'text', undefined, '{prefix}-{yyyy}-{seq:0000}')}
+                    {renderInput('quotationPrefix', 'Quotation Prefix (e.g. QUO)', 'text')}
+                    {renderInput('quotationNumberTemplate', 'Quotation Number Format', 'text', undefined, '{prefix}-{yyyy}-{seq:0000}')}
+                    {renderInput('receiptPrefix', 'Receipt Prefix (e.g. RCT)', 'text')}
+                    {renderInput('receiptNumberTemplate', 'Receipt Number Format', 'text', undefined, '{prefix}-{yyyy}-{seq:0000}')}
+                    {renderInput('creditNotePrefix', 'Credit Note Prefix (e.g. CN)', 'text')}
+                    {renderInput('creditNoteNumberTemplate', 'Credit Note Number Format', 'text', undefined, '{prefix}-{yyyy}-{seq:0000}')}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 -mt-3">
+                    Tokens: {'{prefix} {yyyy} {yy} {mm} {seq} {seq:0000}'}. Next invoice: <span className="font-mono font-semibold text-brand-dark dark:text-slate-200">{peekNextDocumentNumber('invoice', localSettings as Settings)}</span>, next quotation: <span className="font-mono font-semibold text-brand-dark dark:text-slate-200">{peekNextDocumentNumber('quotation', localSettings as Settings)}</span>, next receipt: <span className="font-mono font-semibold text-brand-dark dark:text-slate-200">{peekNextDocumentNumber('receipt', localSettings as Settings)}</span>
+                </p>
+                {renderCheckbox('resetNumberingYearly', 'Restart numbering at 1 each new year')}
                 <div>
                     <label htmlFor="defaultBankDetails" className="block text-sm font-bold text-brand-dark dark:text-slate-200">Default Bank Details</label>
                     <textarea id="defaultBankDetails" name="defaultBankDetails" value={localSettings.defaultBankDetails as string} onChange={handleChange} rows={4} className="mt-1 block w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-gold/80 focus:border-gold sm:text-sm transition" />
@@ -456,6 +528,31 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
             </div>
           )}
 
+          {renderSection('Late Fees & Reminders', 'Charge a fee for each period an invoice stays unpaid, and choose when payment reminders fall due.',
+            <div className="space-y-6">
+                {renderCheckbox('lateFeeEnabled', 'Charge late payment fees on overdue invoices')}
+                {localSettings.lateFeeEnabled && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                        <div>
+                            <label htmlFor="lateFeeType" className="block text-sm font-bold text-brand-dark dark:text-slate-200">Fee Type</label>
+                            <select id="lateFeeType" name="lateFeeType" value={localSettings.lateFeeType} onChange={handleChange} className="mt-1 block w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-gold/80 focus:border-gold sm:text-sm transition">
+                                <option value="percentage">Percentage of unpaid balance</option>
+                                <option value="flat">Flat amount</option>
+                            </select>
+                        </div>
+                        {renderInput('lateFeeAmount', localSettings.lateFeeType === 'flat' ? 'Fee per Period (NGN)' : 'Fee per Period (%)', 'number', localSettings.lateFeeType === 'flat' ? '100' : '0.5')}
+                        {renderInput('lateFeePeriodDays', 'Period Length (days)', 'number', '1')}
+                        {renderInput('lateFeeMaxPeriods', 'Maximum Periods Charged (0 = no limit)', 'number', '1')}
+                    </div>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                    {renderInput('reminderFirstDays', 'First Reminder (days overdue)', 'number', '1')}
+                    {renderInput('reminderSecondDays', 'Second Reminder (days overdue)', 'number', '1')}
+                    {renderInput('reminderFinalDays', 'Final Notice (days overdue)', 'number', '1')}
+                </div>
+            </div>
+          )}
+
            {renderSection('Customization', 'Manage lists for dropdowns.',
              <div className="space-y-6">
                 <div>
@@ -497,6 +594,12 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                      <DownloadCloudIcon className="w-5 h-5"/>
                      Backup Data
                  </button>
+                 {onEncryptedBackup && (
+                     <button onClick={onEncryptedBackup} className="flex items-center justify-center gap-2 px-4 py-2 bg-slate-100 dark:bg-slate-700 text-brand-dark dark:text-white font-semibold rounded-lg border border-border-color dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-600 transition" title="Protect the backup with a passphrase">
+                         <DownloadCloudIcon className="w-5 h-5"/>
+                         Encrypted Backup
+                     </button>
+                 )}
                  <div className="relative">
                      <button onClick={() => restoreInputRef.current?.click()} className="flex items-center justify-center gap-2 px-4 py-2 bg-white dark:bg-slate-800 text-brand-dark dark:text-white font-semibold rounded-lg border border-border-color dark:border-slate-600 hover:bg-gray-50 dark:hover:bg-slate-700 transition w-full">
                         <UploadCloudIcon className="w-5 h-5"/>
@@ -512,11 +615,40 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, settings
                  </div>
                  <div className="text-xs text-gray-500 mt-2 sm:mt-0 flex items-center">
                      <DatabaseIcon className="w-4 h-4 mr-1"/>
-                     <span>Safe .json format</span>
+                     <span>Safe .json format, optionally encrypted</span>
+                 </div>
+             </div>
+          )}
+
+          {renderSection('Automatic Snapshots', 'Keep rolling copies of all your data on this device, and get reminded to export a backup.',
+             <div className="space-y-6">
+                 {renderCheckbox('autoSnapshotEnabled', 'Take snapshots automatically')}
+                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                     {renderInput('snapshotIntervalHours', 'Every (hours)', 'number', '1')}
+                     {renderInput('snapshotKeepCount', 'Snapshots to Keep', 'number', '1')}
+                     {renderInput('backupReminderDays', 'Backup Reminder (days, 0 = off)', 'number', '1')}
                  </div>
+                 {onRestoreSnapshot && <SnapshotsPanel settings={settings} onRestore={onRestoreSnapshot} />}
              </div>
           )}
 
+          {renderSection('Sync', 'Keep this device in step with your other devices through a sync server you run yourself.',
+             <div className="space-y-6">
+                 {renderCheckbox('syncEnabled', 'Sync with a server')}
+                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                     <div className="sm:col-span-2">{renderInput('syncEndpoint', 'Server Address', 'url', undefined, 'https://sync.example.com')}</div>
+                     {renderInput('syncIntervalMinutes', 'Every (minutes)', 'number', '1')}
+                 </div>
+                 {renderInput('syncToken', 'Access Token (optional)', 'password')}
+                 <p className="text-xs text-gray-500">These settings stay on this device. Save your changes before syncing with a new server.</p>
+                 {syncStatus && onSyncNow && settings.syncEnabled && settings.syncEndpoint && <SyncPanel status={syncStatus} onSyncNow={onSyncNow} duplicateNumbers={duplicateNumbers} onClearDuplicateNumbers={onClearDuplicateNumbers} />}
+             </div>
+          )}
+
+          {renderSection('Change History', 'Edits to quotations and invoices are logged with the time and who made them.',
+             renderInput('auditUserName', 'Your Name (on this device)', 'text', undefined, 'e.g. Hanif')
+          )}
+
         </div>
         <div className="p-6 bg-brand-light dark:bg-slate-900/50 border-t border-border-color dark:border-slate-700 flex justify-end gap-4 mt-auto">
           <button type="button" onClick={onClose} className="px-6 py-2 bg-white dark:bg-slate-700 text-brand-dark dark:text-white font-semibold rounded-lg border border-border-color dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-600 transition-all shadow-sm">Cancel</button>
@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Settings } from '../types';
+import { SnapshotInfo, chooseSnapshotDirectory, clearSnapshotDirectory, getSnapshotDirectory, isDirectoryPickerSupported, listSnapshots, takeSnapshot } from '../services/snapshotService';
+import LoadingSpinner from './LoadingSpinner';
+
+interface SnapshotsPanelProps {
+  settings: Settings;
+  onRestore: (snapshot: SnapshotInfo) => void;
+}
+
+const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({ settings, onRestore }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [directoryName, setDirectoryName] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const refresh = useCallback(() => {
+    listSnapshots().then(setSnapshots).catch(error => {
+      console.error('Failed to load snapshots', error);
+      setSnapshots([]);
+    });
+    getSnapshotDirectory().then(handle => setDirectoryName(handle?.name || null)).catch(() => setDirectoryName(null));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleTakeSnapshot = async () => {
+    setIsWorking(true);
+    try {
+      await takeSnapshot(settings, true);
+    } catch (error) {
+      console.error(error);
+      alert('Failed to take a snapshot. Your browser storage may be full.');
+    } finally {
+      setIsWorking(false);
+      refresh();
+    }
+  };
+
+  const handleChooseDirectory = async () => {
+    try {
+      const name = await chooseSnapshotDirectory();
+      if (name) setDirectoryName(name);
+    } catch (error) {
+      console.error(error);
+      alert('Could not use that folder for snapshots.');
+    }
+  };
+
+  const handleClearDirectory = async () => {
+    await clearSnapshotDirectory();
+    setDirectoryName(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-gray-600 dark:text-slate-400">
+          Saved to: <strong className="text-brand-dark dark:text-white">{directoryName ? `folder "${directoryName}"` : 'this browser'}</strong>
+        </span>
+        {isDirectoryPickerSupported() && (
+          directoryName
+            ? <button type="button" onClick={handleClearDirectory} className="text-gold-dark font-semibold hover:underline">Use browser storage</button>
+            : <button type="button" onClick={handleChooseDirectory} className="text-gold-dark font-semibold hover:underline">Choose folder…</button>
+        )}
+        <button type="button" onClick={handleTakeSnapshot} disabled={isWorking} className="ml-auto flex items-center gap-2 px-3 py-1.5 bg-slate-100 dark:bg-slate-700 text-brand-dark dark:text-white font-semibold rounded-lg border border-border-color dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-600 transition disabled:opacity-50">
+          {isWorking && <LoadingSpinner />}
+          Take Snapshot Now
+        </button>
+      </div>
+
+      {snapshots === null ? (
+        <p className="text-sm text-gray-500">Loading snapshots…</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-sm text-gray-500">No snapshots yet.</p>
+      ) : (
+        <ul className="divide-y divide-border-color dark:divide-slate-700 border border-border-color dark:border-slate-700 rounded-lg">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+              <div>
+                <p className="font-semibold text-brand-dark dark:text-white">{new Date(snapshot.createdAt).toLocaleString()}</p>
+                <p className="text-xs text-gray-500">
+                  {snapshot.counts.quotations} quotations · {snapshot.counts.invoices} invoices · {snapshot.counts.clients} clients · {snapshot.counts.expenses} expenses
+                  {snapshot.location === 'directory' && ` · ${snapshot.fileName}`}
+                </p>
+              </div>
+              <button type="button" onClick={() => onRestore(snapshot)} className="px-3 py-1 text-gold-dark font-semibold border border-gold/40 rounded-md hover:bg-gold-lightest dark:hover:bg-slate-800">
+                Restore
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotsPanel;
@@ -0,0 +1,114 @@
+import React, { useState, useMemo } from 'react';
+import { Client, QuotationData, InvoiceData, Settings } from '../types';
+import { generateClientStatement } from '../services/statementService';
+import { exportStatementToPdf, exportStatementToCsv } from '../services/exportService';
+import { PdfIcon, CsvIcon } from './icons';
+
+interface StatementModalProps {
+  client: Client | null;
+  quotations: QuotationData[];
+  invoices: InvoiceData[];
+  settings: Settings;
+  onClose: () => void;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', minimumFractionDigits: 0 }).format(amount);
+};
+
+const toInputDate = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const StatementModal: React.FC<StatementModalProps> = ({ client, quotations, invoices, settings, onClose }) => {
+  const [fromDate, setFromDate] = useState(() => toInputDate(new Date(new Date().getFullYear(), 0, 1)));
+  const [toDate, setToDate] = useState(() => toInputDate(new Date()));
+
+  const statement = useMemo(() => {
+    if (!client) return null;
+    // Date inputs are local calendar days; the end date includes the whole day
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined;
+    return generateClientStatement(client, quotations, invoices, settings, from, to);
+  }, [client, quotations, invoices, settings, fromDate, toDate]);
+
+  if (!client || !statement) return null;
+
+  const inputClass = "mt-1 block w-full px-3 py-2 bg-brand-light dark:bg-slate-800 border border-border-color dark:border-slate-700 rounded-lg shadow-sm sm:text-sm focus:ring-gold/80 focus:border-gold";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" aria-modal="true" role="dialog">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-8 border-b border-border-color dark:border-slate-700">
+          <h2 className="text-xl font-bold text-brand-dark dark:text-white">Statement of Account</h2>
+          <p className="text-sm text-gray-500">{client.name}</p>
+          <div className="grid grid-cols-2 gap-4 mt-4 max-w-md">
+            <div>
+              <label htmlFor="statementFrom" className="block text-xs font-bold text-gray-500 uppercase">From</label>
+              <input type="date" id="statementFrom" value={fromDate} onChange={e => setFromDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="statementTo" className="block text-xs font-bold text-gray-500 uppercase">To</label>
+              <input type="date" id="statementTo" value={toDate} onChange={e => setToDate(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+            <div><p className="text-xs text-gray-500 uppercase font-bold">Opening</p><p className="font-semibold text-brand-dark dark:text-white">{formatCurrency(statement.openingBalance)}</p></div>
+            <div><p className="text-xs text-gray-500 uppercase font-bold">Charges</p><p className="font-semibold text-brand-dark dark:text-white">{formatCurrency(statement.totalDebits)}</p></div>
+            <div><p className="text-xs text-gray-500 uppercase font-bold">Payments & Credits</p><p className="font-semibold text-success">{formatCurrency(statement.totalCredits)}</p></div>
+            <div><p className="text-xs text-gray-500 uppercase font-bold">Balance Due</p><p className={`font-bold ${statement.closingBalance > 0 ? 'text-danger' : 'text-brand-dark dark:text-white'}`}>{formatCurrency(statement.closingBalance)}</p></div>
+          </div>
+
+          <div className="overflow-x-auto border border-border-color dark:border-slate-700 rounded-lg">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-brand-dark text-white text-xs uppercase">
+                <tr>
+                  <th className="p-3">Date</th>
+                  <th className="p-3">Reference</th>
+                  <th className="p-3">Description</th>
+                  <th className="p-3 text-right">Debit</th>
+                  <th className="p-3 text-right">Credit</th>
+                  <th className="p-3 text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border-color dark:divide-slate-700">
+                <tr className="bg-gray-50 dark:bg-slate-800/50 text-gray-500">
+                  <td className="p-3" colSpan={5}>Balance brought forward</td>
+                  <td className="p-3 text-right font-semibold">{formatCurrency(statement.openingBalance)}</td>
+                </tr>
+                {statement.entries.map((entry, index) => (
+                  <tr key={index} className={entry.type === 'quotation' ? 'text-gray-400' : 'text-brand-dark dark:text-slate-200'}>
+                    <td className="p-3 whitespace-nowrap">{new Date(entry.date).toLocaleDateString()}</td>
+                    <td className="p-3 font-mono text-xs">{entry.reference}</td>
+                    <td className="p-3">{entry.description}</td>
+                    <td className="p-3 text-right">{entry.debit ? formatCurrency(entry.debit) : ''}</td>
+                    <td className="p-3 text-right text-success">{entry.credit ? formatCurrency(entry.credit) : ''}</td>
+                    <td className="p-3 text-right font-semibold">{formatCurrency(entry.balance)}</td>
+                  </tr>
+                ))}
+                {statement.entries.length === 0 && (
+                  <tr><td colSpan={6} className="p-6 text-center text-gray-500">No transactions in this period.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="p-6 bg-brand-light dark:bg-slate-900/50 border-t border-border-color dark:border-slate-700 flex flex-wrap justify-end gap-4 mt-auto">
+          <button type="button" onClick={() => exportStatementToCsv(statement)} className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-700 text-brand-dark dark:text-white font-semibold rounded-lg border border-border-color dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-600 transition-all shadow-sm">
+            <CsvIcon className="w-4 h-4" /> CSV
+          </button>
+          <button type="button" onClick={() => exportStatementToPdf(statement, settings)} className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-700 text-brand-dark dark:text-white font-semibold rounded-lg border border-border-color dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-600 transition-all shadow-sm">
+            <PdfIcon className="w-4 h-4" /> PDF
+          </button>
+          <button type="button" onClick={onClose} className="px-6 py-2 bg-gold text-brand-dark font-bold rounded-lg hover:bg-gold-dark transition-all shadow-md">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatementModal;
@@ -0,0 +1,95 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { SyncConflict, SyncStatus, clearConflictLog, getConflictLog, getPendingChangeCount } from '../services/syncService';
+import LoadingSpinner from './LoadingSpinner';
+
+interface SyncPanelProps {
+  status: SyncStatus;
+  onSyncNow: () => void;
+  duplicateNumbers?: string[]; // Numbers another device also issued while offline
+  onClearDuplicateNumbers?: () => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus['state'], string> = {
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  offline: 'Offline — changes will be sent when you reconnect',
+  error: 'Sync failed',
+};
+
+const SyncPanel: React.FC<SyncPanelProps> = ({ status, onSyncNow, duplicateNumbers = [], onClearDuplicateNumbers }) => {
+  const [pendingCount, setPendingCount] = useState<number | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+
+  const refresh = useCallback(() => {
+    getPendingChangeCount().then(setPendingCount).catch(() => setPendingCount(null));
+    getConflictLog().then(setConflicts).catch(error => console.error('Failed to load the conflict log', error));
+  }, []);
+
+  // Reload after every sync round
+  useEffect(() => {
+    if (status.state !== 'syncing') refresh();
+  }, [status, refresh]);
+
+  const handleClear = async () => {
+    await clearConflictLog();
+    setConflicts([]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className={status.state === 'error' ? 'text-danger' : 'text-gray-600 dark:text-slate-400'}>
+          <strong>{STATUS_LABELS[status.state]}</strong>
+          {status.state === 'error' && status.message && `: ${status.message}`}
+        </span>
+        <span className="text-gray-500">
+          {status.lastSyncAt ? `Last synced ${new Date(status.lastSyncAt).toLocaleString()}` : 'Not synced yet'}
+          {pendingCount !== null && ` · ${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting`}
+        </span>
+        <button type="button" onClick={onSyncNow} disabled={status.state === 'syncing'} className="ml-auto flex items-center gap-2 px-3 py-1.5 bg-slate-100 dark:bg-slate-700 text-brand-dark dark:text-white font-semibold rounded-lg border border-border-color dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-600 transition disabled:opacity-50">
+          {status.state === 'syncing' && <LoadingSpinner />}
+          Sync Now
+        </button>
+      </div>
+
+      {duplicateNumbers.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-bold text-brand-dark dark:text-slate-200">Duplicate numbers</h4>
+            {onClearDuplicateNumbers && <button type="button" onClick={onClearDuplicateNumbers} className="text-sm text-gold-dark font-semibold hover:underline">Clear</button>}
+          </div>
+          <p className="text-xs text-gray-500 mb-2">Another device issued these numbers to different documents while offline. Edit one of each so every document keeps a unique number.</p>
+          <ul className="divide-y divide-border-color dark:divide-slate-700 border border-border-color dark:border-slate-700 rounded-lg max-h-40 overflow-y-auto">
+            {duplicateNumbers.map(number => (
+              <li key={number} className="p-3 text-sm font-semibold text-amber-700 dark:text-amber-300">{number}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-bold text-brand-dark dark:text-slate-200">Conflicts</h4>
+            <button type="button" onClick={handleClear} className="text-sm text-gold-dark font-semibold hover:underline">Clear</button>
+          </div>
+          <ul className="divide-y divide-border-color dark:divide-slate-700 border border-border-color dark:border-slate-700 rounded-lg max-h-60 overflow-y-auto">
+            {conflicts.map(conflict => (
+              <li key={conflict.id} className="p-3 text-sm">
+                <p className="font-semibold text-brand-dark dark:text-white">
+                  {conflict.label} <span className="font-normal text-gray-500">({conflict.collection})</span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(conflict.at).toLocaleString()} · kept the {conflict.winner === 'local' ? 'copy from this device' : 'copy from another device'}
+                  {' '}(this device: {conflict.local.deleted ? 'deleted' : 'edited'} {new Date(conflict.local.updatedAt).toLocaleString()}; other: {conflict.remote.deleted ? 'deleted' : 'edited'} {new Date(conflict.remote.updatedAt).toLocaleString()})
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncPanel;
@@ -20,7 +20,17 @@ export const DEFAULT_SETTINGS: Settings = {
   whiteCementPrice: 15000,
   sharpSandPrice: 50000,
   workmanshipRate: 1700,
-  wastageFactor: 1.10, // 10% wastage
+  wastageByPattern: {
+    'Straight': 5,
+    'Brick Bond': 8,
+    'Diagonal': 15,
+    'Herringbone': 20,
+  },
+  // Extra wastage for large-format tiles (breakage and off-cuts)
+  wastageBySize: [
+    { size: '60x120', percentage: 5 },
+    { size: '80x80', percentage: 3 },
+  ],
   
   // New: Size-based pricing defaults
   tilePricesBySize: [
@@ -31,6 +41,8 @@ export const DEFAULT_SETTINGS: Settings = {
     { size: '60x120', price: 12000 },
     { size: '25x40', price: 5600 },
   ],
+
+  useOfflineParser: false,
   
   // Coverage Defaults (m2 per carton)
   wallTileM2PerCarton: 1.5,
@@ -43,6 +55,7 @@ export const DEFAULT_SETTINGS: Settings = {
   toiletFloorTileM2PerCarton: 1.5,
   kitchenWallTileM2PerCarton: 1.5,
   kitchenFloorTileM2PerCarton: 1.5,
+  skirtingHeight: 0.1,
 
   // Default Tile Sizes (User Request)
   defaultToiletWallSize: '25x40',
@@ -73,6 +86,7 @@ export const DEFAULT_SETTINGS: Settings = {
   companyAddress: '7 Unity Street, Phase 2 Arigbanwo, Mowe',
   companyEmail: 'hanofihamod094@gmail.com',
   companyPhone: '08063131498',
+  defaultCountryCode: '234',
   documentTitle: 'QUOTATION',
   companyLogo: '',
   companySignature: '',
@@ -89,10 +103,40 @@ export const DEFAULT_SETTINGS: Settings = {
   
   // Invoicing
   invoicePrefix: 'INV',
+  invoiceNumberTemplate: '{prefix}-{yyyy}-{seq:0000}',
+  quotationPrefix: 'QUO',
+  quotationNumberTemplate: '{prefix}-{yyyy}-{seq:0000}',
+  receiptPrefix: 'RCT',
+  receiptNumberTemplate: '{prefix}-{yyyy}-{seq:0000}',
+  creditNotePrefix: 'CN',
+  creditNoteNumberTemplate: '{prefix}-{yyyy}-{seq:0000}',
+  resetNumberingYearly: true,
   defaultBankDetails: 'Bank Name: Your Bank\nAccount Name: Your Company Name\nAccount Number: 1234567890',
   defaultInvoiceNotes: 'Thank you for your business. Please make payments to the account details above.',
   paymentUrl: '',
   showQRCode: true,
+
+  lateFeeEnabled: false,
+  lateFeeType: 'percentage',
+  lateFeeAmount: 5,
+  lateFeePeriodDays: 30,
+  lateFeeMaxPeriods: 3,
+
+  reminderFirstDays: 1,
+  reminderSecondDays: 14,
+  reminderFinalDays: 30,
+
+  autoSnapshotEnabled: true,
+  snapshotIntervalHours: 24,
+  snapshotKeepCount: 7,
+  backupReminderDays: 14,
+
+  syncEnabled: false,
+  syncEndpoint: '',
+  syncToken: '',
+  syncIntervalMinutes: 5,
+
+  auditUserName: '',
 };
 
 
@@ -0,0 +1,68 @@
+// Minimal sync server for trying out device sync locally. Keeps everything in memory.
+//
+//   PORT=8787 SYNC_TOKEN=secret npm run sync-server
+//
+// POST /push  { deviceId, changes }  -> { results: [{ key, status: 'accepted' | 'rejected', current? }] }
+// POST /pull  { deviceId, since }    -> { changes, cursor }
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN = process.env.SYNC_TOKEN || '';
+
+// Latest change per record key, with the sequence number it was stored at
+const records = new Map();
+let sequence = 0;
+
+// Same order as the app: later update, then higher revision, then device id
+const isNewer = (a, b) =>
+    ((a.updatedAt || 0) - (b.updatedAt || 0) || (a.revision || 0) - (b.revision || 0) || String(a.updatedBy || '').localeCompare(String(b.updatedBy || ''))) > 0;
+
+const push = ({ changes = [] }) => ({
+    results: changes.map(change => {
+        const existing = records.get(change.key);
+        if (existing && !isNewer(change, existing.change)) {
+            return { key: change.key, status: 'rejected', current: existing.change };
+        }
+        records.set(change.key, { change, sequence: ++sequence });
+        return { key: change.key, status: 'accepted' };
+    }),
+});
+
+const pull = ({ since = 0 }) => {
+    const entries = [...records.values()].filter(entry => entry.sequence > since).sort((a, b) => a.sequence - b.sequence);
+    return { changes: entries.map(entry => entry.change), cursor: entries.length > 0 ? entries[entries.length - 1].sequence : since };
+};
+
+const routes = { '/push': push, '/pull': pull };
+
+const send = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const server = createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    const route = routes[new URL(req.url, 'http://localhost').pathname];
+    if (!route || req.method !== 'POST') return send(res, 404, { error: 'Not found' });
+    if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'Unauthorized' });
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+        try {
+            send(res, 200, route(JSON.parse(body || '{}')));
+        } catch (error) {
+            send(res, 400, { error: error.message });
+        }
+    });
+});
+
+server.listen(PORT, () => console.log(`Sync server listening on http://localhost:${PORT}${TOKEN ? ' (token required)' : ''}`));
@@ -0,0 +1,137 @@
+import { AuditDocumentType, AuditEntry, AuditFieldChange } from '../types';
+import { addAuditEntries, getAuditEntries } from './storageService';
+
+// Bookkeeping fields that change on every save and say nothing about the document itself
+const IGNORED_FIELDS = new Set(['updatedAt', 'revision', 'updatedBy']);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasIds = (items: unknown[]) => items.length > 0 && items.every(item => isPlainObject(item) && typeof item.id === 'string');
+
+const diffValues = (path: string, before: unknown, after: unknown, changes: AuditFieldChange[]) => {
+    if (before === after) return;
+    if (isPlainObject(before) && isPlainObject(after)) {
+        new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+            if (!path && IGNORED_FIELDS.has(key)) return;
+            diffValues(path ? `${path}.${key}` : key, before[key], after[key], changes);
+        });
+        return;
+    }
+    if (Array.isArray(before) && Array.isArray(after)) {
+        // Lines with ids are matched by id so a removed line does not show every later line as changed
+        if (hasIds(before) || hasIds(after)) {
+            const beforeById = new Map(before.map((item: any) => [item.id, item]));
+            const afterIds = new Set(after.map((item: any) => item.id));
+            before.forEach((item: any, index) => {
+                if (!afterIds.has(item.id)) diffValues(`${path}[${index}]`, item, undefined, changes);
+            });
+            after.forEach((item: any, index) => diffValues(`${path}[${index}]`, beforeById.get(item.id), item, changes));
+            return;
+        }
+        if (before.every(isPlainObject) && after.every(isPlainObject)) {
+            for (let index = 0; index < Math.max(before.length, after.length); index++) {
+                diffValues(`${path}[${index}]`, before[index], after[index], changes);
+            }
+            return;
+        }
+    }
+    if (JSON.stringify(before) === JSON.stringify(after)) return;
+    changes.push({
+        path,
+        ...(before !== undefined ? { from: before } : {}),
+        ...(after !== undefined ? { to: after } : {}),
+    });
+};
+
+/** Field-level differences between two versions of a document, e.g. `status` or `tiles[2].unitPrice`. */
+export const diffRecords = (before: object, after: object): AuditFieldChange[] => {
+    const changes: AuditFieldChange[] = [];
+    diffValues('', before, after, changes);
+    return changes;
+};
+
+const listeners = new Set<() => void>();
+
+/** Calls `listener` whenever entries are added; returns the unsubscribe function. */
+export const subscribeToAuditLog = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+const appendEntries = async (entries: AuditEntry[]) => {
+    if (entries.length === 0) return;
+    await addAuditEntries(entries);
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Appends an entry for each of `documentIds` that was created, changed or deleted between
+ * `previous` and `next`. Updates that only touch bookkeeping fields are not logged.
+ */
+export const recordAuditTrail = <T extends { id: string }>(documentType: AuditDocumentType, previous: T[], next: T[], documentIds: string[], user?: string): Promise<void> => {
+    const previousById = new Map(previous.map(record => [record.id, record]));
+    const nextById = new Map(next.map(record => [record.id, record]));
+    const at = Date.now();
+    const entries: AuditEntry[] = [];
+    documentIds.forEach(documentId => {
+        const before = previousById.get(documentId);
+        const after = nextById.get(documentId);
+        const action = !before ? 'created' : !after ? 'deleted' : 'updated';
+        const changes = before && after ? diffRecords(before, after) : [];
+        if (action === 'updated' && changes.length === 0) return;
+        entries.push({ id: crypto.randomUUID(), documentType, documentId, at, ...(user?.trim() ? { user: user.trim() } : {}), action, changes });
+    });
+    return appendEntries(entries);
+};
+
+/** One document's change log, newest first. */
+export const getDocumentHistory = async (documentId: string): Promise<AuditEntry[]> =>
+    (await getAuditEntries(documentId)).sort((a, b) => b.at - a.at);
+
+export const getAuditLog = () => getAuditEntries();
+
+const isAuditEntry = (value: unknown): value is AuditEntry =>
+    isPlainObject(value) && typeof value.id === 'string' && typeof value.documentId === 'string'
+    && typeof value.at === 'number' && Array.isArray(value.changes);
+
+/** Adds entries from a backup; ones already here are left as they are. */
+export const importAuditEntries = (entries: unknown[]) => appendEntries(entries.filter(isAuditEntry));
+
+const FIELD_LABELS: Record<string, string> = {
+    clientDetails: 'Client',
+    unitPrice: 'Unit price',
+    sqm: 'Area (m²)',
+    workmanshipRate: 'Workmanship rate',
+    profitPercentage: 'Profit %',
+    depositPercentage: 'Deposit %',
+    invoiceDate: 'Invoice date',
+    dueDate: 'Due date',
+    paymentDate: 'Payment date',
+};
+
+/** A readable version of a change path: `tiles[2].unitPrice` becomes "Tiles #3 › Unit price". */
+export const formatAuditPath = (path: string): string =>
+    path.split('.').map(part => {
+        const [, name, index] = part.match(/^([^[]+)(?:\[(\d+)\])?$/) || [, part];
+        const label = FIELD_LABELS[name as string] || (name as string).replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+        return index !== undefined ? `${label} #${Number(index) + 1}` : label;
+    }).join(' › ');
+
+/** A short display form of a changed value; dates are recognised by their field name. */
+export const formatAuditValue = (path: string, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'number' && /(date|At)$/i.test(path.split('.').pop() || '') && value > 1e11) {
+        return new Date(value).toLocaleDateString();
+    }
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'object') {
+        const record = value as Record<string, any>;
+        const name = record.name || record.description || record.label || record.clientName;
+        if (typeof name === 'string') return name;
+        const text = JSON.stringify(value);
+        return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+    }
+    const text = String(value);
+    return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+};
@@ -0,0 +1,306 @@
+import { AuditEntry, Client, Expense, InvoiceData, QuotationData, Settings } from '../types';
+import { CURRENT_SCHEMA_VERSION, DataSet, MigrationReport, migrateData } from './schemaService';
+import { NumberSequences } from './numberingService';
+
+export type RestorableCollection = 'quotations' | 'invoices' | 'clients' | 'expenses';
+
+export const RESTORABLE_COLLECTIONS: RestorableCollection[] = ['quotations', 'invoices', 'clients', 'expenses'];
+
+// What to do with one collection: keep what is here, take the backup's copy, or combine them by id
+export type RestoreMode = 'skip' | 'replace' | 'merge';
+
+export interface BackupFile {
+    version: number; // Schema version, see CURRENT_SCHEMA_VERSION
+    date: string; // ISO timestamp the backup was made
+    quotations: QuotationData[];
+    invoices: InvoiceData[];
+    clients: Client[];
+    expenses: Expense[];
+    settings: Settings;
+    numberSequences: NumberSequences;
+    auditLog?: AuditEntry[]; // Absent in backups made before the audit trail
+}
+
+export const createBackup = (data: DataSet, numberSequences: NumberSequences, auditLog: AuditEntry[] = []): BackupFile => ({
+    version: CURRENT_SCHEMA_VERSION,
+    date: new Date().toISOString(),
+    quotations: data.quotations,
+    invoices: data.invoices,
+    clients: data.clients,
+    expenses: data.expenses,
+    settings: data.settings,
+    numberSequences,
+    auditLog,
+});
+
+export const downloadBackup = (backup: BackupFile | EncryptedBackupFile, fileName: string) => {
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+type AnyRecord = QuotationData | InvoiceData | Client | Expense;
+
+// Latest moment a record is known to have changed; records carry no edit time, so use their newest dated activity
+const getRecordTimestamp = (collection: RestorableCollection, record: any): number => {
+    if (typeof record.updatedAt === 'number') return record.updatedAt;
+    switch (collection) {
+        case 'quotations':
+            return record.date || 0;
+        case 'invoices':
+            return Math.max(
+                record.invoiceDate || 0,
+                record.paymentDate || 0,
+                ...(record.payments || []).map((p: any) => p.date || 0),
+                ...(record.creditNotes || []).map((c: any) => c.date || 0),
+                ...(record.lateFees || []).map((f: any) => f.date || 0),
+                ...(record.reminders || []).map((r: any) => r.sentAt || 0)
+            );
+        case 'clients':
+            return Math.max(0, ...(record.interactions || []).map((i: any) => i.date || 0));
+        case 'expenses':
+            return record.date || 0;
+    }
+};
+
+const getRecordLabel = (collection: RestorableCollection, record: any): string => {
+    switch (collection) {
+        case 'quotations': return [record.quotationNumber, record.clientDetails?.clientName].filter(Boolean).join(' · ') || 'Quotation';
+        case 'invoices': return [record.invoiceNumber, record.clientDetails?.clientName].filter(Boolean).join(' · ') || 'Invoice';
+        case 'clients': return record.name || 'Client';
+        case 'expenses': return record.description || 'Expense';
+    }
+};
+
+export interface RestoreConflict {
+    id: string;
+    label: string;
+    backupIsNewer: boolean; // Whether a merge takes the backup's copy
+}
+
+export interface CollectionPreview {
+    inBackup: number;
+    current: number;
+    added: number; // In the backup only
+    unchanged: number; // Identical in both
+    conflicts: RestoreConflict[]; // Same id, different content
+}
+
+export interface RestorePreview {
+    backupDate?: string;
+    version: number;
+    data: DataSet; // The backup, migrated to the current schema
+    report: MigrationReport;
+    collections: Record<RestorableCollection, CollectionPreview | null>; // null when the backup does not include it
+    hasSettings: boolean;
+    numberSequences: NumberSequences | null;
+    auditLog: unknown[]; // Change log entries, appended on restore whatever the collection modes
+}
+
+const previewCollection = (collection: RestorableCollection, incoming: AnyRecord[], existing: AnyRecord[]): CollectionPreview => {
+    const existingById = new Map(existing.map(record => [record.id, record]));
+    const preview: CollectionPreview = { inBackup: incoming.length, current: existing.length, added: 0, unchanged: 0, conflicts: [] };
+    incoming.forEach(record => {
+        const current = existingById.get(record.id);
+        if (!current) {
+            preview.added++;
+        } else if (JSON.stringify(current) === JSON.stringify(record)) {
+            preview.unchanged++;
+        } else {
+            preview.conflicts.push({
+                id: record.id,
+                label: getRecordLabel(collection, record),
+                backupIsNewer: getRecordTimestamp(collection, record) > getRecordTimestamp(collection, current),
+            });
+        }
+    });
+    return preview;
+};
+
+/**
+ * Validates and migrates a parsed backup file and compares it with the current data, without changing
+ * anything. Throws if the file is not a backup or was made by a newer version of the app.
+ */
+export const previewRestore = (raw: unknown, current: DataSet): RestorePreview => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) throw new Error('Invalid file format');
+    const file = raw as Record<string, any>;
+    // Backups made before versioning carry `version: 1` or nothing at all
+    const version = Number(file.version) || 1;
+    const { data, report } = migrateData(file, version);
+
+    const collections = {} as Record<RestorableCollection, CollectionPreview | null>;
+    RESTORABLE_COLLECTIONS.forEach(collection => {
+        collections[collection] = Array.isArray(file[collection])
+            ? previewCollection(collection, data[collection], current[collection])
+            : null;
+    });
+
+    return {
+        backupDate: typeof file.date === 'string' ? file.date : undefined,
+        version,
+        data,
+        report,
+        collections,
+        hasSettings: typeof file.settings === 'object' && file.settings !== null,
+        numberSequences: typeof file.numberSequences === 'object' && file.numberSequences !== null ? file.numberSequences : null,
+        auditLog: Array.isArray(file.auditLog) ? file.auditLog : [],
+    };
+};
+
+/** Combines two copies of a collection by id. On a clash the newer record wins; a tie keeps the current one. */
+export const mergeCollection = <T extends AnyRecord>(collection: RestorableCollection, existing: T[], incoming: T[]): T[] => {
+    const incomingById = new Map(incoming.map(record => [record.id, record]));
+    const merged = existing.map(record => {
+        const other = incomingById.get(record.id);
+        return other && getRecordTimestamp(collection, other) > getRecordTimestamp(collection, record) ? other : record;
+    });
+    const existingIds = new Set(existing.map(record => record.id));
+    return [...merged, ...incoming.filter(record => !existingIds.has(record.id))];
+};
+
+/** The collections after restoring with the chosen mode for each; settings are replaced only when asked. */
+export const applyRestore = (current: DataSet, preview: RestorePreview, modes: Record<RestorableCollection, RestoreMode>, restoreSettings: boolean): DataSet => {
+    const pick = <T extends AnyRecord>(collection: RestorableCollection, existing: T[], incoming: T[]): T[] => {
+        if (!preview.collections[collection]) return existing;
+        switch (modes[collection]) {
+            case 'replace': return incoming;
+            case 'merge': return mergeCollection(collection, existing, incoming);
+            default: return existing;
+        }
+    };
+    return {
+        quotations: pick('quotations', current.quotations, preview.data.quotations),
+        invoices: pick('invoices', current.invoices, preview.data.invoices),
+        clients: pick('clients', current.clients, preview.data.clients),
+        expenses: pick('expenses', current.expenses, preview.data.expenses),
+        settings: restoreSettings && preview.hasSettings ? preview.data.settings : current.settings,
+    };
+};
+
+// Encrypted backups: a JSON header naming the format and cipher, followed by the AES-GCM ciphertext of the backup
+
+const ENCRYPTED_BACKUP_FORMAT = 'hanifgold-encrypted-backup';
+const ENCRYPTED_BACKUP_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+// Accepted when reading a backup; outside this a header is damaged or crafted to stall the browser
+const MIN_PBKDF2_ITERATIONS = 100_000;
+const MAX_PBKDF2_ITERATIONS = 5_000_000;
+
+export interface EncryptedBackupFile {
+    format: typeof ENCRYPTED_BACKUP_FORMAT;
+    formatVersion: number;
+    cipher: 'AES-GCM';
+    keyLength: 256;
+    kdf: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string; // base64
+    iv: string; // base64
+    verifier: string; // base64 SHA-256 of extra PBKDF2 output, to tell a wrong passphrase from a damaged file
+    ciphertext: string; // base64, the backup JSON; the header fields above are authenticated with it
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    // In chunks, as spreading a large array into fromCharCode overflows the call stack
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+// One PBKDF2 run gives both the AES key and an independent verifier
+const deriveKeys = async (passphrase: string, salt: BufferSource, iterations: number) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+    const bits = new Uint8Array(await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 512));
+    const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+    const verifier = toBase64(new Uint8Array(await crypto.subtle.digest('SHA-256', bits.slice(32))));
+    return { key, verifier };
+};
+
+// The header as authenticated data, so changing any of it makes decryption fail
+const headerBytes = (file: Omit<EncryptedBackupFile, 'ciphertext'>) =>
+    new TextEncoder().encode(JSON.stringify([file.format, file.formatVersion, file.cipher, file.keyLength, file.kdf, file.hash, file.iterations, file.salt, file.iv, file.verifier]));
+
+export const isEncryptedBackup = (raw: unknown): raw is EncryptedBackupFile =>
+    typeof raw === 'object' && raw !== null && (raw as any).format === ENCRYPTED_BACKUP_FORMAT;
+
+export const encryptBackup = async (backup: BackupFile, passphrase: string): Promise<EncryptedBackupFile> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const { key, verifier } = await deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+    const header: Omit<EncryptedBackupFile, 'ciphertext'> = {
+        format: ENCRYPTED_BACKUP_FORMAT,
+        formatVersion: ENCRYPTED_BACKUP_VERSION,
+        cipher: 'AES-GCM',
+        keyLength: 256,
+        kdf: 'PBKDF2',
+        hash: 'SHA-256',
+        iterations: PBKDF2_ITERATIONS,
+        salt: toBase64(salt),
+        iv: toBase64(iv),
+        verifier,
+    };
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: headerBytes(header) },
+        key,
+        new TextEncoder().encode(JSON.stringify(backup))
+    );
+    return { ...header, ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+/**
+ * Decrypts an encrypted backup back to the parsed backup JSON. Throws with a message fit for the user
+ * when the format is not supported, the header is damaged, the passphrase is wrong, or the content has been altered or damaged.
+ */
+export const decryptBackup = async (file: EncryptedBackupFile, passphrase: string): Promise<unknown> => {
+    if (file.formatVersion > ENCRYPTED_BACKUP_VERSION) {
+        throw new Error('This encrypted backup was made by a newer version of the app. Please update the app first.');
+    }
+    if (file.cipher !== 'AES-GCM' || file.kdf !== 'PBKDF2' || file.hash !== 'SHA-256' || file.keyLength !== 256) {
+        throw new Error(`This backup uses an unsupported cipher (${file.cipher}/${file.kdf}).`);
+    }
+
+    let salt: ReturnType<typeof fromBase64>, iv: ReturnType<typeof fromBase64>, ciphertext: ReturnType<typeof fromBase64>;
+    try {
+        salt = fromBase64(file.salt);
+        iv = fromBase64(file.iv);
+        ciphertext = fromBase64(file.ciphertext);
+    } catch {
+        throw new Error('The backup file is damaged and cannot be decrypted.');
+    }
+    // Checked before deriving keys, so a bad header is never reported as a wrong passphrase
+    if (!Number.isInteger(file.iterations) || file.iterations < MIN_PBKDF2_ITERATIONS || file.iterations > MAX_PBKDF2_ITERATIONS) {
+        throw new Error(`The backup header is damaged or unsupported (${file.iterations} key rounds, expected ${MIN_PBKDF2_ITERATIONS.toLocaleString()}–${MAX_PBKDF2_ITERATIONS.toLocaleString()}).`);
+    }
+    if (salt.length < 16 || iv.length !== 12 || typeof file.verifier !== 'string' || !file.verifier) {
+        throw new Error('The backup header is damaged or unsupported (salt, IV or passphrase check missing).');
+    }
+
+    const { key, verifier } = await deriveKeys(passphrase, salt, file.iterations);
+    if (verifier !== file.verifier) {
+        throw new Error('Wrong passphrase. Please check it and try again.');
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: headerBytes(file) }, key, ciphertext);
+    } catch {
+        // The passphrase checked out, so the content or header no longer matches what was encrypted
+        throw new Error('The backup file has been altered or damaged and cannot be trusted.');
+    }
+    return JSON.parse(new TextDecoder().decode(plaintext));
+};
@@ -0,0 +1,122 @@
+import { ChecklistItem, InvoiceData, InvoiceStage, QuotationData, Settings } from '../types';
+import { calculateTotals } from './calculationService';
+import { getAmountPaid, getCreditedAmount } from './paymentService';
+
+export type BillingMode = 'full' | 'deposit' | 'balance';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// What an invoice bills towards the contract; late fees come on top and do not use up the quotation
+const getBilledAmount = (invoice: InvoiceData, settings: Settings) => {
+    const { grandTotal, lateFeeTotal } = calculateTotals(invoice, settings);
+    return grandTotal - lateFeeTotal;
+};
+
+export interface QuotationBilling {
+    contractTotal: number;
+    invoiced: number; // Net of credit notes
+    remaining: number;
+    invoices: InvoiceData[]; // Active (not cancelled) invoices raised from the quotation
+}
+
+/** How much of a quotation has been invoiced so far, across all of its stage invoices. */
+export const getQuotationBilling = (quotation: QuotationData, invoices: InvoiceData[], settings: Settings): QuotationBilling => {
+    const contractTotal = calculateTotals(quotation, settings).grandTotal;
+    const linked = invoices.filter(i => i.quotationId === quotation.id && i.status !== 'Cancelled');
+    const invoiced = round2(linked.reduce((sum, i) => sum + getBilledAmount(i, settings) - getCreditedAmount(i), 0));
+    return { contractTotal, invoiced, remaining: Math.max(0, round2(contractTotal - invoiced)), invoices: linked };
+};
+
+/** The deposit stage of a quotation, or null when it asks for no deposit. */
+export const createDepositStage = (quotation: QuotationData, settings: Settings): InvoiceStage | null => {
+    const { depositAmount } = calculateTotals(quotation, settings);
+    if (!quotation.depositPercentage || depositAmount <= 0) return null;
+    return { type: 'deposit', label: `Deposit (${quotation.depositPercentage}%)`, amount: round2(depositAmount), previouslyInvoiced: 0 };
+};
+
+/** The final stage: whatever of the contract has not been invoiced yet. */
+export const createBalanceStage = (quotation: QuotationData, invoices: InvoiceData[], settings: Settings): InvoiceStage | null => {
+    const { invoiced, remaining } = getQuotationBilling(quotation, invoices, settings);
+    if (remaining <= 0) return null;
+    return { type: 'balance', label: 'Final Balance', amount: remaining, previouslyInvoiced: invoiced };
+};
+
+/** An interim stage for a checklist milestone, capped at what is left to invoice. */
+export const createMilestoneStage = (quotation: QuotationData, item: ChecklistItem, invoices: InvoiceData[], settings: Settings): InvoiceStage | null => {
+    const percentage = Number(item.billingPercentage) || 0;
+    if (percentage <= 0) return null;
+    const { contractTotal, invoiced, remaining } = getQuotationBilling(quotation, invoices, settings);
+    const amount = Math.min(round2(contractTotal * percentage / 100), remaining);
+    if (amount <= 0) return null;
+    return { type: 'interim', label: `${item.item} (${percentage}%)`, amount, previouslyInvoiced: invoiced };
+};
+
+export interface BillingScheduleRow {
+    label: string;
+    invoiceNumber?: string;
+    planned: number;
+    billed: number; // Net of credit notes
+    paid: number;
+    remaining: number; // Planned but not yet paid
+}
+
+/**
+ * Billing schedule of a quotation: one row per checklist milestone (billed or not), followed by
+ * any other invoices raised from it such as a deposit or final balance.
+ */
+export const getBillingSchedule = (quotation: QuotationData, invoices: InvoiceData[], settings: Settings): BillingScheduleRow[] => {
+    const { contractTotal, invoices: active } = getQuotationBilling(quotation, invoices, settings);
+    const toRow = (label: string, planned: number, invoice?: InvoiceData): BillingScheduleRow => {
+        const billed = invoice ? round2(getBilledAmount(invoice, settings) - getCreditedAmount(invoice)) : 0;
+        const paid = invoice ? getAmountPaid(invoice, settings) : 0;
+        return { label, invoiceNumber: invoice?.invoiceNumber, planned, billed, paid, remaining: Math.max(0, round2(planned - paid)) };
+    };
+
+    const milestoneRows = (quotation.checklist || [])
+        .filter(item => (Number(item.billingPercentage) || 0) > 0)
+        .map(item => {
+            const invoice = active.find(i => i.id === item.invoiceId);
+            const planned = round2(contractTotal * (Number(item.billingPercentage) || 0) / 100);
+            return toRow(`${item.item} (${item.billingPercentage}%)`, invoice ? round2(getBilledAmount(invoice, settings)) : planned, invoice);
+        });
+    const milestoneInvoiceIds = new Set((quotation.checklist || []).map(item => item.invoiceId).filter(Boolean));
+    const otherRows = active
+        .filter(invoice => !milestoneInvoiceIds.has(invoice.id))
+        .map(invoice => toRow(invoice.stage?.label || 'Full Invoice', round2(getBilledAmount(invoice, settings)), invoice));
+
+    return [...milestoneRows, ...otherRows];
+};
+
+/**
+ * Builds an invoice from a quotation, copying its pricing components and resolving the flags it
+ * left to the settings defaults so the invoice total matches what the client accepted.
+ * Pass a stage to bill only part of the quotation.
+ */
+export const buildInvoiceFromQuotation = (quote: QuotationData, settings: Settings, invoiceNumber: string, stage?: InvoiceStage): InvoiceData => ({
+    id: crypto.randomUUID(),
+    quotationId: quote.id,
+    invoiceNumber,
+    invoiceDate: Date.now(),
+    dueDate: Date.now() + (7 * 24 * 60 * 60 * 1000), // +7 days default
+    status: 'Unpaid',
+    clientDetails: quote.clientDetails,
+    tiles: quote.tiles,
+    materials: quote.materials,
+    workmanshipRate: quote.workmanshipRate,
+    maintenance: quote.maintenance,
+    profitPercentage: quote.profitPercentage,
+    paymentTerms: 'Due on Receipt',
+    bankDetails: settings.defaultBankDetails,
+    invoiceNotes: settings.defaultInvoiceNotes,
+    showMaterials: quote.showMaterials,
+    showAdjustments: quote.showAdjustments,
+    adjustments: quote.adjustments || [],
+    // A stage invoice already bills its own share, so the deposit request is not repeated on it
+    depositPercentage: stage ? null : quote.depositPercentage,
+    showTax: quote.showTax ?? settings.showTax,
+    showWorkmanship: quote.showWorkmanship ?? true,
+    showMaintenance: quote.showMaintenance ?? settings.showMaintenance,
+    checklist: quote.checklist,
+    showChecklist: quote.showChecklist,
+    stage,
+});
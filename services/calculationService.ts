@@ -1,5 +1,6 @@
 
 import { QuotationData, InvoiceData, Settings } from '../types';
+import { getWastageCartons } from './pricingRules';
 
 /**
  * A centralized function to calculate all financial totals for a quotation or invoice.
@@ -27,6 +28,10 @@ export const calculateTotals = (data: QuotationData | InvoiceData, settings: Set
 
     const totalSqm = safeTiles.reduce((acc, tile) => acc + (Number(tile.sqm) || 0), 0);
     const totalTileCost = safeTiles.reduce((acc, tile) => acc + ((Number(tile.cartons) || 0) * (Number(tile.unitPrice) || 0)), 0);
+
+    // Pattern/size wastage is priced as extra cartons, kept separate from the net tile cost
+    const totalWastageCartons = safeTiles.reduce((acc, tile) => acc + getWastageCartons(tile), 0);
+    const wastageCost = safeTiles.reduce((acc, tile) => acc + getWastageCartons(tile) * (Number(tile.unitPrice) || 0), 0);
     
     // Calculate material cost only if the section is shown
     const totalMaterialCost = showMaterials 
@@ -37,7 +42,7 @@ export const calculateTotals = (data: QuotationData | InvoiceData, settings: Set
     const workmanshipCost = showWorkmanship ? (totalSqm * (Number(workmanshipRate) || 0)) : 0;
     const workmanshipAndMaintenance = workmanshipCost + (showMaintenance ? (Number(maintenance) || 0) : 0);
     
-    const preProfitTotal = totalTileCost + totalMaterialCost + workmanshipAndMaintenance;
+    const preProfitTotal = totalTileCost + wastageCost + totalMaterialCost + workmanshipAndMaintenance;
     const profitAmount = profitPercentage ? preProfitTotal * ((Number(profitPercentage) || 0) / 100) : 0;
     
     const subtotal = preProfitTotal + profitAmount;
@@ -50,16 +55,25 @@ export const calculateTotals = (data: QuotationData | InvoiceData, settings: Set
 
     const postAdjustmentSubtotal = subtotal + totalAdjustments;
     const taxAmount = showTax ? postAdjustmentSubtotal * ((Number(taxPercentage) || 0) / 100) : 0;
-    const grandTotal = postAdjustmentSubtotal + taxAmount;
+    const contractTotal = postAdjustmentSubtotal + taxAmount;
+    // A stage invoice (deposit, interim, balance) bills a fixed part of the contract total
+    const billedAmount = 'stage' in data && data.stage ? (Number(data.stage.amount) || 0) : contractTotal;
+    // Late fees are charged on top of what was billed, after tax
+    const lateFeeTotal = 'lateFees' in data && Array.isArray(data.lateFees)
+        ? data.lateFees.reduce((acc, fee) => acc + (fee.waived ? 0 : (Number(fee.amount) || 0)), 0)
+        : 0;
+    const grandTotal = billedAmount + lateFeeTotal;
     
     let depositAmount = 0;
     if ('depositPercentage' in data && data.depositPercentage) {
-        depositAmount = grandTotal * ((Number(data.depositPercentage) || 0) / 100);
+        depositAmount = contractTotal * ((Number(data.depositPercentage) || 0) / 100);
     }
 
     return {
         totalSqm,
         totalTileCost,
+        totalWastageCartons,
+        wastageCost,
         totalMaterialCost,
         workmanshipCost,
         workmanshipAndMaintenance,
@@ -67,7 +81,19 @@ export const calculateTotals = (data: QuotationData | InvoiceData, settings: Set
         subtotal,
         totalAdjustments,
         taxAmount,
+        contractTotal,
+        lateFeeTotal,
         grandTotal,
         depositAmount
     };
 };
+
+/**
+ * How far an invoice's contract total has drifted from its source quotation (invoice minus quote).
+ * Stage invoices are compared on the full contract, not the part they bill.
+ * Rounded to the kobo so that floating point noise does not count as a difference.
+ */
+export const getInvoiceQuoteDifference = (invoice: InvoiceData, quotation: QuotationData, settings: Settings): number => {
+    const difference = calculateTotals(invoice, settings).contractTotal - calculateTotals(quotation, settings).grandTotal;
+    return Math.round(difference * 100) / 100;
+};
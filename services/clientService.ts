@@ -0,0 +1,231 @@
+import { Client, ClientInteractionType, Expense, InvoiceData, QuotationData, Settings } from '../types';
+import { calculateTotals } from './calculationService';
+import { getInvoiceBalance, getInvoicePayments } from './paymentService';
+
+export const INTERACTION_TYPES: ClientInteractionType[] = ['Site Visit', 'Call', 'Follow-up', 'Meeting', 'Note'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface ClientSummary {
+    quotations: QuotationData[];
+    invoices: InvoiceData[];
+    expenses: Expense[]; // Expenses booked against the client's quotations
+    totalQuoted: number;
+    lifetimeValue: number; // Cash received from the client, less refunds
+    acceptanceRate: number; // % of quotations accepted or invoiced
+    outstandingBalance: number;
+    totalExpenses: number;
+}
+
+/** Everything linked to a client through `ClientDetails.clientId`, and the figures worked out from it. */
+export const getClientSummary = (client: Client, quotations: QuotationData[], invoices: InvoiceData[], expenses: Expense[], settings: Settings): ClientSummary => {
+    const clientQuotations = quotations.filter(q => q.clientDetails.clientId === client.id);
+    const quotationIds = new Set(clientQuotations.map(q => q.id));
+    const clientInvoices = invoices.filter(i => i.clientDetails.clientId === client.id || quotationIds.has(i.quotationId));
+    const clientExpenses = expenses.filter(e => e.quotationId && quotationIds.has(e.quotationId));
+
+    const received = clientInvoices.reduce((sum, i) => sum + getInvoicePayments(i, settings).reduce((s, p) => s + (Number(p.amount) || 0), 0), 0);
+    const refunded = clientInvoices.reduce((sum, i) => sum + (i.creditNotes || []).reduce((s, c) => s + (Number(c.refundAmount) || 0), 0), 0);
+    const acceptedCount = clientQuotations.filter(q => q.status === 'Accepted' || q.status === 'Invoiced').length;
+
+    return {
+        quotations: clientQuotations,
+        invoices: clientInvoices,
+        expenses: clientExpenses,
+        totalQuoted: round2(clientQuotations.reduce((sum, q) => sum + calculateTotals(q, settings).grandTotal, 0)),
+        lifetimeValue: round2(received - refunded),
+        acceptanceRate: clientQuotations.length > 0 ? (acceptedCount / clientQuotations.length) * 100 : 0,
+        outstandingBalance: round2(clientInvoices
+            .filter(i => i.status !== 'Cancelled')
+            .reduce((sum, i) => sum + getInvoiceBalance(i, settings), 0)),
+        totalExpenses: round2(clientExpenses.reduce((sum, e) => sum + (Number(e.amount) || 0), 0)),
+    };
+};
+
+export type TimelineEventKind = 'quotation' | 'invoice' | 'payment' | 'creditNote' | 'expense' | 'interaction';
+
+export interface TimelineEvent {
+    id: string;
+    date: number; // timestamp
+    kind: TimelineEventKind;
+    title: string;
+    detail: string;
+    amount?: number;
+}
+
+/** The client's quotations, invoices, payments, credits, project expenses and logged interactions, newest first. */
+export const getClientTimeline = (client: Client, summary: ClientSummary, settings: Settings): TimelineEvent[] => {
+    const events: TimelineEvent[] = [];
+
+    summary.quotations.forEach(q => events.push({
+        id: `quotation-${q.id}`,
+        date: q.date,
+        kind: 'quotation',
+        title: `Quotation ${q.quotationNumber || ''}`.trim(),
+        detail: `${q.clientDetails.projectName || 'Untitled project'} · ${q.status}`,
+        amount: calculateTotals(q, settings).grandTotal,
+    }));
+
+    summary.invoices.forEach(invoice => {
+        events.push({
+            id: `invoice-${invoice.id}`,
+            date: invoice.invoiceDate,
+            kind: 'invoice',
+            title: `Invoice ${invoice.invoiceNumber}`,
+            detail: invoice.stage ? `${invoice.stage.label} · ${invoice.status}` : invoice.status,
+            amount: calculateTotals(invoice, settings).grandTotal,
+        });
+        getInvoicePayments(invoice, settings).forEach(payment => events.push({
+            id: `payment-${payment.id}`,
+            date: payment.date,
+            kind: 'payment',
+            title: `Payment received${payment.receiptNumber ? ` · ${payment.receiptNumber}` : ''}`,
+            detail: `${payment.method} for ${invoice.invoiceNumber}`,
+            amount: payment.amount,
+        }));
+        (invoice.creditNotes || []).forEach(creditNote => events.push({
+            id: `credit-${creditNote.id}`,
+            date: creditNote.date,
+            kind: 'creditNote',
+            title: `Credit note${creditNote.creditNoteNumber ? ` · ${creditNote.creditNoteNumber}` : ''}`,
+            detail: creditNote.reason,
+            amount: creditNote.amount,
+        }));
+    });
+
+    summary.expenses.forEach(expense => events.push({
+        id: `expense-${expense.id}`,
+        date: expense.date,
+        kind: 'expense',
+        title: `Expense · ${expense.category}`,
+        detail: expense.description,
+        amount: expense.amount,
+    }));
+
+    (client.interactions || []).forEach(interaction => events.push({
+        id: `interaction-${interaction.id}`,
+        date: interaction.date,
+        kind: 'interaction',
+        title: interaction.type,
+        detail: interaction.note,
+    }));
+
+    return events.sort((a, b) => b.date - a.date);
+};
+
+// Honorifics dropped before comparing names, so "Mr Ade" and "Ade" are the same person
+const NAME_TITLES = new Set(['mr', 'mrs', 'miss', 'ms', 'dr', 'prof', 'chief', 'engr', 'eng', 'alhaji', 'alh', 'hajia', 'barr', 'pastor', 'rev', 'sir', 'madam', 'mister']);
+
+const nameTokens = (name: string): string[] =>
+    (name || '')
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(token => token && !NAME_TITLES.has(token));
+
+const levenshtein = (a: string, b: string): number => {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let previous = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+            previous = current;
+        }
+    }
+    return row[b.length];
+};
+
+const tokensMatch = (a: string, b: string): boolean => {
+    if (a === b) return true;
+    // An initial matches the name it abbreviates: "O" ~ "Olawale"
+    if (a.length === 1 || b.length === 1) return a[0] === b[0];
+    const longest = Math.max(a.length, b.length);
+    return longest >= 4 && 1 - levenshtein(a, b) / longest >= 0.75;
+};
+
+/**
+ * How alike two client names are, from 0 to 1. Every word of the shorter name must find a match
+ * in the longer one (same word, an initial, or a near spelling), so "Mr Ade" ~ "Ade O." scores 1.
+ */
+export const getNameSimilarity = (a: string, b: string): number => {
+    const tokensA = nameTokens(a);
+    const tokensB = nameTokens(b);
+    if (tokensA.length === 0 || tokensB.length === 0) return 0;
+    const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+
+    const remaining = [...longer];
+    let matched = 0;
+    shorter.forEach(token => {
+        const index = remaining.findIndex(other => tokensMatch(token, other));
+        if (index >= 0) {
+            matched++;
+            remaining.splice(index, 1);
+        }
+    });
+    // A lone initial is too weak to identify anyone
+    if (shorter.every(token => token.length === 1)) return 0;
+    return matched / shorter.length;
+};
+
+// Last 10 digits, so "0803..." and "+234 803..." compare equal whatever the country code
+const phoneKey = (phone: string): string => {
+    const digits = (phone || '').replace(/\D/g, '');
+    return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+export interface ClientMatch {
+    client: Client;
+    score: number; // 0 to 1
+    reasons: ('name' | 'phone')[];
+}
+
+const NAME_MATCH_THRESHOLD = 0.8;
+
+/** Existing clients that look like the same person as `candidate`, best match first. */
+export const findClientMatches = (candidate: { name: string; phone?: string }, clients: Client[], excludeId?: string): ClientMatch[] => {
+    const candidatePhone = phoneKey(candidate.phone || '');
+    return clients
+        .filter(client => client.id !== excludeId)
+        .map(client => {
+            const reasons: ClientMatch['reasons'] = [];
+            const nameScore = getNameSimilarity(candidate.name, client.name);
+            if (nameScore >= NAME_MATCH_THRESHOLD) reasons.push('name');
+            const samePhone = !!candidatePhone && candidatePhone === phoneKey(client.phone);
+            if (samePhone) reasons.push('phone');
+            return { client, score: samePhone ? Math.max(0.9, nameScore) : nameScore, reasons };
+        })
+        .filter(match => match.reasons.length > 0)
+        .sort((a, b) => b.score - a.score);
+};
+
+/** Pairs of saved clients that are probably duplicates of each other. */
+export const findDuplicateClients = (clients: Client[]): { a: Client; b: Client; match: ClientMatch }[] => {
+    const pairs: { a: Client; b: Client; match: ClientMatch }[] = [];
+    clients.forEach((client, index) => {
+        findClientMatches(client, clients.slice(index + 1)).forEach(match => pairs.push({ a: client, b: match.client, match }));
+    });
+    return pairs.sort((x, y) => y.match.score - x.match.score);
+};
+
+/**
+ * Folds `duplicate` into `survivor`: the survivor keeps its own details, fills any blanks from the
+ * duplicate and takes over its interaction log, and every quotation and invoice is relinked to it.
+ */
+export const mergeClients = (survivor: Client, duplicate: Client, quotations: QuotationData[], invoices: InvoiceData[]) => {
+    const client: Client = {
+        ...survivor,
+        address: survivor.address || duplicate.address,
+        phone: survivor.phone || duplicate.phone,
+        interactions: [...(survivor.interactions || []), ...(duplicate.interactions || [])].sort((a, b) => a.date - b.date),
+    };
+    const relink = <T extends QuotationData | InvoiceData>(doc: T): T =>
+        doc.clientDetails.clientId === duplicate.id ? { ...doc, clientDetails: { ...doc.clientDetails, clientId: survivor.id } } : doc;
+
+    return {
+        client,
+        quotations: quotations.map(relink),
+        invoices: invoices.map(relink),
+    };
+};
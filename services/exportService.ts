@@ -1,6 +1,9 @@
 
-import { QuotationData, InvoiceData, Settings, Tile } from '../types';
+import { QuotationData, InvoiceData, Payment, CreditNote, Settings, Tile } from '../types';
 import { calculateTotals } from './calculationService';
+import { getWastageCartons } from './pricingRules';
+import { ClientStatement, formatStatementPeriod } from './statementService';
+import { formatQuotationReference } from './revisionService';
 
 const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('en-NG', {
@@ -226,10 +229,26 @@ const createPdfDocument = (data: QuotationData | any, settings: Settings): Promi
         let metaY = headerTopY + 8 + titleHeight - 2; // Start meta below title
         doc.text(`Date: ${new Date(data.date).toLocaleDateString()}`, rightColX, metaY, { align: 'right' });
         
+        if (data.receiptNumber) {
+            metaY += 5;
+            doc.text(`Receipt #: ${data.receiptNumber}`, rightColX, metaY, { align: 'right' });
+        }
+        if (data.creditNoteNumber) {
+            metaY += 5;
+            doc.text(`Credit Note #: ${data.creditNoteNumber}`, rightColX, metaY, { align: 'right' });
+        }
         if (data.invoiceNumber) {
             metaY += 5;
             doc.text(`Invoice #: ${data.invoiceNumber}`, rightColX, metaY, { align: 'right' });
         }
+        if (data.statement) {
+            metaY += 5;
+            doc.text(`Period: ${formatStatementPeriod(data.statement)}`, rightColX, metaY, { align: 'right' });
+        }
+        if (data.quotationNumber && !data.invoiceNumber) {
+            metaY += 5;
+            doc.text(`Quote #: ${formatQuotationReference(data)}`, rightColX, metaY, { align: 'right' });
+        }
         if (data.dueDate) {
              metaY += 5;
             doc.text(`Due Date: ${new Date(data.dueDate).toLocaleDateString()}`, rightColX, metaY, { align: 'right' });
@@ -267,13 +286,124 @@ const createPdfDocument = (data: QuotationData | any, settings: Settings): Promi
         lastY += titleHeight + 15;
     }
 
+    const drawSignature = () => {
+      if (!settings.companySignature) return;
+      const signatureHeight = 25;
+      // Check for page break
+      if (lastY + signatureHeight + 30 > doc.internal.pageSize.getHeight() - 20) {
+          doc.addPage();
+          lastY = drawCompanyHeader(doc, settings) + 20;
+      } else {
+          lastY += 10;
+      }
+      
+      const sigY = lastY;
+      const sigX = pageWidth - PAGE_MARGIN - 50; // Right aligned
+      
+      doc.addImage(settings.companySignature, 'PNG', sigX, sigY, 50, 25);
+      
+      doc.setDrawColor(150, 150, 150); // Gray line
+      doc.setLineWidth(0.1);
+      doc.line(sigX, sigY + 28, sigX + 50, sigY + 28);
+      
+      doc.setFontSize(8);
+      doc.setTextColor('#6B7280');
+      doc.text("Authorized Signature", sigX + 25, sigY + 32, { align: 'center' });
+    };
+
+    // Single-amount documents (receipts, credit notes): details, the highlighted amount, then where the invoice stands
+    const drawTransactionDetails = () => {
+      const { detailsTitle, details, amountLabel, amount, summary } = data.transaction;
+
+      doc.autoTable({
+          startY: lastY,
+          head: [[detailsTitle, '']],
+          body: details,
+          theme: 'grid',
+          headStyles: { fillColor: '#0F172A', textColor: '#FFFFFF', fontStyle: 'bold' },
+          styles: { fontSize: 10, cellPadding: 3 },
+          columnStyles: { 0: { fontStyle: 'bold', cellWidth: 60 } }
+      });
+      lastY = (doc as any).lastAutoTable.finalY + 10;
+
+      doc.setFillColor(settings.accentColor || primaryColor);
+      doc.roundedRect(PAGE_MARGIN, lastY, pageContentWidth, 18, 3, 3, 'F');
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.setTextColor('#FFFFFF');
+      doc.text(amountLabel, PAGE_MARGIN + 5, lastY + 11.5);
+      doc.text(formatCurrency(amount), pageWidth - PAGE_MARGIN - 5, lastY + 11.5, { align: 'right' });
+      lastY += 26;
+
+      doc.autoTable({
+          startY: lastY,
+          body: summary,
+          theme: 'plain',
+          tableWidth: pageContentWidth / 2 - 5,
+          margin: { left: pageContentWidth / 2 + PAGE_MARGIN + 5 },
+          styles: { fontSize: 10, cellPadding: 2 },
+          columnStyles: { 0: { fontStyle: 'normal' }, 1: { halign: 'right', fontStyle: 'bold' } }
+      });
+      lastY = (doc as any).lastAutoTable.finalY + 10;
+    };
+
+    // Statement of account: balance summary, then every movement with its running balance
+    const drawStatement = () => {
+      const statement: ClientStatement = data.statement;
+
+      doc.autoTable({
+          startY: lastY,
+          body: [
+              ['Opening Balance', formatCurrency(statement.openingBalance)],
+              ['Invoiced & Charges', formatCurrency(statement.totalDebits)],
+              ['Payments & Credits', formatCurrency(-statement.totalCredits)],
+          ],
+          theme: 'plain',
+          tableWidth: pageContentWidth / 2 - 5,
+          margin: { left: pageContentWidth / 2 + PAGE_MARGIN + 5 },
+          styles: { fontSize: 10, cellPadding: 2 },
+          columnStyles: { 0: { fontStyle: 'normal' }, 1: { halign: 'right', fontStyle: 'bold' } }
+      });
+      lastY = (doc as any).lastAutoTable.finalY + 4;
+
+      doc.setFillColor(settings.accentColor || primaryColor);
+      doc.roundedRect(PAGE_MARGIN, lastY, pageContentWidth, 14, 3, 3, 'F');
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(12);
+      doc.setTextColor('#FFFFFF');
+      doc.text('BALANCE DUE', PAGE_MARGIN + 5, lastY + 9);
+      doc.text(formatCurrency(statement.closingBalance), pageWidth - PAGE_MARGIN - 5, lastY + 9, { align: 'right' });
+      lastY += 22;
+
+      const amount = (value: number) => (value ? formatCurrency(value) : '');
+      doc.autoTable({
+          startY: lastY,
+          head: [['Date', 'Reference', 'Description', 'Debit', 'Credit', 'Balance']],
+          body: [
+              [statement.from !== undefined ? new Date(statement.from).toLocaleDateString() : '', '', 'Balance brought forward', '', '', formatCurrency(statement.openingBalance)],
+              ...statement.entries.map(e => [new Date(e.date).toLocaleDateString(), e.reference, e.description, amount(e.debit), amount(e.credit), formatCurrency(e.balance)]),
+          ],
+          theme: 'striped',
+          headStyles: { fillColor: '#0F172A', textColor: '#FFFFFF', fontStyle: 'bold' },
+          styles: { fontSize: 8, cellPadding: 2 },
+          columnStyles: {
+              0: { cellWidth: 20 },
+              1: { cellWidth: 28 },
+              3: { halign: 'right', cellWidth: 24 },
+              4: { halign: 'right', cellWidth: 24 },
+              5: { halign: 'right', cellWidth: 26, fontStyle: 'bold' },
+          }
+      });
+      lastY = (doc as any).lastAutoTable.finalY + 10;
+    };
+
     const generatePdfContent = () => {
       
       // "Billed To" Section
       doc.setFont('helvetica', 'bold');
       doc.setFontSize(10);
       doc.setTextColor('#9CA3AF'); // Light Gray label
-      doc.text('BILLED TO', PAGE_MARGIN, lastY);
+      doc.text(data.transaction?.partyLabel || 'BILLED TO', PAGE_MARGIN, lastY);
       
       lastY += 5;
       
@@ -304,6 +434,21 @@ const createPdfDocument = (data: QuotationData | any, settings: Settings): Promi
       
       lastY = clientY + 10;
 
+      if (data.statement) {
+          drawStatement();
+          drawFooter(doc, settings);
+          resolve(doc);
+          return;
+      }
+
+      if (data.transaction) {
+          drawTransactionDetails();
+          drawSignature();
+          drawFooter(doc, settings);
+          resolve(doc);
+          return;
+      }
+
       // Group tiles by their 'group' property
       const groupedTiles: Record<string, Tile[]> = {};
       (data.tiles || []).forEach((tile: Tile) => {
@@ -345,7 +490,8 @@ const createPdfDocument = (data: QuotationData | any, settings: Settings): Promi
           if (settings.showSubtotal) tileHeaders[0].push('Subtotal');
           
           const tileBody = tiles.map(t => {
-            const row = [t.category, t.sqm.toFixed(2), t.cartons, t.tileType];
+            const wastageCartons = getWastageCartons(t);
+            const row = [t.category, t.sqm.toFixed(2), wastageCartons > 0 ? `${t.cartons} (+${wastageCartons})` : t.cartons, t.pattern ? `${t.tileType} (${t.pattern})` : t.tileType];
             if (settings.showTileSize) row.splice(3, 0, t.size || 'N/A');
             if (settings.showUnitPrice) row.push(formatCurrency(t.unitPrice));
             if (settings.showSubtotal) row.push(formatCurrency(t.cartons * t.unitPrice));
@@ -440,6 +586,10 @@ const createPdfDocument = (data: QuotationData | any, settings: Settings): Promi
           const totalsBody = [
             ['Tiles Cost', formatCurrency(summary.totalTileCost)],
           ];
+
+          if (summary.wastageCost > 0) {
+              totalsBody.push([`Tile Wastage (${summary.totalWastageCartons} cartons)`, formatCurrency(summary.wastageCost)]);
+          }
           
           if (showMaterials) {
               totalsBody.push(['Materials Cost', formatCurrency(summary.totalMaterialCost)]);
@@ -458,7 +608,14 @@ const createPdfDocument = (data: QuotationData | any, settings: Settings): Promi
           // Spacer
           totalsBody.push(['', '']); 
           
-          totalsBody.push(['Grand Total', formatCurrency(summary.grandTotal)]);
+          // Stage invoices show the whole contract, then the part billed by this invoice as the amount due
+          if (data.stage) {
+            totalsBody.push(['Contract Total', formatCurrency(summary.contractTotal)]);
+            if (data.stage.previouslyInvoiced > 0) totalsBody.push(['Previously Invoiced', formatCurrency(-data.stage.previouslyInvoiced)]);
+          }
+          (data.lateFees || []).filter((fee: any) => !fee.waived).forEach((fee: any) => totalsBody.push([fee.description, formatCurrency(fee.amount)]));
+          totalsBody.push([data.stage ? `${data.stage.label} Due` : 'Grand Total', formatCurrency(summary.grandTotal)]);
+          const grandTotalRow = totalsBody.length - 1;
           if (data.depositPercentage && summary.depositAmount > 0) {
             totalsBody.push([`Deposit Required (${data.depositPercentage}%)`, formatCurrency(summary.depositAmount)]);
           }
@@ -474,7 +631,7 @@ const createPdfDocument = (data: QuotationData | any, settings: Settings): Promi
             didParseCell: (hookData: any) => {
                 const rows = totalsBody.length;
                 // Grand Total Styling
-                if (hookData.row.index === rows - (data.depositPercentage && summary.depositAmount > 0 ? 2 : 2)) { 
+                if (hookData.row.index === grandTotalRow) { 
                     hookData.cell.styles.fillColor = primaryColor;
                     hookData.cell.styles.textColor = '#FFFFFF';
                     hookData.cell.styles.fontSize = 12;
@@ -535,29 +692,7 @@ const createPdfDocument = (data: QuotationData | any, settings: Settings): Promi
       }
       
       // Digital Signature Logic
-      if (settings.companySignature) {
-          const signatureHeight = 25;
-          // Check for page break
-          if (lastY + signatureHeight + 30 > doc.internal.pageSize.getHeight() - 20) {
-              doc.addPage();
-              lastY = drawCompanyHeader(doc, settings) + 20;
-          } else {
-              lastY += 10;
-          }
-          
-          const sigY = lastY;
-          const sigX = pageWidth - PAGE_MARGIN - 50; // Right aligned
-          
-          doc.addImage(settings.companySignature, 'PNG', sigX, sigY, 50, 25);
-          
-          doc.setDrawColor(150, 150, 150); // Gray line
-          doc.setLineWidth(0.1);
-          doc.line(sigX, sigY + 28, sigX + 50, sigY + 28);
-          
-          doc.setFontSize(8);
-          doc.setTextColor('#6B7280');
-          doc.text("Authorized Signature", sigX + 25, sigY + 32, { align: 'center' });
-      }
+      drawSignature();
       
       drawFooter(doc, settings);
       resolve(doc);
@@ -570,35 +705,192 @@ const createPdfDocument = (data: QuotationData | any, settings: Settings): Promi
 export const exportToPdf = async (data: QuotationData, settings: Settings) => {
   try {
       const doc = await createPdfDocument(data, settings);
-      doc.save(`${settings.documentTitle.toLowerCase()}-${data.id}.pdf`);
+      doc.save(`${settings.documentTitle.toLowerCase()}-${data.quotationNumber || data.id}.pdf`);
   } catch (error) {
       console.error("Export to PDF failed", error);
       alert("Failed to export PDF.");
   }
 }
 
+/** The quotation PDF as a Blob, for sharing rather than downloading. */
+export const getQuotationPdfBlob = async (data: QuotationData, settings: Settings): Promise<Blob> => {
+  const doc = await createPdfDocument(data, settings);
+  return doc.output('blob');
+};
+
+const createInvoicePdfDocument = (invoice: InvoiceData, settings: Settings) => {
+  // Map to structure compatible with createPdfDocument
+  const pdfData = {
+      ...invoice,
+      date: invoice.invoiceDate, // Map for date display
+      adjustments: invoice.adjustments || [],
+      checklist: invoice.checklist || [],
+  };
+  const pdfSettings = {
+      ...settings,
+      documentTitle: 'INVOICE'
+  };
+  return createPdfDocument(pdfData, pdfSettings);
+};
+
+/** The invoice PDF as a Blob, for sharing rather than downloading. */
+export const getInvoicePdfBlob = async (invoice: InvoiceData, settings: Settings): Promise<Blob> => {
+  const doc = await createInvoicePdfDocument(invoice, settings);
+  return doc.output('blob');
+};
+
 export const exportInvoiceToPdf = async (invoice: InvoiceData, settings: Settings) => {
   try {
-      // Map to structure compatible with createPdfDocument
+      const doc = await createInvoicePdfDocument(invoice, settings);
+      doc.save(`${invoice.invoiceNumber}.pdf`);
+  } catch (error) {
+      console.error("Export Invoice to PDF failed", error);
+      alert("Failed to export Invoice PDF.");
+  }
+}
+
+export const exportReceiptToPdf = async (invoice: InvoiceData, payment: Payment, settings: Settings) => {
+  try {
+      // Balance as it stood right after this payment, so older receipts stay accurate
+      const payments = invoice.payments || [];
+      const paidToDate = payments
+          .slice(0, payments.findIndex(p => p.id === payment.id) + 1)
+          .reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
+      const invoiceTotal = calculateTotals(invoice, settings).grandTotal;
+
       const pdfData = {
           ...invoice,
-          date: invoice.invoiceDate, // Map for date display
-          adjustments: [], // Invoices don't have adjustments in current type def
-          checklist: [], // Invoices don't have checklist
+          date: payment.date,
+          dueDate: undefined,
+          receiptNumber: payment.receiptNumber,
+          transaction: {
+              partyLabel: 'RECEIVED FROM',
+              detailsTitle: 'Payment Details',
+              details: [
+                  ['Invoice #', invoice.invoiceNumber],
+                  ['Payment Date', new Date(payment.date).toLocaleDateString()],
+                  ['Payment Method', payment.method],
+                  ['Reference', payment.reference || '-'],
+              ],
+              amountLabel: 'AMOUNT RECEIVED',
+              amount: payment.amount,
+              summary: [
+                  ['Invoice Total', formatCurrency(invoiceTotal)],
+                  ['Total Paid to Date', formatCurrency(paidToDate)],
+                  ['Balance Remaining', formatCurrency(Math.max(0, invoiceTotal - paidToDate))],
+              ],
+          },
       };
       const pdfSettings = {
           ...settings,
-          documentTitle: 'INVOICE'
+          documentTitle: 'RECEIPT'
       };
-      
+
       const doc = await createPdfDocument(pdfData, pdfSettings);
-      doc.save(`${settings.invoicePrefix || 'INV'}-${invoice.invoiceNumber}.pdf`);
+      doc.save(`${payment.receiptNumber || `receipt-${invoice.invoiceNumber}`}.pdf`);
   } catch (error) {
-      console.error("Export Invoice to PDF failed", error);
-      alert("Failed to export Invoice PDF.");
+      console.error("Export Receipt to PDF failed", error);
+      alert("Failed to export Receipt PDF.");
+  }
+}
+
+export const exportCreditNoteToPdf = async (invoice: InvoiceData, creditNote: CreditNote, settings: Settings) => {
+  try {
+      const creditNotes = invoice.creditNotes || [];
+      const creditedToDate = creditNotes
+          .slice(0, creditNotes.findIndex(c => c.id === creditNote.id) + 1)
+          .reduce((sum, c) => sum + (Number(c.amount) || 0), 0);
+      const invoiceTotal = calculateTotals(invoice, settings).grandTotal;
+
+      const summary = [
+          ['Original Invoice Total', formatCurrency(invoiceTotal)],
+          ['Total Credited to Date', formatCurrency(creditedToDate)],
+          ['Revised Invoice Total', formatCurrency(Math.max(0, invoiceTotal - creditedToDate))],
+      ];
+      if (creditNote.refundAmount > 0) summary.push(['Refund Due to Client', formatCurrency(creditNote.refundAmount)]);
+
+      const pdfData = {
+          ...invoice,
+          date: creditNote.date,
+          dueDate: undefined,
+          creditNoteNumber: creditNote.creditNoteNumber,
+          transaction: {
+              partyLabel: 'CREDITED TO',
+              detailsTitle: 'Credit Details',
+              details: [
+                  ['Original Invoice #', invoice.invoiceNumber],
+                  ['Invoice Date', new Date(invoice.invoiceDate).toLocaleDateString()],
+                  ['Reason', creditNote.reason],
+              ],
+              amountLabel: 'AMOUNT CREDITED',
+              amount: creditNote.amount,
+              summary,
+          },
+      };
+      const pdfSettings = {
+          ...settings,
+          documentTitle: 'CREDIT NOTE'
+      };
+
+      const doc = await createPdfDocument(pdfData, pdfSettings);
+      doc.save(`${creditNote.creditNoteNumber || `credit-note-${invoice.invoiceNumber}`}.pdf`);
+  } catch (error) {
+      console.error("Export Credit Note to PDF failed", error);
+      alert("Failed to export Credit Note PDF.");
+  }
+}
+
+
+export const exportStatementToPdf = async (statement: ClientStatement, settings: Settings) => {
+  try {
+      const pdfData = {
+          date: Date.now(),
+          clientDetails: {
+              clientName: statement.client.name,
+              clientAddress: statement.client.address,
+              clientPhone: statement.client.phone,
+              projectName: '',
+              showClientName: true,
+              showClientAddress: true,
+              showClientPhone: true,
+              showProjectName: false,
+          },
+          statement,
+      };
+      const pdfSettings = {
+          ...settings,
+          documentTitle: 'STATEMENT OF ACCOUNT'
+      };
+
+      const doc = await createPdfDocument(pdfData, pdfSettings);
+      doc.save(`statement-${statement.client.name.replace(/[^a-z0-9]/gi, '_')}.pdf`);
+  } catch (error) {
+      console.error("Export Statement to PDF failed", error);
+      alert("Failed to export Statement PDF.");
   }
 }
 
+export const exportStatementToCsv = (statement: ClientStatement) => {
+    const saveAs = (window as any).saveAs;
+    if (!saveAs) return alert("File saving library not loaded.");
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+    const rows: (string | number)[][] = [
+        ['Statement of Account', quote(statement.client.name)],
+        ['Period', quote(formatStatementPeriod(statement))],
+        [],
+        ['Date', 'Type', 'Reference', 'Description', 'Debit', 'Credit', 'Balance'],
+        [statement.from !== undefined ? new Date(statement.from).toISOString().split('T')[0] : '', '', '', 'Balance brought forward', '', '', statement.openingBalance],
+        ...statement.entries.map(e => [new Date(e.date).toISOString().split('T')[0], e.type, quote(e.reference), quote(e.description), e.debit || '', e.credit || '', e.balance]),
+        [],
+        ['', '', '', 'Closing balance', statement.totalDebits, statement.totalCredits, statement.closingBalance],
+    ];
+
+    const csvContent = rows.map(e => e.join(",")).join("\n");
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    saveAs(blob, `statement-${statement.client.name.replace(/[^a-z0-9]/gi, '_')}.csv`);
+};
+
 
 export const exportToExcel = (data: QuotationData, settings: Settings) => {
     const XLSX = (window as any).XLSX;
@@ -624,7 +916,7 @@ export const exportToExcel = (data: QuotationData, settings: Settings) => {
              tilesData.push({ Category: `[${groupName}]` }); // Section Header row
          }
          tiles.forEach(t => {
-             tilesData.push({ Category: t.category, SQM: t.sqm, Cartons: t.cartons, Size: t.size, 'Tile Type': t.tileType, 'Unit Price': t.unitPrice, Subtotal: t.cartons * t.unitPrice });
+             tilesData.push({ Category: t.category, SQM: t.sqm, Cartons: t.cartons, 'Wastage Cartons': getWastageCartons(t), Size: t.size, 'Tile Type': t.tileType, Pattern: t.pattern || '', 'Unit Price': t.unitPrice, Subtotal: t.cartons * t.unitPrice });
          });
          tilesData.push({}); // Spacer
     });
@@ -645,6 +937,7 @@ export const exportToExcel = (data: QuotationData, settings: Settings) => {
 
     if (showCostSummary) {
         summaryData.push({ Item: "Tiles Cost", Value: summary.totalTileCost });
+        if (summary.wastageCost > 0) summaryData.push({ Item: `Tile Wastage (${summary.totalWastageCartons} cartons)`, Value: summary.wastageCost });
         if (showMaterials) {
             summaryData.push({ Item: "Materials Cost", Value: summary.totalMaterialCost });
         }
@@ -672,7 +965,7 @@ export const exportToExcel = (data: QuotationData, settings: Settings) => {
     const wsSummary = XLSX.utils.json_to_sheet(summaryData);
     XLSX.utils.book_append_sheet(wb, wsSummary, "Summary");
 
-    XLSX.writeFile(wb, `${settings.documentTitle.toLowerCase()}-${data.id}.xlsx`);
+    XLSX.writeFile(wb, `${settings.documentTitle.toLowerCase()}-${data.quotationNumber || data.id}.xlsx`);
 };
 
 const base64ToBuffer = (base64: string): ArrayBuffer => {
@@ -776,7 +1069,7 @@ export const exportToWord = async (data: QuotationData, settings: Settings) => {
             width: { size: 100, type: WidthType.PERCENTAGE },
             rows: [
                 new TableRow({ children: [ "Category", "m²", "Cartons", ...(settings.showTileSize ? ["Size"] : []), "Tile Type", ...(settings.showUnitPrice ? ["Unit Price"] : []), ...(settings.showSubtotal ? ["Subtotal"] : [])].map(text => new TableCell({ children: [new Paragraph({ text, bold: true, color: "FFFFFF" })], shading: { type: ShadingType.SOLID, fill: secondaryColor } })), tableHeader: true }),
-                ...tiles.map(t => new TableRow({ children: [ new TableCell({ children: [new Paragraph(t.category)] }), new TableCell({ children: [new Paragraph({ text: t.sqm.toFixed(2), alignment: AlignmentType.RIGHT })] }), new TableCell({ children: [new Paragraph({ text: String(t.cartons), alignment: AlignmentType.RIGHT })] }), ...(settings.showTileSize ? [new TableCell({ children: [new Paragraph(t.size || "N/A")] })] : []), new TableCell({ children: [new Paragraph(t.tileType)] }), ...(settings.showUnitPrice ? [new TableCell({ children: [new Paragraph({ text: formatCurrency(t.unitPrice), alignment: AlignmentType.RIGHT })] })] : []), ...(settings.showSubtotal ? [new TableCell({ children: [new Paragraph({ text: formatCurrency(t.cartons * t.unitPrice), alignment: AlignmentType.RIGHT })] })] : []) ] })),
+                ...tiles.map(t => new TableRow({ children: [ new TableCell({ children: [new Paragraph(t.category)] }), new TableCell({ children: [new Paragraph({ text: t.sqm.toFixed(2), alignment: AlignmentType.RIGHT })] }), new TableCell({ children: [new Paragraph({ text: getWastageCartons(t) > 0 ? `${t.cartons} (+${getWastageCartons(t)})` : String(t.cartons), alignment: AlignmentType.RIGHT })] }), ...(settings.showTileSize ? [new TableCell({ children: [new Paragraph(t.size || "N/A")] })] : []), new TableCell({ children: [new Paragraph(t.pattern ? `${t.tileType} (${t.pattern})` : t.tileType)] }), ...(settings.showUnitPrice ? [new TableCell({ children: [new Paragraph({ text: formatCurrency(t.unitPrice), alignment: AlignmentType.RIGHT })] })] : []), ...(settings.showSubtotal ? [new TableCell({ children: [new Paragraph({ text: formatCurrency(t.cartons * t.unitPrice), alignment: AlignmentType.RIGHT })] })] : []) ] })),
             ],
         }));
         children.push(new Paragraph("")); // Spacer
@@ -800,6 +1093,10 @@ export const exportToWord = async (data: QuotationData, settings: Settings) => {
         costRows = [
             new TableRow({ children: [new TableCell({ children: [new Paragraph("Tiles Cost")] }), new TableCell({ children: [new Paragraph({ text: formatCurrency(summary.totalTileCost), alignment: AlignmentType.RIGHT })] })] }),
         ];
+
+        if (summary.wastageCost > 0) {
+            costRows.push(new TableRow({ children: [new TableCell({ children: [new Paragraph(`Tile Wastage (${summary.totalWastageCartons} cartons)`)] }), new TableCell({ children: [new Paragraph({ text: formatCurrency(summary.wastageCost), alignment: AlignmentType.RIGHT })] })] }));
+        }
         
         if (showMaterials) {
             costRows.push(new TableRow({ children: [new TableCell({ children: [new Paragraph("Materials Cost")] }), new TableCell({ children: [new Paragraph({ text: formatCurrency(summary.totalMaterialCost), alignment: AlignmentType.RIGHT })] })] }));
@@ -871,7 +1168,7 @@ export const exportToWord = async (data: QuotationData, settings: Settings) => {
         }],
     });
     
-    Packer.toBlob(doc).then(blob => { saveAs(blob, `${settings.documentTitle.toLowerCase()}-${data.id}.docx`); });
+    Packer.toBlob(doc).then(blob => { saveAs(blob, `${settings.documentTitle.toLowerCase()}-${data.quotationNumber || data.id}.docx`); });
 };
 
 
@@ -886,6 +1183,11 @@ export const exportToCsv = (data: QuotationData, settings: Settings) => {
     data.tiles.forEach(t => {
         const row = [`Tiles - ${t.group || 'General'}`, `"${t.category}"`, t.cartons, "cartons", t.unitPrice, t.cartons * t.unitPrice].join(",");
         csvContent += row + "\n";
+
+        const wastageCartons = getWastageCartons(t);
+        if (wastageCartons > 0) {
+            csvContent += [`Tiles - ${t.group || 'General'}`, `"${t.category} (${t.pattern || t.size} wastage)"`, wastageCartons, "cartons", t.unitPrice, wastageCartons * t.unitPrice].join(",") + "\n";
+        }
     });
 
     if (showMaterials) {
@@ -896,7 +1198,7 @@ export const exportToCsv = (data: QuotationData, settings: Settings) => {
     }
     
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    saveAs(blob, `${settings.documentTitle.toLowerCase()}-${data.id}.csv`);
+    saveAs(blob, `${settings.documentTitle.toLowerCase()}-${data.quotationNumber || data.id}.csv`);
 };
 
 export const exportAnalyticsToCsv = (metrics: any) => {
@@ -910,6 +1212,7 @@ export const exportAnalyticsToCsv = (metrics: any) => {
         [],
         ['Invoices Generated', String(metrics.invoicesGenerated)],
         ['Paid This Month', formatCurrency(metrics.paidThisMonth)],
+        ['Credit Notes Issued', formatCurrency(-(metrics.creditNotesTotal || 0))],
     ];
 
     const csvContent = rows.map(e => e.join(",")).join("\n");
@@ -922,11 +1225,11 @@ export const exportHistoryToCsv = (quotations: QuotationData[], settings: Settin
   if (!saveAs) return alert("File saving library not loaded.");
   const rows: (string|number)[][] = [];
   
-  const headers = [ 'Quotation ID', 'Date', 'Client Name', 'Project Name', 'Status', 'Total Amount', 'Invoice ID' ];
+  const headers = [ 'Quotation ID', 'Quotation No.', 'Date', 'Client Name', 'Project Name', 'Status', 'Total Amount', 'Invoice ID' ];
   rows.push(headers);
   
   quotations.forEach(q => {
-    rows.push([ q.id, new Date(q.date).toISOString().split('T')[0], `"${q.clientDetails.clientName}"`, `"${q.clientDetails.projectName}"`, q.status, calculateTotals(q, settings).grandTotal, q.invoiceId || 'N/A' ]);
+    rows.push([ q.id, q.quotationNumber || '', new Date(q.date).toISOString().split('T')[0], `"${q.clientDetails.clientName}"`, `"${q.clientDetails.projectName}"`, q.status, calculateTotals(q, settings).grandTotal, q.invoiceId || 'N/A' ]);
   });
   
   const csvContent = rows.map(e => e.join(",")).join("\n");
@@ -950,7 +1253,7 @@ export const exportQuotesToZip = async (quotations: QuotationData[], settings: S
         try {
              const doc = await createPdfDocument(q, settings);
              const blob = doc.output('blob');
-             folder.file(`${q.clientDetails.clientName.replace(/[^a-z0-9]/gi, '_')}_${q.id.substring(0,6)}.pdf`, blob);
+             folder.file(`${q.clientDetails.clientName.replace(/[^a-z0-9]/gi, '_')}_${q.quotationNumber || q.id.substring(0,6)}.pdf`, blob);
         } catch (e) {
             console.error(`Failed to zip quote ${q.id}`, e);
         }
@@ -1,6 +1,7 @@
 
 import { GoogleGenAI, Type, Modality } from "@google/generative-ai";
 import { Settings, QuotationData } from '../types';
+import { resolveTile, resolveMaterial, RawTileLine, RawMaterialLine } from './pricingRules';
 
 // Lazy initialization of the AI client
 let aiInstance: GoogleGenAI | null = null;
@@ -58,46 +59,10 @@ export const getTextFromImageAI = async (imageFile: File): Promise<string> => {
 
 export const generateQuotationFromAI = async (inputText: string, settings: Settings, addCheckmateDefault: boolean, showChecklistDefault: boolean): Promise<any> => {
     const {
-        wallTilePrice,
-        floorTilePrice,
-        sittingRoomTilePrice,
-        externalWallTilePrice,
-        stepTilePrice,
-        // Granular prices
-        bedroomTilePrice,
-        toiletWallTilePrice,
-        toiletFloorTilePrice,
-        kitchenWallTilePrice,
-        kitchenFloorTilePrice,
-        
-        cementPrice,
-        whiteCementPrice,
-        sharpSandPrice,
         workmanshipRate,
-        // wastageFactor, // Not used in prompt calculation anymore per user request
-        wallTileM2PerCarton,
-        floorTileM2PerCarton,
-        sittingRoomTileM2PerCarton,
-        roomTileM2PerCarton,
-        externalWallTileM2PerCarton,
-        stepTileM2PerCarton,
-        toiletWallTileM2PerCarton,
-        toiletFloorTileM2PerCarton,
-        kitchenWallTileM2PerCarton,
-        kitchenFloorTileM2PerCarton,
-        
-        // Default Tile Sizes
-        defaultToiletWallSize,
-        defaultToiletFloorSize,
-        defaultRoomFloorSize,
-        defaultSittingRoomSize,
-        defaultKitchenWallSize,
-        defaultKitchenFloorSize,
-
         customMaterialUnits,
         defaultTermsAndConditions,
         defaultDepositPercentage,
-        tilePricesBySize, // New setting
     } = settings;
     
     const responseSchema = {
@@ -121,13 +86,13 @@ export const generateQuotationFromAI = async (inputText: string, settings: Setti
                     properties: {
                         category: { type: Type.STRING, description: 'The name of the area, e.g., "Toilet Wall".' },
                         group: { type: Type.STRING, description: 'The section or unit this belongs to, e.g., "Flat 1", "Flat 2", "BQ", "General".' },
-                        cartons: { type: Type.NUMBER, description: 'Number of cartons. If not present, estimate from m².' },
-                        sqm: { type: Type.NUMBER, description: 'Square meters. If not present, estimate from cartons.' },
-                        size: { type: Type.STRING, description: 'The size of the tile, e.g., "60x60", "40x40", "30x60". Default to empty string if not specified.' },
+                        cartons: { type: Type.NUMBER, nullable: true, description: 'Number of cartons exactly as written in the text. null if not stated. Do NOT calculate.' },
+                        sqm: { type: Type.NUMBER, nullable: true, description: 'Square meters exactly as written in the text. null if not stated. Do NOT calculate.' },
+                        size: { type: Type.STRING, description: 'The size of the tile exactly as written, e.g., "60x60", "30 by 60". Empty string if not stated.' },
                         tileType: { type: Type.STRING, description: 'Categorize as "Wall", "Floor", "External Wall", "Step", or "Unknown".', enum: ['Wall', 'Floor', 'External Wall', 'Step', 'Unknown'] },
-                        unitPrice: { type: Type.NUMBER, description: 'Price per carton. Use defaults if not specified.' },
+                        unitPrice: { type: Type.NUMBER, nullable: true, description: 'Price per carton ONLY if explicitly written for this line (e.g., "@ 7000"). null otherwise. Do NOT apply defaults.' },
                     },
-                    required: ['category', 'group', 'cartons', 'sqm', 'size', 'tileType', 'unitPrice']
+                    required: ['category', 'group', 'cartons', 'sqm', 'size', 'unitPrice']
                 }
             },
             materials: {
@@ -139,9 +104,10 @@ export const generateQuotationFromAI = async (inputText: string, settings: Setti
                         item: { type: Type.STRING, description: 'Name of the material, e.g., "Cement".' },
                         quantity: { type: Type.NUMBER, description: 'Quantity of the material.' },
                         unit: { type: Type.STRING, description: 'Unit of measurement, e.g., "bags", "kg".' },
-                        unitPrice: { type: Type.NUMBER, description: 'Price per unit. If not provided, estimate a reasonable price in NGN.' },
+                        unitPrice: { type: Type.NUMBER, nullable: true, description: 'Price per unit ONLY if explicitly written in the text. null otherwise.' },
+                        estimatedUnitPrice: { type: Type.NUMBER, description: 'A reasonable market price per unit in NGN, used only when no price is written or configured.' },
                     },
-                    required: ['item', 'quantity', 'unit', 'unitPrice']
+                    required: ['item', 'quantity', 'unit', 'unitPrice', 'estimatedUnitPrice']
                 }
             },
             adjustments: {
@@ -177,14 +143,10 @@ export const generateQuotationFromAI = async (inputText: string, settings: Setti
         required: ['clientDetails', 'tiles', 'materials', 'checklist', 'adjustments', 'workmanshipRate', 'maintenance', 'termsAndConditions']
     };
     
-    // Format the size rules for the prompt
-    const sizePriceRules = tilePricesBySize && tilePricesBySize.length > 0 
-        ? tilePricesBySize.map(r => `*   Size "**${r.size}**" -> Use Price: **${r.price}** NGN`).join('\n                    ')
-        : 'No specific size defaults configured.';
-
     const prompt = `
-        You are "Tiling Quotation Formatter & Calculator AI" for professional tilers in Nigeria.
-        Your task is to convert the following rough text input into a complete, clean, professional tiling quotation in JSON format.
+        You are "Tiling Quotation Formatter AI" for professional tilers in Nigeria.
+        Your task is to extract the raw fields of a tiling quotation from the following rough text input, in JSON format.
+        Coverage rates, carton counts, default sizes and default prices are applied afterwards by the application, so you MUST NOT calculate or invent them.
         
         **CRITICAL INSTRUCTIONS (MUST ALWAYS EXECUTE FULLY):**
 
@@ -214,62 +176,13 @@ export const generateQuotationFromAI = async (inputText: string, settings: Setti
             *   **EXT**: External Wall or Outside Wall
             *   **STEP**: Step or Staircase
 
-        4.  **Field Extraction & Defaults:** Extract all relevant fields from the (now expanded) text. If a field is missing or seems incorrect, apply the specified defaults. NEVER fail or stop. ALWAYS produce a full JSON output.
+        4.  **Field Extraction:** Extract all relevant fields from the (now expanded) text. NEVER fail or stop. ALWAYS produce a full JSON output.
             *   **Client & Project Details:** Look for information like client name, address, phone number, or a project name in the text. If any are not found, their value MUST be an empty string "".
-            *   **Tile Sizes (CRITICAL):** 
-                1.  If the user explicitly states a size in the text (e.g., "60x60", "30 by 60"), you MUST use that size.
-                2.  **If NO size is found**, you **MUST** apply the following DEFAULT SIZES based on the category:
-                    *   Toilet Wall: "${defaultToiletWallSize}"
-                    *   Toilet Floor: "${defaultToiletFloorSize}"
-                    *   Kitchen Wall: "${defaultKitchenWallSize}"
-                    *   Kitchen Floor: "${defaultKitchenFloorSize}"
-                    *   Bedroom / Room: "${defaultRoomFloorSize}"
-                    *   Sitting Room / Living Room: "${defaultSittingRoomSize}"
-                    *   Any other floor: "${defaultRoomFloorSize}"
-                    *   Any other wall: "${defaultToiletWallSize}"
-                *   Normalize the format to "WidthxHeight" (e.g. "25x40").
-
             *   **Tile Categories:** Identify categories using their full names after abbreviation expansion.
-            *   **Quantities & Calculation Logic (CRITICAL):** This is the most important part. You MUST follow these rules strictly, in this order of precedence:
-                1.  **If 'm²' (square meters) is provided:** This value is the absolute source of truth for the area. You MUST use it to calculate the number of 'cartons'. Any carton number provided in the input for the same line item MUST BE IGNORED AND OVERWRITTEN. Use the exact formula: \`cartons = (m² / [appropriate m²/carton rate])\`. The result MUST be rounded up to the next whole number (e.g., 40.1 becomes 41). Do NOT add any extra wastage factor.
-                2.  **If ONLY 'cartons' is provided (and 'm²' is NOT):** You MUST calculate the 'm²'. Use the exact formula: \`m² = cartons * [appropriate m²/carton rate]\`.
-                3.  **If NEITHER 'm²' nor 'cartons' are provided for a category:** You MUST set both 'cartons' and 'm²' to 0 for that category. Do not invent or assume quantities.
-            *   **Coverage Rates for Calculation:** Use these exact rates when you need to calculate 'cartons' from 'm²'.
-                *   **Sitting Room:** If category contains 'Sitting Room', 'Living Room', 'Parlour', or 'Dining', you MUST use: ${sittingRoomTileM2PerCarton} m²/carton.
-                *   **Room:** If category contains 'Room', 'Bedroom', 'Master Bedroom', 'Guest Room', or 'Store', you MUST use: ${roomTileM2PerCarton} m²/carton.
-                *   **Toilet Wall:** If category contains 'Toilet Wall' or 'Bathroom Wall', you MUST use: ${toiletWallTileM2PerCarton} m²/carton.
-                *   **Toilet Floor:** If category contains 'Toilet Floor' or 'Bathroom Floor', you MUST use: ${toiletFloorTileM2PerCarton} m²/carton.
-                *   **Kitchen Wall:** If category contains 'Kitchen Wall', you MUST use: ${kitchenWallTileM2PerCarton} m²/carton.
-                *   **Kitchen Floor:** If category contains 'Kitchen Floor', you MUST use: ${kitchenFloorTileM2PerCarton} m²/carton.
-                *   **Wall Tiles:** For any other wall category, you MUST use: ${wallTileM2PerCarton} m²/carton.
-                *   **General Floor:** For any other floor types, you MUST use: ${floorTileM2PerCarton} m²/carton.
-                *   **External Wall:** For 'External Wall' categories, you MUST use: ${externalWallTileM2PerCarton} m²/carton.
-                *   **Step:** For 'Step' or 'Staircase' categories, you MUST use: ${stepTileM2PerCarton} m²/carton.
-            *   **Tile Type & Unit Price Defaults (NGN):** 
-                Determine the 'unitPrice' based on this **STRICT PRIORITY ORDER**:
-                
-                1.  **User Override:** If the user explicitly states a price for a line item in the text (e.g., "@ 7000", "rate 5500"), that price ALWAYS takes precedence.
-                2.  **Size-Based Defaults:** Check if the extracted 'size' (or the default size applied above) matches any of the configured size rules below. Match flexibly (e.g., "60 by 60" matches "60x60").
-                    ${sizePriceRules}
-                    If a match is found, use that price.
-                3.  **Category-Based Defaults:** If no size match is found, use the category name:
-                    *   **Sitting Room:** If category contains 'Sitting Room', 'Living Room', 'Dining', or 'Parlour' -> Price: ${sittingRoomTilePrice} (Type: Floor).
-                    *   **Bedroom/Room:** If category contains 'Bedroom', 'Room', 'Guest Room', 'Master' -> Price: ${bedroomTilePrice} (Type: Floor).
-                    *   **Toilet Wall:** If category contains 'Toilet Wall', 'Bathroom Wall', 'Restroom Wall' -> Price: ${toiletWallTilePrice} (Type: Wall).
-                    *   **Toilet Floor:** If category contains 'Toilet Floor', 'Bathroom Floor', 'Restroom Floor' -> Price: ${toiletFloorTilePrice} (Type: Floor).
-                    *   **Kitchen Wall:** If category contains 'Kitchen Wall' -> Price: ${kitchenWallTilePrice} (Type: Wall).
-                    *   **Kitchen Floor:** If category contains 'Kitchen Floor' -> Price: ${kitchenFloorTilePrice} (Type: Floor).
-                    *   **External Wall:** If category contains 'External Wall', 'Outside Wall', or 'Facade' -> Price: ${externalWallTilePrice} (Type: External Wall).
-                    *   **Step:** If category contains 'Step' or 'Staircase' -> Price: ${stepTilePrice} (Type: Step).
-                    *   **General Wall:** If category contains 'Wall' -> Price: ${wallTilePrice} (Type: Wall).
-                    *   **General Floor:** If category contains 'Floor' -> Price: ${floorTilePrice} (Type: Floor).
-                    *   **Unknown:** If no keywords match -> Price: ${floorTilePrice} (Type: Unknown).
-
-            *   **Materials:** Extract materials like 'Cement', 'White Cement', 'Sand'. If unit prices are missing, you MUST use these specific default prices (in NGN):
-                *   Cement (per bag): ${cementPrice}
-                *   White Cement (per bag): ${whiteCementPrice}
-                *   Sharp Sand: ${sharpSandPrice}
-                *   For any other materials not listed above, use reasonable market estimates in NGN.
+            *   **Tile Quantities:** Copy 'm²' and 'cartons' exactly as written for each line item. If one of them is not written, return null for it. Do NOT convert between m² and cartons and do NOT add wastage.
+            *   **Tile Sizes:** Copy the size exactly as written (e.g., "60x60", "30 by 60"). If no size is written, return an empty string "".
+            *   **Tile Prices:** Only if the user explicitly states a price for a line item (e.g., "@ 7000", "rate 5500"), return it as 'unitPrice'. Otherwise return null.
+            *   **Materials:** Extract materials like 'Cement', 'White Cement', 'Sand'. Return 'unitPrice' only if a price is written, otherwise null. Always provide 'estimatedUnitPrice' as a reasonable market estimate in NGN.
                 *   **Recognized Units:** When determining the 'unit' for a material, prioritize from this list: [${customMaterialUnits.join(', ')}]. If the unit is not in this list but is mentioned, use the mentioned unit.
             *   **Rates & Adjustments:**
                 *   Workmanship rate per m²: Default is ${workmanshipRate}.
@@ -305,9 +218,11 @@ export const generateQuotationFromAI = async (inputText: string, settings: Setti
         const jsonText = response.text.trim();
         const parsedData = JSON.parse(jsonText);
         
-        // Inject new visibility defaults based on settings
+        // The AI only extracts raw fields; cartons, sizes and prices are resolved by the shared rules
         return {
             ...parsedData,
+            tiles: (parsedData.tiles || []).map((line: RawTileLine) => resolveTile(line, settings)),
+            materials: (parsedData.materials || []).map((line: RawMaterialLine) => resolveMaterial(line, settings)),
             showBankDetails: true, // Default enabled, can be toggled
             showTerms: settings.showTermsAndConditions,
             showWorkmanship: true,
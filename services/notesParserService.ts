@@ -0,0 +1,253 @@
+import { Settings, QuotationData, Tile, Material, Adjustment, ChecklistItem } from '../types';
+import { generateQuotationFromAI } from './geminiService';
+import { resolveTile, resolveMaterial } from './pricingRules';
+
+export type ParsedQuotation = Omit<QuotationData, 'id' | 'date' | 'status'>;
+
+/**
+ * Shorthand used by tilers in their site notes. Mirrors the abbreviation list
+ * given to the AI in `generateQuotationFromAI` so both paths expand identically.
+ */
+const ABBREVIATIONS: Record<string, string> = {
+    tw: 'Toilet Wall',
+    tf: 'Toilet Floor',
+    kw: 'Kitchen Wall',
+    kf: 'Kitchen Floor',
+    sr: 'Sitting Room',
+    lr: 'Living Room',
+    br: 'Bedroom',
+    mbr: 'Master Bedroom',
+    dr: 'Dining Room',
+    din: 'Dining Room',
+    lob: 'Lobby',
+    pass: 'Passage',
+    str: 'Store',
+    ext: 'External Wall',
+    step: 'Step',
+    steps: 'Step',
+};
+
+const GROUP_HEADER_REGEX = /^(flat|block|unit|apartment|apt|bq|boys'?\s*quarters?|duplex|main\s+building|building|house|penthouse|shop|wing|ground\s+floor|first\s+floor|second\s+floor)\b/i;
+const CLIENT_FIELD_REGEX = /^(client\s*name|client\s*address|client\s*phone|project\s*name|job\s*notes)\s*:\s*(.*)$/i;
+
+const SQM_REGEX = /(\d+(?:\.\d+)?)\s*(?:m2|m²|sqm|sq\.?\s*m|square\s*met(?:er|re)s?)(?![a-z])/i;
+const CARTONS_REGEX = /(\d+(?:\.\d+)?)\s*(?:ctns?|cartons?|pkts?|packs?)(?![a-z])/i;
+const SIZE_REGEX = /(\d+(?:\.\d+)?)\s*(?:x|by|\*|×)\s*(\d+(?:\.\d+)?)/i;
+const PRICE_REGEX = /(?:@|\brate\b\s*:?|\bprice\b\s*:?)\s*(?:n|₦|ngn)?\s*(\d[\d,]*(?:\.\d+)?)\s*(k)?(?![a-z])/i;
+const WEIGHT_REGEX = /(\d+(?:\.\d+)?)\s*(?:kgs?|kilos?|kilograms?)(?![a-z])/i;
+// Doors and windows noted on a floor line ("door 0.9", "window 1.2x1.5") do not change the floor area
+const OPENING_REGEX = /\b(?:doors?|windows?)\b\s*(?:\d+(?:\.\d+)?(?:\s*(?:x|by|\*|×)\s*\d+(?:\.\d+)?)?)?/gi;
+
+// Tile sides are written in cm (10–200) or mm (up to 2000); smaller figures such as "4.2 x 3.6" are room dimensions in metres
+const isTileSide = (value: number) => value >= 10 && value <= 2000;
+
+const MATERIAL_KEYWORDS = ['white cement', 'cement', 'sharp sand', 'sand', 'grout', 'adhesive', 'spacer', 'tile gum', 'gum', 'sealant', 'trim', 'edging'];
+
+const toNumber = (value: string, thousands?: string): number => {
+    const num = parseFloat(value.replace(/,/g, ''));
+    if (isNaN(num)) return 0;
+    return thousands ? num * 1000 : num;
+};
+
+const titleCase = (text: string): string =>
+    text
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(word => (word === 'bq' ? 'BQ' : word.charAt(0).toUpperCase() + word.slice(1)))
+        .join(' ');
+
+const expandCategory = (text: string): string => {
+    const words = text
+        .replace(/[:,;\-–]+/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(word => ABBREVIATIONS[word.toLowerCase()] || word);
+    return titleCase(words.join(' '));
+};
+
+const parseTileLine = (line: string, group: string, settings: Settings): Tile | null => {
+    const sqmMatch = line.match(SQM_REGEX);
+    const cartonsMatch = line.match(CARTONS_REGEX);
+    const priceMatch = line.match(PRICE_REGEX);
+    const openingMatches = [...line.matchAll(OPENING_REGEX)];
+    const withoutOpenings = openingMatches.reduce((text, match) => text.replace(match[0], ' '), line);
+    const dimensionMatches = [...withoutOpenings.matchAll(new RegExp(SIZE_REGEX.source, 'gi'))];
+
+    // "60x60" is a tile size; "4.2 x 3.6" gives the area when no m² figure is written, and is ignored otherwise
+    const isSize = (match: RegExpMatchArray) => isTileSide(toNumber(match[1])) && isTileSide(toNumber(match[2]));
+    const sizeMatch = dimensionMatches.find(isSize);
+    const roomMatch = dimensionMatches.find(match => !isSize(match));
+    const dimensionsSqm = roomMatch && !sqmMatch
+        ? parseFloat((toNumber(roomMatch[1]) * toNumber(roomMatch[2])).toFixed(2))
+        : 0;
+
+    let rest = withoutOpenings;
+    [sqmMatch, cartonsMatch, priceMatch, ...dimensionMatches].forEach(match => {
+        if (match) rest = rest.replace(match[0], ' ');
+    });
+    const category = expandCategory(rest.replace(/\d+(?:\.\d+)?/g, ' '));
+
+    if (!category || (!sqmMatch && !cartonsMatch && dimensionMatches.length === 0 && !ABBREVIATIONS[line.split(/\s+/)[0].toLowerCase()])) {
+        return null;
+    }
+
+    return resolveTile({
+        category,
+        group,
+        size: sizeMatch ? sizeMatch[0] : null,
+        sqm: sqmMatch ? toNumber(sqmMatch[1]) : dimensionsSqm || null,
+        cartons: cartonsMatch ? toNumber(cartonsMatch[1]) : null,
+        unitPrice: priceMatch ? toNumber(priceMatch[1], priceMatch[2]) : null,
+    }, settings);
+};
+
+const parseMaterialLine = (line: string, settings: Settings): Material | null => {
+    const lower = line.toLowerCase();
+    const keyword = MATERIAL_KEYWORDS.find(k => lower.startsWith(k));
+    if (!keyword) return null;
+
+    const priceMatch = line.match(PRICE_REGEX);
+    // A weight ("50kg") is the pack size, not the quantity: "White Cement 50kg" is one 50kg bag
+    const weightMatch = line.match(WEIGHT_REGEX);
+    let withoutPrice = priceMatch ? line.replace(priceMatch[0], ' ') : line;
+    if (weightMatch) withoutPrice = withoutPrice.replace(weightMatch[0], ' ');
+    const qtyMatch = withoutPrice.match(/(\d+(?:\.\d+)?)\s*([a-z]+)?/i);
+
+    const item = titleCase(withoutPrice.slice(0, qtyMatch ? qtyMatch.index : undefined).replace(/[:\-–]+/g, ' '));
+    const assumedQuantity = !qtyMatch && !!weightMatch;
+    const quantity = qtyMatch ? toNumber(qtyMatch[1]) : assumedQuantity ? 1 : 0;
+    let unit = qtyMatch?.[2]?.toLowerCase() || (keyword.includes('cement') || weightMatch ? 'bags' : 'pcs');
+    if (unit === 'bag') unit = 'bags';
+    if (weightMatch) unit = `${unit} (${toNumber(weightMatch[1])}kg)`;
+
+    const material = resolveMaterial({ item, quantity, unit, unitPrice: priceMatch ? toNumber(priceMatch[1], priceMatch[2]) : null }, settings);
+    return assumedQuantity ? { ...material, provenance: { ...material.provenance!, assumedQuantity: true } } : material;
+};
+
+/**
+ * Deterministic, offline replacement for `generateQuotationFromAI`.
+ * Understands the same shorthand grammar (abbreviations, `85m2`, `60x60`, room sizes such as `4.2 x 3.6`, `@ 7000`,
+ * group headers such as `FLAT 1`, material lines such as `Cement 60 bags`) and
+ * returns the same shape, so the rest of the app cannot tell the two apart.
+ */
+export const parseQuotationFromNotes = (inputText: string, settings: Settings, addCheckmateDefault: boolean, showChecklistDefault: boolean): ParsedQuotation => {
+    const clientDetails = { clientName: '', clientAddress: '', clientPhone: '', projectName: '' };
+    const tiles: Tile[] = [];
+    const materials: Material[] = [];
+    const adjustments: Adjustment[] = [];
+    let workmanshipRate = settings.workmanshipRate;
+    let maintenance = 0;
+    let profitPercentage: number | null = null;
+    let depositPercentage: number | null = settings.defaultDepositPercentage;
+    let group = 'General';
+
+    const lines = inputText.split('\n').map(l => l.trim().replace(/^[-*•]\s*/, '')).filter(Boolean);
+
+    for (let line of lines) {
+        const clientField = line.match(CLIENT_FIELD_REGEX);
+        if (clientField) {
+            const key = clientField[1].toLowerCase().replace(/\s+/g, '');
+            const value = clientField[2].trim();
+            if (key === 'clientname') clientDetails.clientName = value;
+            else if (key === 'clientaddress') clientDetails.clientAddress = value;
+            else if (key === 'clientphone') clientDetails.clientPhone = value;
+            else if (key === 'projectname') clientDetails.projectName = value;
+            continue;
+        }
+
+        const lower = line.toLowerCase();
+        const firstNumber = line.match(/(\d[\d,]*(?:\.\d+)?)\s*(k)?/i);
+        const amount = firstNumber ? toNumber(firstNumber[1], firstNumber[2]) : 0;
+
+        if (/^(workmanship|labou?r)\b/.test(lower) && firstNumber) { workmanshipRate = amount; continue; }
+        if (/^maintenance\b/.test(lower) && firstNumber) { maintenance = amount; continue; }
+        if (/\bprofit\b/.test(lower) && /%/.test(lower) && firstNumber) { profitPercentage = amount; continue; }
+        if (/%/.test(lower) && /(deposit|advance|upfront)/.test(lower) && firstNumber) { depositPercentage = amount; continue; }
+        if (/^(no deposit|deposit\s*:?\s*none)/.test(lower)) { depositPercentage = null; continue; }
+        // Adjustments need a fixed amount; percentages cannot be resolved before totals exist
+        const adjustmentMatch = line.replace(/\d+(?:\.\d+)?\s*%/g, ' ').match(/(\d[\d,]*(?:\.\d+)?)\s*(k)?/i);
+        if (/(discount|special offer)/.test(lower) && adjustmentMatch) {
+            adjustments.push({ description: titleCase(line.replace(adjustmentMatch[0], '').replace(/[:\-–]+/g, ' ')) || 'Discount', amount: -toNumber(adjustmentMatch[1], adjustmentMatch[2]) });
+            continue;
+        }
+        if (/(extra charge|additional charge|surcharge)/.test(lower) && adjustmentMatch) {
+            adjustments.push({ description: titleCase(line.replace(adjustmentMatch[0], '').replace(/[:\-–]+/g, ' ')) || 'Extra Charge', amount: toNumber(adjustmentMatch[1], adjustmentMatch[2]) });
+            continue;
+        }
+
+        // Group headers, either on their own line ("FLAT 1") or inline ("Flat 2: TW 20m2")
+        const colonIndex = line.indexOf(':');
+        const headerPart = colonIndex > -1 ? line.slice(0, colonIndex).trim() : line;
+        const isHeader = GROUP_HEADER_REGEX.test(headerPart) && !SQM_REGEX.test(headerPart) && !CARTONS_REGEX.test(headerPart);
+        if (isHeader || (colonIndex === line.length - 1 && !SQM_REGEX.test(line))) {
+            group = titleCase(headerPart.replace(/:$/, ''));
+            line = colonIndex > -1 ? line.slice(colonIndex + 1).trim() : '';
+            if (!line) continue;
+        }
+
+        const material = parseMaterialLine(line, settings);
+        if (material) {
+            materials.push(material);
+            continue;
+        }
+
+        const tile = parseTileLine(line, group, settings);
+        if (tile) tiles.push(tile);
+    }
+
+    let checklist: ChecklistItem[] = [];
+    if (showChecklistDefault) {
+        checklist = ['Surface Preparation', 'Tiling', 'Grouting', 'Cleanup'].map(item => ({ item, checked: false }));
+        if (addCheckmateDefault) checklist.push({ item: 'Checkmate', checked: false });
+    }
+
+    return {
+        clientDetails: {
+            ...clientDetails,
+            showClientName: true,
+            showClientAddress: true,
+            showClientPhone: true,
+            showProjectName: true,
+        },
+        tiles,
+        materials,
+        adjustments,
+        checklist,
+        workmanshipRate,
+        maintenance,
+        profitPercentage,
+        depositPercentage,
+        termsAndConditions: settings.defaultTermsAndConditions,
+        showBankDetails: true,
+        showTerms: settings.showTermsAndConditions,
+        showWorkmanship: true,
+        showMaintenance: settings.showMaintenance,
+        showTax: settings.showTax,
+        showCostSummary: true,
+        generatedBy: 'offline',
+    };
+};
+
+/**
+ * Produces quotation data from job notes, using the AI when it is enabled and reachable
+ * and falling back to the offline parser when it is disabled, offline or fails.
+ */
+export const generateQuotation = async (inputText: string, settings: Settings, addCheckmateDefault: boolean, showChecklistDefault: boolean): Promise<ParsedQuotation> => {
+    if (settings.useOfflineParser) {
+        return parseQuotationFromNotes(inputText, settings, addCheckmateDefault, showChecklistDefault);
+    }
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        return { ...parseQuotationFromNotes(inputText, settings, addCheckmateDefault, showChecklistDefault), aiUnavailableReason: 'No internet connection' };
+    }
+    try {
+        const data = await generateQuotationFromAI(inputText, settings, addCheckmateDefault, showChecklistDefault);
+        return { ...data, generatedBy: 'ai' };
+    } catch (error) {
+        console.warn("AI generation failed, falling back to offline parser.", error);
+        return {
+            ...parseQuotationFromNotes(inputText, settings, addCheckmateDefault, showChecklistDefault),
+            aiUnavailableReason: error instanceof Error && error.message ? error.message : 'The AI request failed',
+        };
+    }
+};
@@ -0,0 +1,112 @@
+import { Settings } from '../types';
+import { getStoredNumberSequences, saveNumberSequences } from './storageService';
+
+export type NumberSeries = 'invoice' | 'quotation' | 'receipt' | 'creditNote';
+
+export interface SeriesCounter {
+    year: number;
+    seq: number; // Last number issued in `year`
+}
+
+export type NumberSequences = Partial<Record<NumberSeries, SeriesCounter>>;
+
+// Where older versions kept the counters; moved to the IndexedDB meta store by `loadNumberSequences`
+const LEGACY_SEQUENCES_KEY = 'tilingAiNumberSequences';
+
+// Held in memory so numbers can be issued synchronously from event handlers; every change is written through
+let sequences: NumberSequences = {};
+
+/** Keeps the higher counter per series, so restoring never causes a number to be issued twice. */
+export const mergeNumberSequences = (current: NumberSequences, incoming: NumberSequences): NumberSequences => {
+    const merged: NumberSequences = { ...current };
+    (Object.keys(incoming) as (keyof NumberSequences)[]).forEach(series => {
+        const a = current[series];
+        const b = incoming[series];
+        if (!b || typeof b.year !== 'number' || typeof b.seq !== 'number') return;
+        if (!a || b.year > a.year || (b.year === a.year && b.seq > a.seq)) merged[series] = b;
+    });
+    return merged;
+};
+
+/** Reads the stored counters, moving over any left in localStorage by older versions. Call once on startup. */
+export const loadNumberSequences = async (): Promise<NumberSequences> => {
+    const stored = await getStoredNumberSequences();
+    const legacy = localStorage.getItem(LEGACY_SEQUENCES_KEY);
+    if (legacy === null) {
+        sequences = stored;
+        return sequences;
+    }
+    let legacySequences: NumberSequences = {};
+    try {
+        legacySequences = JSON.parse(legacy) || {};
+    } catch (error) {
+        console.error('Failed to parse number sequences from localStorage', error);
+    }
+    sequences = mergeNumberSequences(stored, legacySequences);
+    await saveNumberSequences(sequences);
+    localStorage.removeItem(LEGACY_SEQUENCES_KEY);
+    return sequences;
+};
+
+export const getNumberSequences = (): NumberSequences => sequences;
+
+/** Replaces the persisted counters, e.g. when restoring a backup. */
+export const setNumberSequences = (next: NumberSequences): Promise<void> => {
+    sequences = next || {};
+    return saveNumberSequences(sequences);
+};
+
+const getSeriesConfig = (series: NumberSeries, settings: Settings) => {
+    switch (series) {
+        case 'invoice': return { prefix: settings.invoicePrefix, template: settings.invoiceNumberTemplate };
+        case 'receipt': return { prefix: settings.receiptPrefix, template: settings.receiptNumberTemplate };
+        case 'creditNote': return { prefix: settings.creditNotePrefix, template: settings.creditNoteNumberTemplate };
+        default: return { prefix: settings.quotationPrefix, template: settings.quotationNumberTemplate };
+    }
+};
+
+/**
+ * Renders a numbering template. Supported tokens:
+ * `{prefix}`, `{yyyy}`, `{yy}`, `{mm}`, `{seq}` and `{seq:0000}` (zero-padded to the number of zeros).
+ */
+export const formatDocumentNumber = (template: string, prefix: string, seq: number, date: Date = new Date()): string => {
+    const yyyy = String(date.getFullYear());
+    return (template || '{prefix}-{yyyy}-{seq:0000}')
+        .replace(/\{prefix\}/g, prefix || '')
+        .replace(/\{yyyy\}/g, yyyy)
+        .replace(/\{yy\}/g, yyyy.slice(-2))
+        .replace(/\{mm\}/g, String(date.getMonth() + 1).padStart(2, '0'))
+        .replace(/\{seq(?::(0+))?\}/g, (_, zeros?: string) => String(seq).padStart(zeros ? zeros.length : 0, '0'));
+};
+
+const getNextSeq = (series: NumberSeries, settings: Settings, date: Date): number => {
+    const counter = getNumberSequences()[series];
+    if (!counter) return 1;
+    if (settings.resetNumberingYearly && counter.year !== date.getFullYear()) return 1;
+    return counter.seq + 1;
+};
+
+/** The number the next document in `series` would get, without consuming it. */
+export const peekNextDocumentNumber = (series: NumberSeries, settings: Settings, date: Date = new Date()): string => {
+    const { prefix, template } = getSeriesConfig(series, settings);
+    return formatDocumentNumber(template, prefix, getNextSeq(series, settings, date), date);
+};
+
+/**
+ * Issues the next number in `series` and persists the counter, so numbers are sequential and never reused.
+ * Numbers already present in `existingNumbers` (e.g. from a restored backup) are skipped.
+ * Call this from event handlers only, never inside a state updater, so a number is consumed exactly once.
+ */
+export const issueDocumentNumber = (series: NumberSeries, settings: Settings, existingNumbers: string[] = [], date: Date = new Date()): string => {
+    const { prefix, template } = getSeriesConfig(series, settings);
+    const taken = new Set(existingNumbers);
+    let seq = getNextSeq(series, settings, date);
+    let number = formatDocumentNumber(template, prefix, seq, date);
+    while (taken.has(number)) {
+        seq++;
+        number = formatDocumentNumber(template, prefix, seq, date);
+    }
+    setNumberSequences({ ...getNumberSequences(), [series]: { year: date.getFullYear(), seq } })
+        .catch(error => console.error('Failed to save the number sequences', error));
+    return number;
+};
@@ -0,0 +1,160 @@
+import { InvoiceData, LateFee, ReminderStage, Settings } from '../types';
+import { calculateTotals } from './calculationService';
+import { derivePaymentStatus, getInvoiceBalance } from './paymentService';
+
+export const REMINDER_STAGES: ReminderStage[] = ['first', 'second', 'final'];
+
+export const REMINDER_STAGE_LABELS: Record<ReminderStage, string> = {
+    first: 'First Reminder',
+    second: 'Second Reminder',
+    final: 'Final Notice',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', minimumFractionDigits: 0 }).format(amount);
+
+/** Whole days since the due date; 0 while the invoice is not yet due. */
+export const getDaysOverdue = (invoice: InvoiceData, now: number = Date.now()): number =>
+    Math.max(0, Math.floor((now - invoice.dueDate) / DAY_MS));
+
+/** An invoice is past due while it has a balance left after its due date. */
+export const isPastDue = (invoice: InvoiceData, settings: Settings, now: number = Date.now()): boolean =>
+    invoice.status !== 'Cancelled' && invoice.dueDate < now && getInvoiceBalance(invoice, settings) > 0;
+
+/**
+ * Late fees an invoice has fallen due for but not been charged yet: one per full period overdue,
+ * up to `settings.lateFeeMaxPeriods`. A percentage fee is worked out on the unpaid balance without earlier fees.
+ */
+export const getPendingLateFees = (invoice: InvoiceData, settings: Settings, now: number = Date.now()): LateFee[] => {
+    if (!settings.lateFeeEnabled || !isPastDue(invoice, settings, now)) return [];
+
+    const periodDays = Math.max(1, Number(settings.lateFeePeriodDays) || 30);
+    let periodsDue = Math.floor(getDaysOverdue(invoice, now) / periodDays);
+    if (Number(settings.lateFeeMaxPeriods) > 0) periodsDue = Math.min(periodsDue, Number(settings.lateFeeMaxPeriods));
+
+    const charged = new Set((invoice.lateFees || []).map(fee => fee.period));
+    const unpaidPrincipal = Math.max(0, getInvoiceBalance(invoice, settings) - calculateTotals(invoice, settings).lateFeeTotal);
+    const amount = settings.lateFeeType === 'flat'
+        ? round2(Number(settings.lateFeeAmount) || 0)
+        : round2(unpaidPrincipal * (Number(settings.lateFeeAmount) || 0) / 100);
+    if (amount <= 0) return [];
+
+    const fees: LateFee[] = [];
+    for (let period = 1; period <= periodsDue; period++) {
+        if (charged.has(period)) continue;
+        fees.push({
+            // Derived from the invoice and period so every device reconciling the same invoice adds the same fee
+            id: `${invoice.id}-late-${period}`,
+            date: invoice.dueDate + period * periodDays * DAY_MS,
+            period,
+            amount,
+            description: settings.lateFeeType === 'flat'
+                ? `Late payment fee (period ${period})`
+                : `Late payment fee (period ${period}, ${settings.lateFeeAmount}% of ${formatCurrency(unpaidPrincipal)})`,
+        });
+    }
+    return fees;
+};
+
+/**
+ * Brings stored invoices up to date: late fees that have fallen due are added, and invoices with a
+ * balance past their due date become Overdue, unpaid or part-paid alike (and go back to Unpaid or
+ * Partially Paid if the due date was moved out).
+ * Returns the same array when nothing changed, so it can be used directly in a state updater.
+ */
+export const reconcileOverdueInvoices = (invoices: InvoiceData[], settings: Settings, now: number = Date.now()): InvoiceData[] => {
+    let changed = false;
+    const reconciled = invoices.map(invoice => {
+        if (invoice.status === 'Paid' || invoice.status === 'Cancelled') return invoice;
+
+        let updated = invoice;
+        const fees = getPendingLateFees(invoice, settings, now);
+        if (fees.length > 0) {
+            updated = { ...updated, lateFees: [...(updated.lateFees || []), ...fees] };
+        }
+        const status = derivePaymentStatus(updated, settings, now);
+        if (status !== updated.status) {
+            updated = { ...updated, status };
+        }
+
+        if (updated !== invoice) changed = true;
+        return updated;
+    });
+    return changed ? reconciled : invoices;
+};
+
+const getReminderDays = (stage: ReminderStage, settings: Settings): number => {
+    switch (stage) {
+        case 'first': return Number(settings.reminderFirstDays) || 0;
+        case 'second': return Number(settings.reminderSecondDays) || 0;
+        default: return Number(settings.reminderFinalDays) || 0;
+    }
+};
+
+/** The latest reminder stage an invoice has reached that has not been sent, or null if none is due. */
+export const getDueReminderStage = (invoice: InvoiceData, settings: Settings, now: number = Date.now()): ReminderStage | null => {
+    if (!isPastDue(invoice, settings, now)) return null;
+    const daysOverdue = getDaysOverdue(invoice, now);
+    const sent = new Set((invoice.reminders || []).map(r => r.stage));
+    const reached = REMINDER_STAGES.filter(stage => daysOverdue >= getReminderDays(stage, settings));
+    if (reached.length === 0) return null;
+    const latest = reached[reached.length - 1];
+    // Once a later reminder has gone out, earlier ones are no longer due
+    const latestSentIndex = Math.max(-1, ...REMINDER_STAGES.map((stage, i) => (sent.has(stage) ? i : -1)));
+    return REMINDER_STAGES.indexOf(latest) > latestSentIndex ? latest : null;
+};
+
+/** Pre-filled reminder text for the client, firmer at each stage. */
+export const buildReminderMessage = (invoice: InvoiceData, stage: ReminderStage, settings: Settings, now: number = Date.now()): string => {
+    const name = invoice.clientDetails.clientName || 'Customer';
+    const balance = formatCurrency(getInvoiceBalance(invoice, settings));
+    const dueDate = new Date(invoice.dueDate).toLocaleDateString();
+    const days = getDaysOverdue(invoice, now);
+    const lateFeeNote = settings.lateFeeEnabled ? ' Please note that late payment fees apply to overdue balances as set out in our terms.' : '';
+
+    let body: string;
+    if (stage === 'first') {
+        body = `This is a friendly reminder that invoice ${invoice.invoiceNumber} was due on ${dueDate} and ${balance} is still outstanding. If you have already made this payment, kindly ignore this message.`;
+    } else if (stage === 'second') {
+        body = `Our records show that invoice ${invoice.invoiceNumber} is now ${days} days past its due date of ${dueDate}, with ${balance} outstanding. We would appreciate payment at your earliest convenience.${lateFeeNote}`;
+    } else {
+        body = `FINAL NOTICE: invoice ${invoice.invoiceNumber} is ${days} days overdue and ${balance} remains unpaid despite our earlier reminders. Please settle the balance within 7 days or contact us to agree a payment plan.${lateFeeNote}`;
+    }
+
+    const paymentDetails = invoice.bankDetails || settings.defaultBankDetails;
+    return [
+        `Dear ${name},`,
+        '',
+        body,
+        ...(paymentDetails ? ['', 'Payment details:', paymentDetails] : []),
+        '',
+        'Thank you,',
+        settings.companyName,
+    ].join('\n');
+};
+
+export interface ReminderQueueItem {
+    invoice: InvoiceData;
+    stage: ReminderStage;
+    daysOverdue: number;
+    balance: number;
+    message: string;
+}
+
+/** Invoices with a reminder due, most overdue first. */
+export const getReminderQueue = (invoices: InvoiceData[], settings: Settings, now: number = Date.now()): ReminderQueueItem[] =>
+    invoices
+        .map(invoice => ({ invoice, stage: getDueReminderStage(invoice, settings, now) }))
+        .filter((entry): entry is { invoice: InvoiceData; stage: ReminderStage } => entry.stage !== null)
+        .map(({ invoice, stage }) => ({
+            invoice,
+            stage,
+            daysOverdue: getDaysOverdue(invoice, now),
+            balance: getInvoiceBalance(invoice, settings),
+            message: buildReminderMessage(invoice, stage, settings, now),
+        }))
+        .sort((a, b) => b.daysOverdue - a.daysOverdue);
@@ -0,0 +1,104 @@
+import { CreditNote, InvoiceData, Payment, PaymentMethod, Settings } from '../types';
+import { calculateTotals } from './calculationService';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['Bank Transfer', 'Cash', 'POS', 'Cheque', 'Other'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The payment ledger of an invoice. Invoices marked as paid before the ledger existed have no
+ * payments recorded, so they are treated as a single payment of the full total on their payment date.
+ */
+export const getInvoicePayments = (invoice: InvoiceData, settings: Settings): Payment[] => {
+    if (Array.isArray(invoice.payments) && invoice.payments.length > 0) return invoice.payments;
+    if (invoice.status === 'Paid') {
+        return [{
+            id: `legacy-${invoice.id}`,
+            date: invoice.paymentDate || invoice.invoiceDate,
+            amount: calculateTotals(invoice, settings).grandTotal,
+            method: 'Other',
+            reference: 'Marked as paid',
+        }];
+    }
+    return [];
+};
+
+export const getAmountPaid = (invoice: InvoiceData, settings: Settings): number =>
+    round2(getInvoicePayments(invoice, settings).reduce((sum, p) => sum + (Number(p.amount) || 0), 0));
+
+export const getCreditedAmount = (invoice: InvoiceData): number =>
+    round2((invoice.creditNotes || []).reduce((sum, c) => sum + (Number(c.amount) || 0), 0));
+
+/** How much can still be credited; an invoice cannot be credited beyond its total. */
+export const getCreditableAmount = (invoice: InvoiceData, settings: Settings): number =>
+    Math.max(0, round2(calculateTotals(invoice, settings).grandTotal - getCreditedAmount(invoice)));
+
+export const getInvoiceBalance = (invoice: InvoiceData, settings: Settings): number =>
+    Math.max(0, round2(calculateTotals(invoice, settings).grandTotal - getAmountPaid(invoice, settings) - getCreditedAmount(invoice)));
+
+/**
+ * Status implied by the payments, credit notes and due date. An invoice credited in full is Cancelled;
+ * one with a balance left after its due date is Overdue, whether or not instalments were paid.
+ */
+export const derivePaymentStatus = (invoice: InvoiceData, settings: Settings, now: number = Date.now()): InvoiceData['status'] => {
+    const credited = getCreditedAmount(invoice);
+    if (credited > 0 && getCreditableAmount(invoice, settings) === 0) return 'Cancelled';
+    const paid = getAmountPaid(invoice, settings);
+    const balance = getInvoiceBalance(invoice, settings);
+    if ((paid > 0 || credited > 0) && balance === 0) return 'Paid';
+    if (balance > 0 && invoice.dueDate < now) return 'Overdue';
+    return paid > 0 ? 'Partially Paid' : 'Unpaid';
+};
+
+/** Replaces the ledger of an invoice and re-derives its status and settlement date. */
+export const applyPayments = (invoice: InvoiceData, payments: Payment[], settings: Settings): InvoiceData => {
+    // Reset a settled status first so an emptied ledger is not mistaken for a legacy paid invoice
+    const updated: InvoiceData = { ...invoice, status: 'Unpaid', payments: [...payments].sort((a, b) => a.date - b.date) };
+    const status = derivePaymentStatus(updated, settings);
+    const lastPayment = updated.payments![updated.payments!.length - 1];
+    return {
+        ...updated,
+        status,
+        paymentDate: status === 'Paid' && lastPayment ? lastPayment.date : undefined,
+    };
+};
+
+export const recordPayment = (invoice: InvoiceData, payment: Omit<Payment, 'id'>, settings: Settings): InvoiceData =>
+    applyPayments(invoice, [...getInvoicePayments(invoice, settings), { ...payment, id: crypto.randomUUID() }], settings);
+
+/**
+ * Adds a credit note to an invoice. Only the part of the credit above the unpaid balance is
+ * recorded as a refund, since the unpaid part was never received as cash.
+ */
+export const applyCreditNote = (invoice: InvoiceData, creditNote: Omit<CreditNote, 'id' | 'invoiceId' | 'refundAmount'>, settings: Settings): InvoiceData => {
+    const balanceBefore = getInvoiceBalance(invoice, settings);
+    const credit: CreditNote = {
+        ...creditNote,
+        id: crypto.randomUUID(),
+        invoiceId: invoice.id,
+        refundAmount: Math.max(0, round2(creditNote.amount - balanceBefore)),
+    };
+    const updated: InvoiceData = { ...invoice, payments: getInvoicePayments(invoice, settings), creditNotes: [...(invoice.creditNotes || []), credit] };
+    return applyPayments(updated, updated.payments || [], settings);
+};
+
+/** Payments that have a receipt issued, newest first. */
+export const getReceipts = (invoices: InvoiceData[]): { invoice: InvoiceData; payment: Payment }[] =>
+    invoices
+        .flatMap(invoice => (invoice.payments || []).filter(p => p.receiptNumber).map(payment => ({ invoice, payment })))
+        .sort((a, b) => b.payment.date - a.payment.date);
+
+/** Every payment received, optionally only those on or after `from`. Cancelled invoices keep their cash; refunds are credit notes. */
+export const getReceivedPayments = (invoices: InvoiceData[], settings: Settings, from?: Date): { invoice: InvoiceData; payment: Payment }[] =>
+    invoices
+        .flatMap(invoice => getInvoicePayments(invoice, settings).map(payment => ({ invoice, payment })))
+        .filter(({ payment }) => !from || new Date(payment.date) >= from);
+
+/**
+ * Every credit note issued, optionally only those on or after `from`. Each counts as negative revenue for its full
+ * amount on its own date; any refund is the cash settlement of that credit note and is not counted again.
+ */
+export const getIssuedCreditNotes = (invoices: InvoiceData[], from?: Date): { invoice: InvoiceData; creditNote: CreditNote }[] =>
+    invoices
+        .flatMap(invoice => (invoice.creditNotes || []).map(creditNote => ({ invoice, creditNote })))
+        .filter(({ creditNote }) => !from || new Date(creditNote.date) >= from);
@@ -0,0 +1,245 @@
+import { Settings, Tile, Material, PriceProvenance, LayingPattern } from '../types';
+
+/**
+ * A tile line as extracted from job notes (by the AI or the offline parser),
+ * before any defaults, coverage rates or prices have been applied.
+ * Numeric fields are null/0 when the notes did not state them.
+ */
+export interface RawTileLine {
+    category: string;
+    group?: string;
+    size?: string | null;
+    sqm?: number | null;
+    cartons?: number | null;
+    unitPrice?: number | null; // Only a price explicitly written in the notes, e.g. "@ 7000"
+    tileType?: Tile['tileType'];
+}
+
+/**
+ * A material line as extracted from job notes. `estimatedUnitPrice` is an optional
+ * market estimate (from the AI) used only when nothing else applies.
+ */
+export interface RawMaterialLine {
+    item: string;
+    quantity: number;
+    unit: string;
+    unitPrice?: number | null;
+    estimatedUnitPrice?: number | null;
+}
+
+const isToilet = (cat: string) => cat.includes('toilet') || cat.includes('bathroom') || cat.includes('restroom');
+const isExternal = (cat: string) => cat.includes('external') || cat.includes('outside') || cat.includes('facade');
+const isStep = (cat: string) => cat.includes('step') || cat.includes('stair');
+const isSittingRoom = (cat: string) => cat.includes('sitting') || cat.includes('living') || cat.includes('parlour') || cat.includes('dining');
+
+const SIZE_REGEX = /(\d+(?:\.\d+)?)\s*(?:x|by|\*|×)\s*(\d+(?:\.\d+)?)/i;
+
+/** Normalises "60 by 60", "60 X 60" etc. to "60x60". */
+export const normalizeSize = (size: string): string => {
+    const match = (size || '').match(SIZE_REGEX);
+    return match ? `${match[1]}x${match[2]}` : (size || '').trim();
+};
+
+export const getTileType = (category: string): Tile['tileType'] => {
+    const cat = (category || '').toLowerCase();
+    if (isExternal(cat)) return 'External Wall';
+    if (isStep(cat)) return 'Step';
+    if (cat.includes('wall')) return 'Wall';
+    if (cat.includes('floor') || /room|bed|lobby|passage|store|dining|parlour|kitchen|toilet|bathroom|corridor|balcony|porch/.test(cat)) return 'Floor';
+    return 'Unknown';
+};
+
+/**
+ * m² contained in one carton for the given category. Specific areas are matched first, then any wall
+ * (so "Bedroom Wall" is a wall, not a room floor), then generic rooms.
+ */
+export const getCoverageRate = (category: string, settings: Settings): number => {
+    const cat = (category || '').toLowerCase().trim();
+    if (cat === 'tw' || (isToilet(cat) && cat.includes('wall'))) return settings.toiletWallTileM2PerCarton;
+    if (cat === 'tf' || (isToilet(cat) && cat.includes('floor'))) return settings.toiletFloorTileM2PerCarton;
+    if (cat === 'kw' || (cat.includes('kitchen') && cat.includes('wall'))) return settings.kitchenWallTileM2PerCarton;
+    if (cat === 'kf' || (cat.includes('kitchen') && cat.includes('floor'))) return settings.kitchenFloorTileM2PerCarton;
+    if (cat === 'ext' || isExternal(cat)) return settings.externalWallTileM2PerCarton;
+    if (isStep(cat)) return settings.stepTileM2PerCarton;
+    if (cat.includes('wall')) return settings.wallTileM2PerCarton;
+    if (cat === 'sr' || cat === 'lr' || isSittingRoom(cat)) return settings.sittingRoomTileM2PerCarton;
+    if (cat === 'br' || cat === 'mbr' || cat.includes('room') || cat.includes('guest') || cat.includes('store')) return settings.roomTileM2PerCarton;
+    return settings.floorTileM2PerCarton;
+};
+
+/** cartons = ceil(m² / rate). Rounded to 6 places first so 4.5 / 1.5 does not become 4. */
+export const calculateCartons = (sqm: number, rate: number): number => {
+    if (!sqm || sqm <= 0) return 0;
+    return Math.ceil(Number((sqm / (rate || 1)).toFixed(6)));
+};
+
+/** m² = cartons × rate, to 2 decimal places. */
+export const calculateSqmFromCartons = (cartons: number, rate: number): number => {
+    if (!cartons || cartons <= 0) return 0;
+    return parseFloat((cartons * (rate || 1)).toFixed(2));
+};
+
+export const getDefaultSize = (category: string, tileType: Tile['tileType'], settings: Settings): string => {
+    const cat = (category || '').toLowerCase();
+    if (isToilet(cat)) return cat.includes('wall') ? settings.defaultToiletWallSize : settings.defaultToiletFloorSize;
+    if (cat.includes('kitchen')) return cat.includes('wall') ? settings.defaultKitchenWallSize : settings.defaultKitchenFloorSize;
+    if (tileType === 'Wall') return settings.defaultToiletWallSize;
+    if (cat.includes('sitting') || cat.includes('living')) return settings.defaultSittingRoomSize;
+    if (tileType === 'Floor') return settings.defaultRoomFloorSize;
+    return '';
+};
+
+export const findSizePriceRule = (size: string, settings: Settings): { size: string; price: number } | null => {
+    if (!size) return null;
+    const normalized = normalizeSize(size).toLowerCase();
+    return (settings.tilePricesBySize || []).find(r => normalizeSize(r.size).toLowerCase() === normalized) || null;
+};
+
+type PriceField = 'sittingRoomTilePrice' | 'toiletWallTilePrice' | 'toiletFloorTilePrice' | 'kitchenWallTilePrice' | 'kitchenFloorTilePrice'
+    | 'externalWallTilePrice' | 'stepTilePrice' | 'bedroomTilePrice' | 'wallTilePrice' | 'floorTilePrice'
+    | 'cementPrice' | 'whiteCementPrice' | 'sharpSandPrice';
+
+/** Human-readable names for the Settings price fields, shown in the "why this price?" popover. */
+export const PRICE_FIELD_LABELS: Record<PriceField, string> = {
+    sittingRoomTilePrice: 'Sitting Room tile price',
+    toiletWallTilePrice: 'Toilet Wall tile price',
+    toiletFloorTilePrice: 'Toilet Floor tile price',
+    kitchenWallTilePrice: 'Kitchen Wall tile price',
+    kitchenFloorTilePrice: 'Kitchen Floor tile price',
+    externalWallTilePrice: 'External Wall tile price',
+    stepTilePrice: 'Step tile price',
+    bedroomTilePrice: 'Bedroom / Room tile price',
+    wallTilePrice: 'General Wall tile price',
+    floorTilePrice: 'General Floor tile price',
+    cementPrice: 'Cement price',
+    whiteCementPrice: 'White Cement price',
+    sharpSandPrice: 'Sharp Sand price',
+};
+
+/** The Settings field holding the default price for a category. Walls are matched before rooms, as for coverage. */
+export const getCategoryPriceField = (category: string): PriceField => {
+    const cat = (category || '').toLowerCase();
+    if (isSittingRoom(cat) && !cat.includes('wall')) return 'sittingRoomTilePrice';
+    if (isToilet(cat) && cat.includes('wall')) return 'toiletWallTilePrice';
+    if (isToilet(cat) && cat.includes('floor')) return 'toiletFloorTilePrice';
+    if (cat.includes('kitchen') && cat.includes('wall')) return 'kitchenWallTilePrice';
+    if (cat.includes('kitchen') && cat.includes('floor')) return 'kitchenFloorTilePrice';
+    if (isExternal(cat)) return 'externalWallTilePrice';
+    if (isStep(cat)) return 'stepTilePrice';
+    if (cat.includes('wall')) return 'wallTilePrice';
+    if (cat.includes('bedroom') || cat.includes('room') || cat.includes('guest') || cat.includes('master')) return 'bedroomTilePrice';
+    return 'floorTilePrice';
+};
+
+export const getCategoryPrice = (category: string, settings: Settings): number => settings[getCategoryPriceField(category)];
+
+/** The Settings field holding the default price for well-known materials, or null if the material has none. */
+export const getMaterialPriceField = (item: string): PriceField | null => {
+    const name = (item || '').toLowerCase();
+    if (name.includes('white cement')) return 'whiteCementPrice';
+    if (name.includes('cement')) return 'cementPrice';
+    if (name.includes('sand')) return 'sharpSandPrice';
+    return null;
+};
+
+/**
+ * Resolves a raw tile line into a priced `Tile`:
+ *  - m² is the source of truth; cartons = ceil(m² / coverage rate). Cartons alone give m² = cartons × rate.
+ *  - size: stated size, else the configured default size for the area.
+ *  - unit price: explicit price > size rule (`tilePricesBySize`) > category default.
+ */
+export const resolveTile = (line: RawTileLine, settings: Settings): Tile => {
+    const category = (line.category || '').trim();
+    const ruleType = getTileType(category);
+    const tileType = ruleType === 'Unknown' && line.tileType ? line.tileType : ruleType;
+    const rate = getCoverageRate(category, settings);
+
+    const provenance: PriceProvenance = { source: 'category-default', coverageRate: rate };
+
+    const statedSqm = Number(line.sqm) || 0;
+    const statedCartons = Number(line.cartons) || 0;
+    let sqm = 0;
+    let cartons = 0;
+    if (statedSqm > 0) {
+        sqm = statedSqm;
+        cartons = calculateCartons(sqm, rate);
+        provenance.quantityFrom = 'sqm';
+        provenance.unroundedCartons = parseFloat((sqm / (rate || 1)).toFixed(4));
+    } else if (statedCartons > 0) {
+        cartons = statedCartons;
+        sqm = calculateSqmFromCartons(cartons, rate);
+        provenance.quantityFrom = 'cartons';
+    }
+
+    const size = line.size ? normalizeSize(line.size) : getDefaultSize(category, tileType, settings);
+    if (!line.size && size) provenance.defaultSizeApplied = true;
+
+    const explicitPrice = Number(line.unitPrice) || 0;
+    const sizeRule = findSizePriceRule(size, settings);
+    let unitPrice: number;
+    if (explicitPrice > 0) {
+        unitPrice = explicitPrice;
+        provenance.source = 'explicit';
+    } else if (sizeRule) {
+        unitPrice = sizeRule.price;
+        provenance.source = 'size-rule';
+        provenance.matchedSizeRule = { size: sizeRule.size, price: sizeRule.price };
+    } else {
+        const field = getCategoryPriceField(category);
+        unitPrice = settings[field];
+        provenance.settingsField = field;
+    }
+
+    return withWastage({ category, group: line.group || 'General', cartons, sqm, size, tileType, unitPrice, provenance }, settings);
+};
+
+/** Resolves a raw material line: explicit price > configured default > estimate > 0. */
+export const resolveMaterial = (line: RawMaterialLine, settings: Settings): Material => {
+    const explicitPrice = Number(line.unitPrice) || 0;
+    const field = getMaterialPriceField(line.item);
+    const estimate = Number(line.estimatedUnitPrice) || 0;
+
+    let unitPrice = 0;
+    let provenance: PriceProvenance;
+    if (explicitPrice > 0) {
+        unitPrice = explicitPrice;
+        provenance = { source: 'explicit' };
+    } else if (field) {
+        unitPrice = settings[field];
+        provenance = { source: 'material-default', settingsField: field };
+    } else {
+        unitPrice = estimate;
+        provenance = { source: estimate > 0 ? 'ai-estimate' : 'manual' };
+    }
+
+    return { item: (line.item || '').trim(), quantity: Number(line.quantity) || 0, unit: line.unit, unitPrice, provenance };
+};
+
+export const LAYING_PATTERNS: LayingPattern[] = ['Straight', 'Brick Bond', 'Diagonal', 'Herringbone'];
+
+/** Wastage % for a tile: its pattern's figure (if any) plus any large-format size surcharge. */
+export const getWastagePercentage = (tile: Pick<Tile, 'pattern' | 'size'>, settings: Settings): number => {
+    const patternPercentage = tile.pattern ? settings.wastageByPattern?.[tile.pattern] ?? 0 : 0;
+    const normalized = tile.size ? normalizeSize(tile.size).toLowerCase() : '';
+    const sizeRule = normalized ? (settings.wastageBySize || []).find(r => normalizeSize(r.size).toLowerCase() === normalized) : undefined;
+    return patternPercentage + (sizeRule ? sizeRule.percentage : 0);
+};
+
+/** Extra cartons needed on top of `tile.cartons` to cover the wastage allowance. */
+export const calculateWastageCartons = (tile: Pick<Tile, 'pattern' | 'size' | 'sqm' | 'cartons' | 'category'>, settings: Settings): number => {
+    const percentage = getWastagePercentage(tile, settings);
+    const sqm = Number(tile.sqm) || 0;
+    if (percentage <= 0 || sqm <= 0) return 0;
+    const grossCartons = calculateCartons(sqm * (1 + percentage / 100), getCoverageRate(tile.category, settings));
+    return Math.max(0, grossCartons - (Number(tile.cartons) || 0));
+};
+
+/** The tile with its wastage worked out from the current settings and stored on it. */
+export const withWastage = <T extends Tile>(tile: T, settings: Settings): T => ({
+    ...tile,
+    wastagePercentage: getWastagePercentage(tile, settings),
+    wastageCartons: calculateWastageCartons(tile, settings),
+});
+
+/** The wastage cartons stored on the tile; what totals, documents and exports use. */
+export const getWastageCartons = (tile: Pick<Tile, 'wastageCartons'>): number => Number(tile.wastageCartons) || 0;
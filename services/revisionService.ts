@@ -0,0 +1,172 @@
+import { QuotationData, Settings } from '../types';
+import { calculateTotals } from './calculationService';
+
+// Revisions of a quotation (Rev A, Rev B…) share the id of the first one. A quotation that was never
+// revised has no revision fields and is its own root.
+
+export const getRevisionRootId = (quotation: QuotationData) => quotation.rootQuotationId || quotation.id;
+
+// A, B, … Z, AA, AB, …
+const revisionCodeAt = (index: number): string =>
+    (index >= 26 ? revisionCodeAt(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+const compareCodes = (a?: string, b?: string) => (a || '').length - (b || '').length || (a || '').localeCompare(b || '');
+
+/** Every revision of the quotation, including itself, in revision order. */
+export const getRevisions = (quotation: QuotationData, quotations: QuotationData[]): QuotationData[] => {
+    const rootId = getRevisionRootId(quotation);
+    const revisions = quotations.filter(q => getRevisionRootId(q) === rootId);
+    if (!revisions.some(q => q.id === quotation.id)) revisions.push(quotation);
+    return revisions.sort((a, b) => compareCodes(a.revisionCode, b.revisionCode));
+};
+
+/** The quotation number with its revision, e.g. "QUO-2025-0007 Rev B". */
+export const formatQuotationReference = (quotation: QuotationData): string =>
+    [quotation.quotationNumber, quotation.revisionCode && `Rev ${quotation.revisionCode}`].filter(Boolean).join(' ');
+
+/**
+ * A new pending revision copied from `source`. When `source` had never been revised it becomes Rev A,
+ * returned as `source` so the caller can store it along with the new revision.
+ */
+export const createRevision = (source: QuotationData, quotations: QuotationData[]): { source: QuotationData; revision: QuotationData } => {
+    const rootId = getRevisionRootId(source);
+    const revisions = getRevisions(source, quotations);
+    const updatedSource = source.revisionCode ? source : { ...source, rootQuotationId: rootId, revisionCode: revisionCodeAt(0) };
+    const { updatedAt, revision: _revision, updatedBy, ...content } = source;
+    return {
+        source: updatedSource,
+        revision: {
+            ...content,
+            id: crypto.randomUUID(),
+            rootQuotationId: rootId,
+            revisionCode: revisionCodeAt(revisions.length),
+            date: Date.now(),
+            status: 'Pending',
+            invoiceId: undefined,
+            // Billing belongs to the revision that was invoiced
+            checklist: source.checklist?.map(({ invoiceId, ...item }) => item),
+        },
+    };
+};
+
+/**
+ * The quotations after accepting `accepted`: its other revisions that were pending or accepted are
+ * rejected, so only one revision of a quotation can be invoiced.
+ */
+export const acceptRevision = (accepted: QuotationData, quotations: QuotationData[]): QuotationData[] => {
+    const rootId = getRevisionRootId(accepted);
+    return quotations.map(q => {
+        if (q.id === accepted.id) return accepted;
+        if (getRevisionRootId(q) === rootId && (q.status === 'Pending' || q.status === 'Accepted')) return { ...q, status: 'Rejected' as const };
+        return q;
+    });
+};
+
+export type LineChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface RevisionLineDiff {
+    key: string;
+    label: string;
+    change: LineChange;
+    changedFields: string[];
+    before?: Record<string, string | number | undefined>; // Absent when the line was added
+    after?: Record<string, string | number | undefined>; // Absent when the line was removed
+    beforeAmount: number;
+    afterAmount: number;
+}
+
+export interface RevisionTotalDiff {
+    label: string;
+    before: number;
+    after: number;
+}
+
+export interface RevisionComparison {
+    tiles: RevisionLineDiff[];
+    materials: RevisionLineDiff[];
+    adjustments: RevisionLineDiff[];
+    totals: RevisionTotalDiff[];
+}
+
+interface LineSpec<T> {
+    key: (line: T) => string; // Lines with the same key in both revisions are the same line
+    label: (line: T) => string;
+    fields: (keyof T & string)[];
+    amount: (line: T) => number;
+}
+
+// Lines carry no ids; repeated keys are paired up in order
+const withOccurrence = <T>(lines: T[], key: (line: T) => string) => {
+    const seen = new Map<string, number>();
+    return lines.map(line => {
+        const base = key(line);
+        const count = seen.get(base) || 0;
+        seen.set(base, count + 1);
+        return { key: count ? `${base}#${count}` : base, line };
+    });
+};
+
+const pickFields = <T>(line: T, fields: (keyof T & string)[]) =>
+    Object.fromEntries(fields.map(field => [field, line[field] as unknown as string | number | undefined]));
+
+const compareLines = <T>(before: T[], after: T[], spec: LineSpec<T>): RevisionLineDiff[] => {
+    const beforeLines = withOccurrence(before, spec.key);
+    const afterByKey = new Map(withOccurrence(after, spec.key).map(entry => [entry.key, entry.line]));
+    const diffs: RevisionLineDiff[] = beforeLines.map(({ key, line }) => {
+        const other = afterByKey.get(key);
+        afterByKey.delete(key);
+        if (!other) {
+            return { key, label: spec.label(line), change: 'removed', changedFields: [], before: pickFields(line, spec.fields), beforeAmount: spec.amount(line), afterAmount: 0 };
+        }
+        const changedFields = spec.fields.filter(field => (line[field] ?? '') !== (other[field] ?? ''));
+        return {
+            key,
+            label: spec.label(other),
+            change: changedFields.length ? 'changed' : 'unchanged',
+            changedFields,
+            before: pickFields(line, spec.fields),
+            after: pickFields(other, spec.fields),
+            beforeAmount: spec.amount(line),
+            afterAmount: spec.amount(other),
+        };
+    });
+    afterByKey.forEach((line, key) => diffs.push({ key, label: spec.label(line), change: 'added', changedFields: [], after: pickFields(line, spec.fields), beforeAmount: 0, afterAmount: spec.amount(line) }));
+    return diffs;
+};
+
+/** Line-by-line and total differences going from revision `before` to revision `after`. */
+export const compareRevisions = (before: QuotationData, after: QuotationData, settings: Settings): RevisionComparison => {
+    const beforeTotals = calculateTotals(before, settings);
+    const afterTotals = calculateTotals(after, settings);
+    const total = (label: string, field: keyof typeof beforeTotals): RevisionTotalDiff => ({ label, before: beforeTotals[field], after: afterTotals[field] });
+
+    return {
+        tiles: compareLines(before.tiles, after.tiles, {
+            key: t => [t.group, t.category, t.tileType, t.size].join('|'),
+            label: t => [t.group, t.category, t.size].filter(Boolean).join(' · '),
+            fields: ['cartons', 'wastageCartons', 'sqm', 'unitPrice', 'pattern'],
+            amount: t => t.cartons * t.unitPrice,
+        }),
+        materials: compareLines(before.materials, after.materials, {
+            key: m => m.item.trim().toLowerCase(),
+            label: m => m.item,
+            fields: ['quantity', 'unit', 'unitPrice'],
+            amount: m => m.quantity * m.unitPrice,
+        }),
+        adjustments: compareLines(before.adjustments || [], after.adjustments || [], {
+            key: a => a.description.trim().toLowerCase(),
+            label: a => a.description || 'Adjustment',
+            fields: ['amount'],
+            amount: a => a.amount,
+        }),
+        totals: [
+            total('Tiles', 'totalTileCost'),
+            total('Wastage', 'wastageCost'),
+            total('Materials', 'totalMaterialCost'),
+            total('Workmanship & Maintenance', 'workmanshipAndMaintenance'),
+            total('Adjustments', 'totalAdjustments'),
+            total('Tax', 'taxAmount'),
+            total('Grand Total', 'grandTotal'),
+        ],
+    };
+};
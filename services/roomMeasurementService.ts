@@ -0,0 +1,51 @@
+import { Settings, Tile, RoomMeasurement } from '../types';
+import { resolveTile } from './pricingRules';
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+export interface RoomAreas {
+    floorSqm: number;
+    wallSqm: number;
+    skirtingSqm: number;
+    openingsSqm: number;
+}
+
+/**
+ * Areas for one room:
+ *  - floor = length × width
+ *  - walls = perimeter × height − door/window openings
+ *  - skirting = skirting run × `settings.skirtingHeight`
+ */
+export const calculateRoomAreas = (room: RoomMeasurement, settings: Settings): RoomAreas => {
+    const floorSqm = Math.max(0, (room.floorLength || 0) * (room.floorWidth || 0));
+    const openingsSqm = (room.openings || []).reduce((sum, o) => sum + (o.width || 0) * (o.height || 0), 0);
+    const grossWallSqm = (room.wallPerimeter || 0) * (room.wallHeight || 0);
+    const wallSqm = grossWallSqm > 0 ? Math.max(0, grossWallSqm - openingsSqm) : 0;
+    const skirtingSqm = Math.max(0, (room.skirtingRun || 0) * (settings.skirtingHeight || 0));
+
+    return { floorSqm: round2(floorSqm), wallSqm: round2(wallSqm), skirtingSqm: round2(skirtingSqm), openingsSqm: round2(openingsSqm) };
+};
+
+// Wet areas are quoted as "Toilet Floor"/"Kitchen Floor"; other rooms keep their name for the floor line
+const needsFloorSuffix = (name: string) => /toilet|bathroom|restroom|kitchen/i.test(name) && !/floor/i.test(name);
+
+/** Turns measured rooms into priced tile lines (floor, walls and skirting) through the shared pricing rules. */
+export const roomsToTiles = (rooms: RoomMeasurement[], settings: Settings): Tile[] => {
+    const tiles: Tile[] = [];
+    rooms.forEach(room => {
+        const name = room.name.trim() || 'Room';
+        const group = room.group?.trim() || 'General';
+        const { floorSqm, wallSqm, skirtingSqm } = calculateRoomAreas(room, settings);
+
+        if (floorSqm > 0) {
+            tiles.push(resolveTile({ category: needsFloorSuffix(name) ? `${name} Floor` : name, group, sqm: floorSqm }, settings));
+        }
+        if (wallSqm > 0) {
+            tiles.push(resolveTile({ category: `${name} Wall`, group, sqm: wallSqm, tileType: 'Wall' }, settings));
+        }
+        if (skirtingSqm > 0) {
+            tiles.push(resolveTile({ category: `${name} Skirting`, group, sqm: skirtingSqm, tileType: 'Floor' }, settings));
+        }
+    });
+    return tiles;
+};
@@ -0,0 +1,323 @@
+import { Client, ClientDetails, Expense, InvoiceData, QuotationData, Settings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { withWastage } from './pricingRules';
+
+/**
+ * Version of the stored data shapes. Bump it and add an entry to MIGRATIONS whenever a stored
+ * shape changes. Version 1 is everything saved before versions were recorded.
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export type SchemaCollection = 'quotations' | 'invoices' | 'clients' | 'expenses' | 'settings';
+
+export type SchemaVersions = Record<SchemaCollection, number>;
+
+export interface DataSet {
+    quotations: QuotationData[];
+    invoices: InvoiceData[];
+    clients: Client[];
+    expenses: Expense[];
+    settings: Settings;
+}
+
+export interface RepairedRecord {
+    collection: SchemaCollection;
+    id: string;
+    label: string; // e.g. the quotation number, to show the user
+    fixes: string[];
+}
+
+export interface MigrationReport {
+    fromVersion: number; // Oldest version found among the collections
+    toVersion: number;
+    repaired: RepairedRecord[];
+    dropped: { collection: SchemaCollection; reason: string }[];
+}
+
+interface MigrationContext {
+    settings: Settings; // Already migrated, for defaults that follow the user's settings
+}
+
+type RecordMigration = (record: any, context: MigrationContext) => any;
+
+// Removed from tiles and materials when the debug confidence score was hidden
+const withoutConfidence = <T extends object>(lines: T[]): T[] =>
+    lines.map(line => {
+        if (!line || typeof line !== 'object' || !('confidence' in line)) return line;
+        const { confidence, ...rest } = line as any;
+        return rest;
+    });
+
+// Wastage used to be worked out from the live settings, and only for tiles with a pattern. Stored
+// with the settings in force at upgrade time so documents keep the totals they had.
+const withStoredWastage = (tiles: unknown, settings: Settings) =>
+    Array.isArray(tiles)
+        ? tiles.map(tile => isRecord(tile) && tile.pattern && tile.wastageCartons === undefined ? withWastage(tile as any, settings) : tile)
+        : tiles;
+
+/** Upgrades records from version `n - 1` to `n`, keyed by `n`. Collections a step does not touch are left out. */
+const MIGRATIONS: Record<number, Partial<Record<Exclude<SchemaCollection, 'settings'>, RecordMigration>>> = {
+    // The per-quotation visibility flags, `group` on tiles, and dropping `confidence`
+    2: {
+        quotations: (q, { settings }) => ({
+            ...q,
+            status: q.status || 'Pending',
+            checklist: Array.isArray(q.checklist) ? q.checklist : [],
+            adjustments: Array.isArray(q.adjustments) ? q.adjustments : [],
+            tiles: Array.isArray(q.tiles) ? withoutConfidence(q.tiles) : q.tiles,
+            materials: Array.isArray(q.materials) ? withoutConfidence(q.materials) : q.materials,
+            invoiceId: q.invoiceId || undefined,
+            isBulkGenerated: q.isBulkGenerated || false,
+            depositPercentage: q.depositPercentage ?? null,
+            showMaterials: q.showMaterials ?? true,
+            showAdjustments: q.showAdjustments ?? true,
+            showBankDetails: q.showBankDetails ?? true,
+            showTerms: q.showTerms ?? settings.showTermsAndConditions,
+            showWorkmanship: q.showWorkmanship ?? true,
+            showMaintenance: q.showMaintenance ?? settings.showMaintenance,
+            showTax: q.showTax ?? settings.showTax,
+            showCostSummary: q.showCostSummary ?? true,
+            clientDetails: isRecord(q.clientDetails) ? {
+                ...q.clientDetails,
+                showClientName: q.clientDetails.showClientName ?? true,
+                showClientAddress: q.clientDetails.showClientAddress ?? true,
+                showClientPhone: q.clientDetails.showClientPhone ?? true,
+                showProjectName: q.clientDetails.showProjectName ?? true,
+            } : q.clientDetails,
+        }),
+        invoices: (invoice) => ({
+            ...invoice,
+            tiles: Array.isArray(invoice.tiles) ? withoutConfidence(invoice.tiles) : invoice.tiles,
+            materials: Array.isArray(invoice.materials) ? withoutConfidence(invoice.materials) : invoice.materials,
+        }),
+    },
+    // Wastage stored on tile lines
+    3: {
+        quotations: (q, { settings }) => ({ ...q, tiles: withStoredWastage(q.tiles, settings) }),
+        invoices: (invoice, { settings }) => ({ ...invoice, tiles: withStoredWastage(invoice.tiles, settings) }),
+    },
+};
+
+// Validation: checks the invariants the app relies on and repairs what it can, noting each fix
+
+type Fix = (message: string) => void;
+
+const QUOTATION_STATUSES: QuotationData['status'][] = ['Pending', 'Accepted', 'Rejected', 'Invoiced'];
+const INVOICE_STATUSES: InvoiceData['status'][] = ['Unpaid', 'Partially Paid', 'Paid', 'Overdue', 'Cancelled'];
+
+const isRecord = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const ensureId = (record: Record<string, any>, fix: Fix) => {
+    if (typeof record.id !== 'string' || !record.id) {
+        record.id = crypto.randomUUID();
+        fix('missing id, assigned a new one');
+    }
+};
+
+const ensureNumber = (record: Record<string, any>, field: string, fallback: number, fix: Fix) => {
+    if (typeof record[field] === 'number' && Number.isFinite(record[field])) return;
+    const parsed = Number(record[field]);
+    record[field] = record[field] !== undefined && record[field] !== null && record[field] !== '' && Number.isFinite(parsed) ? parsed : fallback;
+    fix(`${field} was not a number`);
+};
+
+const ensureString = (record: Record<string, any>, field: string, fix: Fix) => {
+    if (typeof record[field] === 'string') return;
+    record[field] = record[field] === undefined || record[field] === null ? '' : String(record[field]);
+    fix(`${field} was not text`);
+};
+
+const ensureTimestamp = (record: Record<string, any>, field: string, fix: Fix) => {
+    if (typeof record[field] === 'number' && Number.isFinite(record[field])) return;
+    const parsed = typeof record[field] === 'string' ? Date.parse(record[field]) : NaN;
+    record[field] = Number.isFinite(parsed) ? parsed : Date.now();
+    fix(Number.isFinite(parsed) ? `${field} converted to a timestamp` : `${field} was missing or invalid, set to today`);
+};
+
+const ensureArray = (record: Record<string, any>, field: string, fix: Fix, optional = false) => {
+    if (Array.isArray(record[field])) {
+        const objects = record[field].filter(isRecord);
+        if (objects.length !== record[field].length) {
+            record[field] = objects;
+            fix(`removed invalid ${field} entries`);
+        }
+        return;
+    }
+    if (optional && record[field] === undefined) return;
+    record[field] = [];
+    fix(`${field} was missing`);
+};
+
+const ensureClientDetails = (record: Record<string, any>, fix: Fix) => {
+    if (!isRecord(record.clientDetails)) {
+        record.clientDetails = {};
+        fix('client details were missing');
+    }
+    const details: Partial<ClientDetails> = { ...record.clientDetails };
+    const missing = (['clientName', 'clientAddress', 'clientPhone', 'projectName'] as const).filter(field => typeof details[field] !== 'string');
+    const flags = (['showClientName', 'showClientAddress', 'showClientPhone', 'showProjectName'] as const).filter(field => typeof details[field] !== 'boolean');
+    if (missing.length === 0 && flags.length === 0) return;
+    missing.forEach(field => { details[field] = details[field] == null ? '' : String(details[field]); });
+    flags.forEach(field => { details[field] = true; });
+    record.clientDetails = details;
+    if (missing.length > 0) fix(`client ${missing.join(', ')} filled in`);
+    if (flags.length > 0) fix('client detail visibility reset to shown');
+};
+
+const ensureLines = (record: Record<string, any>, fix: Fix) => {
+    ensureArray(record, 'tiles', fix);
+    ensureArray(record, 'materials', fix);
+    let lineFixed = false;
+    const numeric = (line: Record<string, any>, fields: string[]) => {
+        const broken = fields.filter(field => typeof line[field] !== 'number' || !Number.isFinite(line[field]));
+        if (broken.length === 0) return line;
+        lineFixed = true;
+        return { ...line, ...Object.fromEntries(broken.map(field => [field, Number(line[field]) || 0])) };
+    };
+    const tiles = record.tiles.map((tile: Record<string, any>) => numeric(tile, ['cartons', 'sqm', 'unitPrice']));
+    const materials = record.materials.map((material: Record<string, any>) => numeric(material, ['quantity', 'unitPrice']));
+    if (lineFixed) {
+        record.tiles = tiles;
+        record.materials = materials;
+        fix('non-numeric quantities or prices on tile or material lines corrected');
+    }
+};
+
+const validateQuotation = (q: Record<string, any>, fix: Fix) => {
+    ensureId(q, fix);
+    ensureTimestamp(q, 'date', fix);
+    if (!QUOTATION_STATUSES.includes(q.status)) {
+        q.status = 'Pending';
+        fix('unknown status, set to Pending');
+    }
+    ensureClientDetails(q, fix);
+    ensureLines(q, fix);
+    ensureArray(q, 'adjustments', fix);
+    ensureArray(q, 'checklist', fix);
+    ensureNumber(q, 'workmanshipRate', 0, fix);
+    ensureNumber(q, 'maintenance', 0, fix);
+};
+
+const validateInvoice = (invoice: Record<string, any>, fix: Fix) => {
+    ensureId(invoice, fix);
+    ensureString(invoice, 'invoiceNumber', fix);
+    ensureString(invoice, 'quotationId', fix);
+    ensureTimestamp(invoice, 'invoiceDate', fix);
+    ensureTimestamp(invoice, 'dueDate', fix);
+    if (!INVOICE_STATUSES.includes(invoice.status)) {
+        invoice.status = 'Unpaid';
+        fix('unknown status, set to Unpaid');
+    }
+    ensureClientDetails(invoice, fix);
+    ensureLines(invoice, fix);
+    ensureNumber(invoice, 'workmanshipRate', 0, fix);
+    ensureNumber(invoice, 'maintenance', 0, fix);
+    ['paymentTerms', 'bankDetails', 'invoiceNotes'].forEach(field => ensureString(invoice, field, fix));
+    ['adjustments', 'payments', 'creditNotes', 'lateFees', 'reminders'].forEach(field => ensureArray(invoice, field, fix, true));
+};
+
+const validateClient = (client: Record<string, any>, fix: Fix) => {
+    ensureId(client, fix);
+    ['name', 'address', 'phone'].forEach(field => ensureString(client, field, fix));
+    ensureArray(client, 'interactions', fix, true);
+};
+
+const validateExpense = (expense: Record<string, any>, fix: Fix) => {
+    ensureId(expense, fix);
+    ensureTimestamp(expense, 'date', fix);
+    ensureNumber(expense, 'amount', 0, fix);
+    ['category', 'description'].forEach(field => ensureString(expense, field, fix));
+};
+
+const VALIDATORS: Record<Exclude<SchemaCollection, 'settings'>, { validate: (record: Record<string, any>, fix: Fix) => void; label: (record: any) => string }> = {
+    quotations: { validate: validateQuotation, label: q => q.quotationNumber || q.clientDetails?.clientName || 'Quotation' },
+    invoices: { validate: validateInvoice, label: i => i.invoiceNumber || 'Invoice' },
+    clients: { validate: validateClient, label: c => c.name || 'Client' },
+    expenses: { validate: validateExpense, label: e => e.description || 'Expense' },
+};
+
+const normalizeVersions = (versions: Partial<SchemaVersions> | number): SchemaVersions => {
+    const versionOf = (collection: SchemaCollection) => {
+        const version = typeof versions === 'number' ? versions : versions[collection];
+        return typeof version === 'number' && version >= 1 ? version : 1;
+    };
+    return {
+        quotations: versionOf('quotations'),
+        invoices: versionOf('invoices'),
+        clients: versionOf('clients'),
+        expenses: versionOf('expenses'),
+        settings: versionOf('settings'),
+    };
+};
+
+/**
+ * Brings data saved at older schema versions up to CURRENT_SCHEMA_VERSION, one migration step at a
+ * time, then validates every record. Records that needed no changes are returned as the same objects,
+ * so callers can write back only what changed. Throws if the data comes from a newer version of the app.
+ */
+export const migrateData = (data: Partial<Record<SchemaCollection, unknown>>, versions: Partial<SchemaVersions> | number): { data: DataSet; report: MigrationReport } => {
+    const from = normalizeVersions(versions);
+    const newest = Math.max(...Object.values(from));
+    if (newest > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`This data was saved by a newer version of the app (schema ${newest}). Please update the app first.`);
+    }
+
+    const report: MigrationReport = { fromVersion: Math.min(...Object.values(from)), toVersion: CURRENT_SCHEMA_VERSION, repaired: [], dropped: [] };
+
+    const settings: Settings = { ...DEFAULT_SETTINGS, ...(isRecord(data.settings) ? data.settings : {}) };
+    const context: MigrationContext = { settings };
+
+    const migrateCollection = <T>(collection: Exclude<SchemaCollection, 'settings'>): T[] => {
+        const raw = data[collection];
+        if (raw === undefined) return [];
+        if (!Array.isArray(raw)) {
+            report.dropped.push({ collection, reason: `${collection} was not a list` });
+            return [];
+        }
+
+        return raw.flatMap((original, index) => {
+            if (!isRecord(original)) {
+                report.dropped.push({ collection, reason: `entry ${index + 1} was not a record` });
+                return [];
+            }
+            let record: Record<string, any> = original;
+            for (let version = from[collection] + 1; version <= CURRENT_SCHEMA_VERSION; version++) {
+                const step = MIGRATIONS[version]?.[collection];
+                if (step) record = step(record, context);
+            }
+
+            const fixes: string[] = [];
+            const candidate = { ...record };
+            VALIDATORS[collection].validate(candidate, message => fixes.push(message));
+            if (fixes.length > 0) {
+                report.repaired.push({ collection, id: candidate.id, label: VALIDATORS[collection].label(candidate), fixes });
+                record = candidate;
+            }
+            return [record as T];
+        });
+    };
+
+    return {
+        data: {
+            quotations: migrateCollection<QuotationData>('quotations'),
+            invoices: migrateCollection<InvoiceData>('invoices'),
+            clients: migrateCollection<Client>('clients'),
+            expenses: migrateCollection<Expense>('expenses'),
+            settings,
+        },
+        report,
+    };
+};
+
+export const currentSchemaVersions = (): SchemaVersions => normalizeVersions(CURRENT_SCHEMA_VERSION);
+
+/** A short summary of repaired and dropped records for the user, or null when there is nothing to report. */
+export const formatMigrationReport = (report: MigrationReport): string | null => {
+    if (report.repaired.length === 0 && report.dropped.length === 0) return null;
+    const lines = [
+        ...report.repaired.slice(0, 10).map(r => `• ${r.label} (${r.collection}): ${r.fixes.join('; ')}`),
+        ...(report.repaired.length > 10 ? [`• …and ${report.repaired.length - 10} more`] : []),
+        ...report.dropped.map(d => `• Skipped from ${d.collection}: ${d.reason}`),
+    ];
+    return `${report.repaired.length} record${report.repaired.length !== 1 ? 's were' : ' was'} repaired${report.dropped.length ? ` and ${report.dropped.length} skipped` : ''}:\n${lines.join('\n')}`;
+};
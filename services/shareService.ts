@@ -0,0 +1,124 @@
+import { InvoiceData, QuotationData, Settings } from '../types';
+import { calculateTotals } from './calculationService';
+import { getInvoiceBalance } from './paymentService';
+import { getInvoicePdfBlob, getQuotationPdfBlob } from './exportService';
+
+const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', minimumFractionDigits: 0 }).format(amount);
+
+/**
+ * Puts a phone number in the international digits-only format wa.me expects, e.g.
+ * "0803 123 4567" → "2348031234567". Numbers written with "+" or "00" keep their own country code.
+ * Returns an empty string when there are too few digits to be a phone number.
+ */
+export const normalizePhoneNumber = (phone: string, countryCode: string = '234'): string => {
+    const trimmed = (phone || '').trim();
+    let digits = trimmed.replace(/\D/g, '');
+    const code = (countryCode || '').replace(/\D/g, '');
+
+    if (trimmed.startsWith('+')) {
+        // Already international
+    } else if (digits.startsWith('00')) {
+        digits = digits.slice(2);
+    } else if (code && digits.startsWith(code) && digits.length > code.length + 8) {
+        // Already carries the country code without a "+"
+    } else if (digits.startsWith('0')) {
+        digits = code + digits.slice(1);
+    } else if (code) {
+        digits = code + digits;
+    }
+
+    return digits.length >= 8 ? digits : '';
+};
+
+/** A wa.me link with the text pre-filled; without a number WhatsApp asks which chat to send it to. */
+export const buildWhatsAppLink = (text: string, phone?: string): string => {
+    const number = phone || '';
+    return `https://wa.me/${number}?text=${encodeURIComponent(text)}`;
+};
+
+// WhatsApp renders *text* as bold
+export const buildQuotationShareText = (data: QuotationData, settings: Settings): string => {
+    const summary = calculateTotals(data, settings);
+    const project = data.clientDetails.projectName ? ` for the ${data.clientDetails.projectName} project` : '';
+    return [
+        `Hello ${data.clientDetails.clientName || 'there'},`,
+        '',
+        `Here is your quotation${project} from ${settings.companyName}.`,
+        '',
+        ...(data.quotationNumber ? [`*Quotation:* ${data.quotationNumber}`] : []),
+        `*Date:* ${new Date(data.date).toLocaleDateString()}`,
+        `*Total Estimated Cost:* ${formatCurrency(summary.grandTotal)}`,
+        ...(data.depositPercentage && summary.depositAmount > 0 ? [`*Deposit Required (${data.depositPercentage}%):* ${formatCurrency(summary.depositAmount)}`] : []),
+        '',
+        'Please reply here if you have any questions.',
+        '',
+        settings.companyName,
+        settings.companyPhone,
+    ].join('\n');
+};
+
+export const buildInvoiceShareText = (invoice: InvoiceData, settings: Settings): string => {
+    const summary = calculateTotals(invoice, settings);
+    const balance = getInvoiceBalance(invoice, settings);
+    const paymentDetails = invoice.bankDetails || settings.defaultBankDetails;
+    return [
+        `Hello ${invoice.clientDetails.clientName || 'there'},`,
+        '',
+        `Here is invoice ${invoice.invoiceNumber} from ${settings.companyName}.`,
+        '',
+        ...(invoice.stage ? [`*Stage:* ${invoice.stage.label}`] : []),
+        `*Invoice Total:* ${formatCurrency(summary.grandTotal)}`,
+        `*Balance Due:* ${formatCurrency(balance)}`,
+        `*Due Date:* ${new Date(invoice.dueDate).toLocaleDateString()}`,
+        ...(paymentDetails ? ['', '*Payment details:*', paymentDetails] : []),
+        '',
+        'Thank you for your business.',
+        settings.companyName,
+    ].join('\n');
+};
+
+/**
+ * Shares a PDF through the Web Share API where the device can share files (typically to WhatsApp on
+ * mobile), otherwise opens a WhatsApp chat with the client and the text summary.
+ */
+const shareViaWhatsApp = async (getBlob: () => Promise<Blob>, fileName: string, title: string, text: string, clientPhone: string, settings: Settings) => {
+    try {
+        if (typeof navigator.canShare === 'function') {
+            const file = new File([await getBlob()], fileName, { type: 'application/pdf' });
+            if (navigator.canShare({ files: [file] })) {
+                await navigator.share({ files: [file], title, text });
+                return;
+            }
+        }
+    } catch (error) {
+        // The user closed the share sheet; nothing else to do
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        console.error('Web Share failed, falling back to a WhatsApp link', error);
+    }
+
+    const link = buildWhatsAppLink(text, normalizePhoneNumber(clientPhone, settings.defaultCountryCode));
+    if (!window.open(link, '_blank')) {
+        window.location.href = link;
+    }
+};
+
+export const shareQuotationViaWhatsApp = (data: QuotationData, settings: Settings) =>
+    shareViaWhatsApp(
+        () => getQuotationPdfBlob(data, settings),
+        `${settings.documentTitle.toLowerCase()}-${data.quotationNumber || data.id}.pdf`,
+        `Quotation ${data.quotationNumber || ''}`.trim(),
+        buildQuotationShareText(data, settings),
+        data.clientDetails.clientPhone,
+        settings
+    );
+
+export const shareInvoiceViaWhatsApp = (invoice: InvoiceData, settings: Settings) =>
+    shareViaWhatsApp(
+        () => getInvoicePdfBlob(invoice, settings),
+        `${invoice.invoiceNumber}.pdf`,
+        `Invoice ${invoice.invoiceNumber}`,
+        buildInvoiceShareText(invoice, settings),
+        invoice.clientDetails.clientPhone,
+        settings
+    );
@@ -0,0 +1,136 @@
+import { Settings } from '../types';
+import { BackupFile, createBackup } from './backupService';
+import { getAuditLog } from './auditService';
+import { StoredSnapshot, deleteSnapshots, getMeta, getSnapshotData, getSnapshots, putMeta, putSnapshot, readStoredData } from './storageService';
+
+export type SnapshotInfo = StoredSnapshot;
+
+const DIRECTORY_KEY = 'snapshotDirectory'; // FileSystemDirectoryHandle the user picked, kept in the meta store
+const LAST_EXPORT_KEY = 'lastBackupExportedAt';
+
+// Parts of the File System Access API that are not in TypeScript's DOM types yet
+type PermissionedDirectoryHandle = FileSystemDirectoryHandle & {
+    queryPermission?: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+    requestPermission?: (descriptor: { mode: 'readwrite' }) => Promise<PermissionState>;
+};
+
+type DirectoryPickerWindow = Window & {
+    showDirectoryPicker?: (options: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<PermissionedDirectoryHandle>;
+};
+
+const pickerWindow = () => window as DirectoryPickerWindow;
+
+export const isDirectoryPickerSupported = () => typeof pickerWindow().showDirectoryPicker === 'function';
+
+export const getSnapshotDirectory = () => getMeta<PermissionedDirectoryHandle>(DIRECTORY_KEY);
+
+/** Asks the user for a folder to write snapshots to. Must be called from a click. */
+export const chooseSnapshotDirectory = async (): Promise<string | null> => {
+    const { showDirectoryPicker } = pickerWindow();
+    if (!showDirectoryPicker) throw new Error('This browser cannot save snapshots to a folder.');
+    try {
+        const handle = await showDirectoryPicker.call(window, { id: 'hanifgold-snapshots', mode: 'readwrite' });
+        await putMeta(DIRECTORY_KEY, handle);
+        return handle.name;
+    } catch (error) {
+        // The user closed the picker
+        if (error instanceof DOMException && error.name === 'AbortError') return null;
+        throw error;
+    }
+};
+
+export const clearSnapshotDirectory = () => putMeta(DIRECTORY_KEY, undefined);
+
+// Browsers ask again for folder access in each session; asking needs a click, so automatic snapshots only check
+const getWritableDirectory = async (askPermission: boolean): Promise<PermissionedDirectoryHandle | null> => {
+    const handle = await getSnapshotDirectory();
+    if (!handle) return null;
+    let permission = (await handle.queryPermission?.({ mode: 'readwrite' })) ?? 'granted';
+    if (permission === 'prompt' && askPermission) {
+        permission = (await handle.requestPermission?.({ mode: 'readwrite' })) ?? 'denied';
+    }
+    return permission === 'granted' ? handle : null;
+};
+
+/** Snapshot summaries, newest first. */
+export const listSnapshots = async (): Promise<SnapshotInfo[]> =>
+    (await getSnapshots()).sort((a, b) => b.createdAt - a.createdAt);
+
+export const isSnapshotDue = (snapshots: SnapshotInfo[], settings: Settings, now: number = Date.now()): boolean => {
+    if (!settings.autoSnapshotEnabled) return false;
+    const latest = snapshots[0]?.createdAt ?? 0;
+    return now - latest >= Math.max(1, settings.snapshotIntervalHours) * 60 * 60 * 1000;
+};
+
+/**
+ * Saves a snapshot of everything stored, to the chosen folder when it is writable and to IndexedDB
+ * otherwise, then deletes the oldest snapshots beyond `snapshotKeepCount`. Pass `interactive` when
+ * called from a click so the browser may ask for folder access again.
+ */
+export const takeSnapshot = async (settings: Settings, interactive = false): Promise<SnapshotInfo> => {
+    const [{ data, numberSequences }, auditLog] = await Promise.all([readStoredData(), getAuditLog()]);
+    const backup = createBackup(data, numberSequences, auditLog);
+    const createdAt = Date.now();
+    const snapshot: SnapshotInfo = {
+        id: crypto.randomUUID(),
+        createdAt,
+        counts: { quotations: data.quotations.length, invoices: data.invoices.length, clients: data.clients.length, expenses: data.expenses.length },
+        location: 'indexeddb',
+    };
+
+    const directory = await getWritableDirectory(interactive).catch(() => null);
+    if (directory) {
+        try {
+            const fileName = `Hanifgold_Snapshot_${new Date(createdAt).toISOString().replace(/[:.]/g, '-')}.json`;
+            const writable = await (await directory.getFileHandle(fileName, { create: true })).createWritable();
+            await writable.write(JSON.stringify(backup));
+            await writable.close();
+            await putSnapshot({ ...snapshot, location: 'directory', fileName });
+            await rotateSnapshots(settings.snapshotKeepCount);
+            return { ...snapshot, location: 'directory', fileName };
+        } catch (error) {
+            console.error('Failed to write snapshot to the chosen folder, keeping it in the browser instead', error);
+        }
+    }
+
+    await putSnapshot(snapshot, backup);
+    await rotateSnapshots(settings.snapshotKeepCount);
+    return snapshot;
+};
+
+const rotateSnapshots = async (keepCount: number) => {
+    const expired = (await listSnapshots()).slice(Math.max(1, keepCount));
+    if (expired.length === 0) return;
+    const directory = await getWritableDirectory(false).catch(() => null);
+    if (directory) {
+        await Promise.all(expired
+            .filter(s => s.location === 'directory' && s.fileName)
+            .map(s => directory.removeEntry(s.fileName as string).catch(error => console.error('Failed to delete old snapshot file', error))));
+    }
+    await deleteSnapshots(expired.map(s => s.id));
+};
+
+/** The snapshot's backup contents, ready for the restore preview. */
+export const loadSnapshot = async (snapshot: SnapshotInfo): Promise<BackupFile> => {
+    if (snapshot.location === 'indexeddb') {
+        const data = await getSnapshotData<BackupFile>(snapshot.id);
+        if (!data) throw new Error('This snapshot is missing its data.');
+        return data;
+    }
+    const directory = await getWritableDirectory(true);
+    if (!directory) throw new Error('Allow access to the snapshot folder to restore this snapshot.');
+    const file = await (await directory.getFileHandle(snapshot.fileName as string)).getFile();
+    return JSON.parse(await file.text());
+};
+
+export const recordBackupExported = () => putMeta(LAST_EXPORT_KEY, Date.now());
+
+export const getLastBackupExportedAt = () => getMeta<number>(LAST_EXPORT_KEY);
+
+/** Whole days since the last exported backup, or null when the reminder is turned off or not yet due. */
+export const getBackupOverdueDays = (lastExportedAt: number | undefined, settings: Settings, now: number = Date.now()): number | null => {
+    if (!settings.backupReminderDays || settings.backupReminderDays <= 0) return null;
+    if (lastExportedAt === undefined) return Infinity;
+    const days = Math.floor((now - lastExportedAt) / (24 * 60 * 60 * 1000));
+    return days >= settings.backupReminderDays ? days : null;
+};
@@ -0,0 +1,150 @@
+import { Client, InvoiceData, QuotationData, Settings } from '../types';
+import { calculateTotals } from './calculationService';
+import { getInvoicePayments } from './paymentService';
+
+export type StatementEntryType = 'quotation' | 'invoice' | 'lateFee' | 'payment' | 'creditNote' | 'refund';
+
+export interface StatementEntry {
+    date: number; // timestamp
+    type: StatementEntryType;
+    reference: string;
+    description: string;
+    debit: number; // Increases what the client owes
+    credit: number; // Reduces what the client owes
+    balance: number; // Running balance after this entry
+}
+
+export interface ClientStatement {
+    client: Client;
+    from?: number; // timestamp, start of the period (inclusive)
+    to?: number; // timestamp, end of the period (inclusive)
+    openingBalance: number; // Balance brought forward from before `from`
+    entries: StatementEntry[];
+    totalDebits: number;
+    totalCredits: number;
+    closingBalance: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', minimumFractionDigits: 0 }).format(amount);
+
+type Movement = Omit<StatementEntry, 'balance'>;
+
+// Every document and money movement for one client. Quotations are listed for reference and move no money.
+const getClientMovements = (clientId: string, quotations: QuotationData[], invoices: InvoiceData[], settings: Settings): Movement[] => {
+    const movements: Movement[] = [];
+
+    quotations
+        .filter(q => q.clientDetails.clientId === clientId)
+        .forEach(q => movements.push({
+            date: q.date,
+            type: 'quotation',
+            reference: q.quotationNumber || q.id.substring(0, 8),
+            description: `Quotation${q.clientDetails.projectName ? ` – ${q.clientDetails.projectName}` : ''} (${q.status}, ${formatCurrency(calculateTotals(q, settings).grandTotal)})`,
+            debit: 0,
+            credit: 0,
+        }));
+
+    invoices
+        .filter(i => i.clientDetails.clientId === clientId)
+        .forEach(invoice => {
+            const { grandTotal, lateFeeTotal } = calculateTotals(invoice, settings);
+            movements.push({
+                date: invoice.invoiceDate,
+                type: 'invoice',
+                reference: invoice.invoiceNumber,
+                description: `${invoice.stage ? `Invoice – ${invoice.stage.label}` : 'Invoice'}${invoice.status === 'Cancelled' ? ' (cancelled)' : ''}`,
+                debit: round2(grandTotal - lateFeeTotal),
+                credit: 0,
+            });
+            (invoice.lateFees || []).filter(f => !f.waived).forEach(fee => movements.push({
+                date: fee.date,
+                type: 'lateFee',
+                reference: invoice.invoiceNumber,
+                description: fee.description,
+                debit: fee.amount,
+                credit: 0,
+            }));
+            getInvoicePayments(invoice, settings).forEach(payment => movements.push({
+                date: payment.date,
+                type: 'payment',
+                reference: payment.receiptNumber || invoice.invoiceNumber,
+                description: `Payment for ${invoice.invoiceNumber} (${payment.method}${payment.reference ? `, ${payment.reference}` : ''})`,
+                debit: 0,
+                credit: payment.amount,
+            }));
+            (invoice.creditNotes || []).forEach(creditNote => {
+                movements.push({
+                    date: creditNote.date,
+                    type: 'creditNote',
+                    reference: creditNote.creditNoteNumber || invoice.invoiceNumber,
+                    description: `Credit note for ${invoice.invoiceNumber}: ${creditNote.reason}`,
+                    debit: 0,
+                    credit: creditNote.amount,
+                });
+                // Cash handed back puts the over-credited amount back on the account
+                if (creditNote.refundAmount > 0) {
+                    movements.push({
+                        date: creditNote.date,
+                        type: 'refund',
+                        reference: creditNote.creditNoteNumber || invoice.invoiceNumber,
+                        description: `Refund paid for ${invoice.invoiceNumber}`,
+                        debit: creditNote.refundAmount,
+                        credit: 0,
+                    });
+                }
+            });
+        });
+
+    return movements;
+};
+
+/**
+ * Statement of account for a client: everything in the period in date order with a running balance,
+ * starting from the balance brought forward. Pass `to` as the end of the last day to include it.
+ */
+export const generateClientStatement = (
+    client: Client,
+    quotations: QuotationData[],
+    invoices: InvoiceData[],
+    settings: Settings,
+    from?: number,
+    to?: number
+): ClientStatement => {
+    const movements = getClientMovements(client.id, quotations, invoices, settings).sort((a, b) => a.date - b.date);
+
+    const openingBalance = round2(movements
+        .filter(m => from !== undefined && m.date < from)
+        .reduce((sum, m) => sum + m.debit - m.credit, 0));
+
+    let balance = openingBalance;
+    const entries: StatementEntry[] = movements
+        .filter(m => (from === undefined || m.date >= from) && (to === undefined || m.date <= to))
+        .map(m => {
+            balance = round2(balance + m.debit - m.credit);
+            return { ...m, balance };
+        });
+
+    return {
+        client,
+        from,
+        to,
+        openingBalance,
+        entries,
+        totalDebits: round2(entries.reduce((sum, e) => sum + e.debit, 0)),
+        totalCredits: round2(entries.reduce((sum, e) => sum + e.credit, 0)),
+        closingBalance: balance,
+    };
+};
+
+/** "1/1/2025 – 31/3/2025", or an open-ended description when either end is not set. */
+export const formatStatementPeriod = (statement: ClientStatement): string => {
+    const from = statement.from !== undefined ? new Date(statement.from).toLocaleDateString() : null;
+    const to = statement.to !== undefined ? new Date(statement.to).toLocaleDateString() : null;
+    if (from && to) return `${from} – ${to}`;
+    if (from) return `From ${from}`;
+    if (to) return `Up to ${to}`;
+    return 'All transactions';
+};
@@ -0,0 +1,369 @@
+import { AuditEntry, Client, Expense, InvoiceData, QuotationData, Settings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { DataSet, MigrationReport, SchemaVersions, currentSchemaVersions, migrateData } from './schemaService';
+import { NumberSequences } from './numberingService';
+
+const DB_NAME = 'hanifgold';
+const DB_VERSION = 4;
+
+// Keys the app stored everything under before IndexedDB; read once by `migrateFromLocalStorage`
+export const LEGACY_STORAGE_KEYS = {
+    quotations: 'tilingAiQuotations',
+    invoices: 'tilingAiInvoices',
+    clients: 'tilingAiClients',
+    expenses: 'tilingAiExpenses',
+    settings: 'tilingAiSettings',
+};
+
+export type CollectionName = 'quotations' | 'invoices' | 'clients' | 'expenses';
+
+// Key-value store for single records such as settings and migration markers
+const META_STORE = 'meta';
+const MIGRATED_KEY = 'migratedFromLocalStorage';
+const SCHEMA_VERSIONS_KEY = 'schemaVersions'; // Schema version each collection was last written at
+const NUMBER_SEQUENCES_KEY = 'numberSequences'; // Last number issued per document series
+const SNAPSHOTS_STORE = 'snapshots';
+const SNAPSHOT_DATA_STORE = 'snapshotData';
+const OUTBOX_STORE = 'outbox';
+const SYNC_CONFLICTS_STORE = 'syncConflicts';
+const AUDIT_LOG_STORE = 'auditLog';
+
+const createStores = (db: IDBDatabase) => {
+    if (!db.objectStoreNames.contains('quotations')) {
+        const store = db.createObjectStore('quotations', { keyPath: 'id' });
+        store.createIndex('date', 'date');
+        store.createIndex('status', 'status');
+        store.createIndex('clientId', 'clientDetails.clientId');
+    }
+    if (!db.objectStoreNames.contains('invoices')) {
+        const store = db.createObjectStore('invoices', { keyPath: 'id' });
+        store.createIndex('invoiceDate', 'invoiceDate');
+        store.createIndex('status', 'status');
+        store.createIndex('clientId', 'clientDetails.clientId');
+        store.createIndex('quotationId', 'quotationId');
+    }
+    if (!db.objectStoreNames.contains('clients')) {
+        const store = db.createObjectStore('clients', { keyPath: 'id' });
+        store.createIndex('name', 'name');
+    }
+    if (!db.objectStoreNames.contains('expenses')) {
+        const store = db.createObjectStore('expenses', { keyPath: 'id' });
+        store.createIndex('date', 'date');
+        store.createIndex('category', 'category');
+        store.createIndex('quotationId', 'quotationId');
+    }
+    if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+    }
+    // Added in version 2: snapshot summaries, and the snapshot contents kept apart so listing stays cheap
+    if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        const store = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+    }
+    if (!db.objectStoreNames.contains(SNAPSHOT_DATA_STORE)) {
+        db.createObjectStore(SNAPSHOT_DATA_STORE);
+    }
+    // Added in version 3: local changes waiting to be pushed, one per record, and the sync conflict log
+    if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'key' });
+    }
+    if (!db.objectStoreNames.contains(SYNC_CONFLICTS_STORE)) {
+        const store = db.createObjectStore(SYNC_CONFLICTS_STORE, { keyPath: 'id' });
+        store.createIndex('at', 'at');
+    }
+    // Added in version 4: append-only change log of quotations and invoices
+    if (!db.objectStoreNames.contains(AUDIT_LOG_STORE)) {
+        const store = db.createObjectStore(AUDIT_LOG_STORE, { keyPath: 'id' });
+        store.createIndex('documentId', 'documentId');
+    }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => createStores(request.result);
+            request.onsuccess = () => {
+                const db = request.result;
+                // Another tab upgraded the schema; let it proceed and reopen on the next call
+                db.onversionchange = () => {
+                    db.close();
+                    dbPromise = null;
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('The database is open in another tab with an older version. Close other tabs and reload.'));
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const read = async <T>(storeName: string, query: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return requestResult(query(db.transaction(storeName, 'readonly').objectStore(storeName)));
+};
+
+/**
+ * Runs `work` in one transaction and resolves once it has committed. Failures (including the
+ * browser running out of quota) reject with the transaction's error.
+ */
+const runTransaction = async <T>(storeNames: string | string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => T): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(storeNames, mode);
+        let result: T;
+        tx.oncomplete = () => resolve(result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('The storage transaction was aborted.'));
+        try {
+            result = work(tx);
+        } catch (error) {
+            tx.abort();
+            reject(error);
+        }
+    });
+};
+
+export const isQuotaExceededError = (error: unknown): boolean =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/** A message fit to show the user when saving fails. */
+export const describeStorageError = (error: unknown): string => {
+    if (isQuotaExceededError(error)) {
+        return 'Storage is full, so your latest changes were not saved. Export a backup, then delete old quotations or use smaller logo and signature images to free up space.';
+    }
+    return `Your latest changes could not be saved (${error instanceof Error ? error.message : String(error)}). Export a backup to keep a copy of your data.`;
+};
+
+export interface Repository<T extends { id: string }> {
+    getAll: () => Promise<T[]>;
+    get: (id: string) => Promise<T | undefined>;
+    getAllByIndex: (index: string, query: IDBValidKey | IDBKeyRange) => Promise<T[]>;
+    put: (record: T) => Promise<void>;
+    delete: (id: string) => Promise<void>;
+    /** Writes only the records that differ between two snapshots of the collection, in one transaction. */
+    sync: (previous: T[], next: T[]) => Promise<void>;
+    replaceAll: (records: T[]) => Promise<void>;
+}
+
+const createRepository = <T extends { id: string }>(storeName: CollectionName): Repository<T> => ({
+    getAll: () => read(storeName, store => store.getAll() as IDBRequest<T[]>),
+    get: (id) => read(storeName, store => store.get(id) as IDBRequest<T | undefined>),
+    getAllByIndex: (index, query) => read(storeName, store => store.index(index).getAll(query) as IDBRequest<T[]>),
+    put: (record) => runTransaction(storeName, 'readwrite', tx => { tx.objectStore(storeName).put(record); }),
+    delete: (id) => runTransaction(storeName, 'readwrite', tx => { tx.objectStore(storeName).delete(id); }),
+    sync: async (previous, next) => {
+        if (previous === next) return;
+        // State updates are immutable, so an unchanged record is the very same object
+        const previousById = new Map(previous.map(record => [record.id, record]));
+        const changed = next.filter(record => previousById.get(record.id) !== record);
+        const nextIds = new Set(next.map(record => record.id));
+        const removed = previous.filter(record => !nextIds.has(record.id));
+        if (changed.length === 0 && removed.length === 0) return;
+
+        await runTransaction(storeName, 'readwrite', tx => {
+            const store = tx.objectStore(storeName);
+            changed.forEach(record => store.put(record));
+            removed.forEach(record => store.delete(record.id));
+        });
+    },
+    replaceAll: (records) => runTransaction(storeName, 'readwrite', tx => {
+        const store = tx.objectStore(storeName);
+        store.clear();
+        records.forEach(record => store.put(record));
+    }),
+});
+
+export const quotationRepository = createRepository<QuotationData>('quotations');
+export const invoiceRepository = createRepository<InvoiceData>('invoices');
+export const clientRepository = createRepository<Client>('clients');
+export const expenseRepository = createRepository<Expense>('expenses');
+
+export const getMeta = <T>(key: string): Promise<T | undefined> =>
+    read(META_STORE, store => store.get(key) as IDBRequest<T | undefined>);
+
+export const putMeta = <T>(key: string, value: T): Promise<void> =>
+    runTransaction(META_STORE, 'readwrite', tx => { tx.objectStore(META_STORE).put(value, key); });
+
+export const saveSettings = (settings: Settings) => putMeta('settings', settings);
+
+export const getStoredNumberSequences = async (): Promise<NumberSequences> =>
+    (await getMeta<NumberSequences>(NUMBER_SEQUENCES_KEY)) || {};
+
+export const saveNumberSequences = (sequences: NumberSequences) => putMeta(NUMBER_SEQUENCES_KEY, sequences);
+
+// Left unknown: the records are copied as-is and checked by the schema validators when the data is next read
+const readLegacyArray = (key: string): unknown[] => {
+    try {
+        const saved = localStorage.getItem(key);
+        const parsed: unknown = saved ? JSON.parse(saved) : [];
+        return Array.isArray(parsed) ? parsed.filter((record: unknown) => typeof record === 'object' && record !== null && 'id' in record && !!record.id) : [];
+    } catch (error) {
+        console.error(`Failed to parse ${key} from localStorage`, error);
+        return [];
+    }
+};
+
+/**
+ * Copies data saved by older versions of the app out of localStorage, once. The old keys are only
+ * removed after the copy has committed, so a failed migration is retried on the next load.
+ */
+export const migrateFromLocalStorage = async (): Promise<boolean> => {
+    if (await getMeta<boolean>(MIGRATED_KEY)) return false;
+
+    let legacySettings: Partial<Settings> | null = null;
+    try {
+        const saved = localStorage.getItem(LEGACY_STORAGE_KEYS.settings);
+        legacySettings = saved ? JSON.parse(saved) : null;
+    } catch (error) {
+        console.error('Failed to parse settings from localStorage', error);
+    }
+
+    const collections: Record<CollectionName, unknown[]> = {
+        quotations: readLegacyArray(LEGACY_STORAGE_KEYS.quotations),
+        invoices: readLegacyArray(LEGACY_STORAGE_KEYS.invoices),
+        clients: readLegacyArray(LEGACY_STORAGE_KEYS.clients),
+        expenses: readLegacyArray(LEGACY_STORAGE_KEYS.expenses),
+    };
+
+    await runTransaction([...Object.keys(collections), META_STORE], 'readwrite', tx => {
+        (Object.keys(collections) as CollectionName[]).forEach(name => {
+            const store = tx.objectStore(name);
+            collections[name].forEach(record => store.put(record));
+        });
+        if (legacySettings) tx.objectStore(META_STORE).put(legacySettings, 'settings');
+        tx.objectStore(META_STORE).put(true, MIGRATED_KEY);
+    });
+
+    Object.values(LEGACY_STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+    return true;
+};
+
+/**
+ * Everything the app keeps, migrating any localStorage data from older versions first and then
+ * bringing each collection up to the current schema. Records changed by the migration are written back.
+ */
+export const loadStoredData = async (): Promise<{ data: DataSet; report: MigrationReport }> => {
+    await migrateFromLocalStorage();
+    // Ask the browser not to evict our data under storage pressure; it may decline
+    navigator.storage?.persist?.().catch(() => undefined);
+
+    const [quotations, invoices, clients, expenses, settings, versions] = await Promise.all([
+        quotationRepository.getAll(),
+        invoiceRepository.getAll(),
+        clientRepository.getAll(),
+        expenseRepository.getAll(),
+        getMeta<Partial<Settings>>('settings'),
+        getMeta<Partial<SchemaVersions>>(SCHEMA_VERSIONS_KEY),
+    ]);
+
+    const result = migrateData({ quotations, invoices, clients, expenses, settings }, versions || 1);
+    await Promise.all([
+        quotationRepository.sync(quotations, result.data.quotations),
+        invoiceRepository.sync(invoices, result.data.invoices),
+        clientRepository.sync(clients, result.data.clients),
+        expenseRepository.sync(expenses, result.data.expenses),
+    ]);
+    await putMeta(SCHEMA_VERSIONS_KEY, currentSchemaVersions());
+    return result;
+};
+
+/** The collections, settings and number counters exactly as stored, for snapshots taken outside of React state. */
+export const readStoredData = async (): Promise<{ data: DataSet; numberSequences: NumberSequences }> => {
+    const [quotations, invoices, clients, expenses, settings, numberSequences] = await Promise.all([
+        quotationRepository.getAll(),
+        invoiceRepository.getAll(),
+        clientRepository.getAll(),
+        expenseRepository.getAll(),
+        getMeta<Settings>('settings'),
+        getStoredNumberSequences(),
+    ]);
+    return { data: { quotations, invoices, clients, expenses, settings: { ...DEFAULT_SETTINGS, ...(settings || {}) } }, numberSequences };
+};
+
+export interface StoredSnapshot {
+    id: string;
+    createdAt: number; // timestamp
+    counts: Record<CollectionName, number>;
+    location: 'indexeddb' | 'directory'; // Where the contents are: the snapshotData store or a file in the chosen folder
+    fileName?: string;
+}
+
+export const getSnapshots = (): Promise<StoredSnapshot[]> =>
+    read(SNAPSHOTS_STORE, store => store.getAll() as IDBRequest<StoredSnapshot[]>);
+
+export const getSnapshotData = <T>(id: string): Promise<T | undefined> =>
+    read(SNAPSHOT_DATA_STORE, store => store.get(id) as IDBRequest<T | undefined>);
+
+/** Saves a snapshot summary, and its contents when they are kept in IndexedDB. */
+export const putSnapshot = <T>(snapshot: StoredSnapshot, data?: T): Promise<void> =>
+    runTransaction([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite', tx => {
+        tx.objectStore(SNAPSHOTS_STORE).put(snapshot);
+        if (data !== undefined) tx.objectStore(SNAPSHOT_DATA_STORE).put(data, snapshot.id);
+    });
+
+export const deleteSnapshots = (ids: string[]): Promise<void> =>
+    runTransaction([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite', tx => {
+        ids.forEach(id => {
+            tx.objectStore(SNAPSHOTS_STORE).delete(id);
+            tx.objectStore(SNAPSHOT_DATA_STORE).delete(id);
+        });
+    });
+
+// Sync outbox and conflict log; the record shapes belong to the sync service
+
+export const getOutbox = <T>(): Promise<T[]> =>
+    read(OUTBOX_STORE, store => store.getAll() as IDBRequest<T[]>);
+
+/** Queues changes, replacing any change already waiting for the same record. */
+export const putOutbox = <T extends { key: string }>(entries: T[]): Promise<void> =>
+    runTransaction(OUTBOX_STORE, 'readwrite', tx => {
+        entries.forEach(entry => tx.objectStore(OUTBOX_STORE).put(entry));
+    });
+
+export const deleteOutbox = (keys: string[]): Promise<void> =>
+    runTransaction(OUTBOX_STORE, 'readwrite', tx => {
+        keys.forEach(key => tx.objectStore(OUTBOX_STORE).delete(key));
+    });
+
+export const getSyncConflicts = <T>(): Promise<T[]> =>
+    read(SYNC_CONFLICTS_STORE, store => store.getAll() as IDBRequest<T[]>);
+
+export const addSyncConflicts = <T extends { id: string }>(conflicts: T[]): Promise<void> =>
+    runTransaction(SYNC_CONFLICTS_STORE, 'readwrite', tx => {
+        conflicts.forEach(conflict => tx.objectStore(SYNC_CONFLICTS_STORE).put(conflict));
+    });
+
+export const clearSyncConflicts = (): Promise<void> =>
+    runTransaction(SYNC_CONFLICTS_STORE, 'readwrite', tx => { tx.objectStore(SYNC_CONFLICTS_STORE).clear(); });
+
+// Audit log: entries are only ever added, never changed or removed
+
+export const getAuditEntries = (documentId?: string): Promise<AuditEntry[]> =>
+    read(AUDIT_LOG_STORE, store => (documentId === undefined ? store.getAll() : store.index('documentId').getAll(documentId)) as IDBRequest<AuditEntry[]>);
+
+/** Adds entries, skipping any already stored (as when a backup is restored twice). */
+export const addAuditEntries = (entries: AuditEntry[]): Promise<void> =>
+    runTransaction(AUDIT_LOG_STORE, 'readwrite', tx => {
+        const store = tx.objectStore(AUDIT_LOG_STORE);
+        entries.forEach(entry => {
+            const existing = store.getKey(entry.id);
+            existing.onsuccess = () => {
+                if (existing.result === undefined) store.add(entry);
+            };
+        });
+    });
@@ -0,0 +1,414 @@
+import { Settings, SyncMeta } from '../types';
+import {
+    CollectionName, addSyncConflicts, clientRepository, deleteOutbox, expenseRepository, getMeta, getOutbox,
+    getSyncConflicts, clearSyncConflicts, invoiceRepository, putMeta, putOutbox, quotationRepository,
+} from './storageService';
+import { NumberSequences, getNumberSequences, mergeNumberSequences, setNumberSequences } from './numberingService';
+import { getRevisionRootId } from './revisionService';
+
+export type SyncCollection = CollectionName | 'settings' | 'numberSequences';
+
+// Settings travel as a single record under this id
+export const SETTINGS_RECORD_ID = 'settings';
+
+// So do the document number counters, which are merged (highest per series) rather than overwritten
+export const NUMBER_SEQUENCES_RECORD_ID = 'numberSequences';
+
+// Settings that belong to this device; kept out of what is sent to other devices
+const LOCAL_SETTINGS_FIELDS = ['syncEnabled', 'syncEndpoint', 'syncToken', 'syncIntervalMinutes', 'auditUserName'] as const;
+
+const DEVICE_ID_KEY = 'hanifgoldDeviceId';
+const CURSOR_KEY = 'syncCursor'; // Server sequence number pulled up to
+const SEEDED_KEY = 'syncSeeded'; // Whether records saved before sync was set up have been queued
+const LAST_SYNC_KEY = 'lastSyncAt';
+const SYNCED_SEQUENCES_KEY = 'syncedNumberSequences'; // The counters change last exchanged with the server
+
+/** One record's latest state as exchanged with the server. Deletions are kept as tombstones without a record. */
+export interface SyncChange {
+    key: string; // `${collection}:${id}`
+    collection: SyncCollection;
+    id: string;
+    updatedAt: number;
+    revision: number;
+    updatedBy: string;
+    deleted?: boolean;
+    record?: any;
+}
+
+type ChangeMeta = Pick<SyncChange, 'updatedAt' | 'revision' | 'updatedBy' | 'deleted'>;
+
+export interface SyncConflict {
+    id: string;
+    at: number; // When the conflict was resolved
+    collection: SyncCollection;
+    recordId: string;
+    label: string;
+    winner: 'local' | 'remote';
+    local: ChangeMeta;
+    remote: ChangeMeta;
+}
+
+export interface SyncResult {
+    pushed: number;
+    changes: SyncChange[]; // Remote changes to apply to the app's state
+    conflicts: number;
+    duplicateNumbers: string[]; // e.g. "Invoice INV-2025-0007", given to two documents on different devices
+}
+
+export interface SyncStatus {
+    state: 'idle' | 'syncing' | 'offline' | 'error';
+    message?: string;
+    lastSyncAt?: number;
+}
+
+export const getDeviceId = (): string => {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+        id = crypto.randomUUID();
+        localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+};
+
+const changeKey = (collection: SyncCollection, id: string) => `${collection}:${id}`;
+
+/** Last writer wins: the later change, then the higher revision, then the device id as a tie-break. */
+export const isNewer = (a: SyncMeta, b: SyncMeta): boolean =>
+    ((a.updatedAt || 0) - (b.updatedAt || 0) || (a.revision || 0) - (b.revision || 0) || (a.updatedBy || '').localeCompare(b.updatedBy || '')) > 0;
+
+// Records are immutable in state, so object identity tells us where a changed record came from
+const stampedRecords = new WeakSet<object>(); // Stamped here after a local edit
+const remoteRecords = new WeakSet<object>(); // Received from another device
+const remoteDeletes = new Set<string>(); // Keys deleted by another device, not to be sent back
+
+const withoutLocalSettings = (settings: Settings) => {
+    const shared: Record<string, unknown> = { ...settings };
+    LOCAL_SETTINGS_FIELDS.forEach(field => { delete shared[field]; });
+    return shared;
+};
+
+const toChange = (collection: SyncCollection, id: string, record: (SyncMeta & object) | undefined, meta: Required<SyncMeta>, deleted = false): SyncChange => ({
+    key: changeKey(collection, id),
+    collection,
+    id,
+    updatedAt: meta.updatedAt,
+    revision: meta.revision,
+    updatedBy: meta.updatedBy,
+    ...(deleted
+        ? { deleted: true }
+        : { record: collection === 'settings' ? withoutLocalSettings(record as Settings) : record }),
+});
+
+// A record's content without its sync fields, with keys sorted so copies built on different devices compare equal
+const contentOf = (record: object): string => JSON.stringify(record, (key, value) => {
+    if (key === 'updatedAt' || key === 'revision' || key === 'updatedBy') return undefined;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return Object.fromEntries(Object.keys(value).sort().map(k => [k, value[k]]));
+    }
+    return value;
+});
+
+/** True when two copies of a record differ only in who saved them and when, e.g. both devices adding the same late fee. */
+const isSameContent = (a: SyncChange, b: SyncChange): boolean =>
+    !!a.deleted === !!b.deleted && (!a.record || !b.record || contentOf(a.record) === contentOf(b.record));
+
+const stamp = <T extends SyncMeta>(record: T, previous: T | undefined, deviceId: string): T => {
+    const stamped = {
+        ...record,
+        updatedAt: Math.max(Date.now(), (previous?.updatedAt || 0) + 1),
+        revision: (previous?.revision ?? record.revision ?? 0) + 1,
+        updatedBy: deviceId,
+    };
+    stampedRecords.add(stamped);
+    return stamped;
+};
+
+/**
+ * Sorts out one record that differs from what was last saved. A local edit is first returned
+ * `stamped` with new sync fields (to be put back into state); once stamped it comes back as a `change`
+ * for the outbox. Records received from other devices need neither.
+ */
+export const prepareLocalRecord = <T extends SyncMeta & object>(collection: SyncCollection, id: string, previous: T | undefined, next: T, deviceId: string): { stamped?: T; change?: SyncChange } => {
+    if (remoteRecords.has(next)) return {};
+    // A new copy with nothing changed, such as a reconcile pass that found nothing to do, is not an edit
+    if (previous && !stampedRecords.has(next) && contentOf(previous) === contentOf(next)) return {};
+    // Changing only this device's own settings is not an edit to share
+    if (collection === 'settings' && previous && !stampedRecords.has(next)
+        && JSON.stringify(withoutLocalSettings(previous as unknown as Settings)) === JSON.stringify(withoutLocalSettings(next as unknown as Settings))) return {};
+    if (!stampedRecords.has(next)) return { stamped: stamp(next, previous, deviceId) };
+    return { change: toChange(collection, id, next, next as Required<SyncMeta>) };
+};
+
+/**
+ * The same for a whole collection: returns the collection with local edits stamped when any needed it,
+ * otherwise the outbox entries for changed and deleted records.
+ */
+export const prepareLocalChanges = <T extends SyncMeta & { id: string }>(collection: CollectionName, previous: T[], next: T[], deviceId: string): { stamped: T[] | null; changes: SyncChange[] } => {
+    if (previous === next) return { stamped: null, changes: [] };
+    const previousById = new Map(previous.map(record => [record.id, record]));
+    const changes: SyncChange[] = [];
+    let needsStamp = false;
+
+    const stamped = next.map(record => {
+        const before = previousById.get(record.id);
+        if (before === record) return record;
+        const result = prepareLocalRecord(collection, record.id, before, record, deviceId);
+        if (result.stamped) {
+            needsStamp = true;
+            return result.stamped;
+        }
+        if (result.change) changes.push(result.change);
+        return record;
+    });
+    if (needsStamp) return { stamped, changes: [] };
+
+    const nextIds = new Set(next.map(record => record.id));
+    previous.filter(record => !nextIds.has(record.id)).forEach(record => {
+        const key = changeKey(collection, record.id);
+        if (remoteDeletes.has(key)) return;
+        changes.push(toChange(collection, record.id, undefined, { updatedAt: Date.now(), revision: (record.revision || 0) + 1, updatedBy: deviceId }, true));
+    });
+    return { stamped: null, changes };
+};
+
+export const queueChanges = (changes: SyncChange[]) => changes.length > 0 ? putOutbox(changes) : Promise.resolve();
+
+export const getPendingChangeCount = async () => (await getOutbox<SyncChange>()).length;
+
+/** A collection with remote changes applied; the records are marked so they are not sent back. */
+export const applyRemoteChanges = <T extends { id: string }>(items: T[], collection: CollectionName, changes: SyncChange[]): T[] => {
+    const relevant = changes.filter(change => change.collection === collection);
+    if (relevant.length === 0) return items;
+    const byId = new Map(relevant.map(change => [change.id, change]));
+    const kept = items
+        .filter(record => !byId.get(record.id)?.deleted)
+        .map(record => {
+            const change = byId.get(record.id);
+            return change?.record ? change.record as T : record;
+        });
+    const existingIds = new Set(items.map(record => record.id));
+    const added = relevant.filter(change => !change.deleted && change.record && !existingIds.has(change.id)).map(change => change.record as T);
+    return [...kept, ...added];
+};
+
+// Marks remote records and deletions before they go into state, so the persistence hook recognises them
+const registerRemoteChanges = (changes: SyncChange[]) => {
+    changes.forEach(change => {
+        if (change.deleted) {
+            remoteDeletes.add(change.key);
+        } else if (change.record) {
+            const meta = { updatedAt: change.updatedAt, revision: change.revision, updatedBy: change.updatedBy };
+            change.record = change.collection === 'settings' ? { ...change.record, ...meta } : { ...change.record, id: change.id, ...meta };
+            remoteRecords.add(change.record);
+        }
+    });
+};
+
+/** Remote settings, keeping this device's own settings. */
+export const mergeRemoteSettings = (current: Settings, change: SyncChange): Settings => {
+    const merged: Settings = { ...current, ...change.record };
+    const keep = <K extends keyof Settings>(field: K) => { merged[field] = current[field]; };
+    LOCAL_SETTINGS_FIELDS.forEach(keep);
+    remoteRecords.add(merged);
+    return merged;
+};
+
+const repositories = {
+    quotations: quotationRepository,
+    invoices: invoiceRepository,
+    clients: clientRepository,
+    expenses: expenseRepository,
+};
+
+const getLocalRecord = (collection: Exclude<SyncCollection, 'numberSequences'>, id: string): Promise<(SyncMeta & Record<string, any>) | undefined> =>
+    collection === 'settings' ? getMeta<Settings>('settings') : repositories[collection].get(id);
+
+const getRecordLabel = (collection: SyncCollection, record: any): string => {
+    if (!record) return collection;
+    switch (collection) {
+        case 'quotations': return record.quotationNumber || record.clientDetails?.clientName || 'Quotation';
+        case 'invoices': return record.invoiceNumber || 'Invoice';
+        case 'clients': return record.name || 'Client';
+        case 'expenses': return record.description || 'Expense';
+        case 'settings': return 'Settings';
+        case 'numberSequences': return 'Document numbers';
+    }
+};
+
+const metaOf = (change: SyncChange): ChangeMeta => ({ updatedAt: change.updatedAt, revision: change.revision, updatedBy: change.updatedBy, ...(change.deleted ? { deleted: true } : {}) });
+
+const logConflict = (local: SyncChange, remote: SyncChange, winner: 'local' | 'remote'): SyncConflict => ({
+    id: crypto.randomUUID(),
+    at: Date.now(),
+    collection: remote.collection,
+    recordId: remote.id,
+    label: getRecordLabel(remote.collection, remote.record || local.record),
+    winner,
+    local: metaOf(local),
+    remote: metaOf(remote),
+});
+
+const post = async (settings: Settings, path: string, body: unknown) => {
+    const endpoint = settings.syncEndpoint.trim().replace(/\/+$/, '');
+    const response = await fetch(`${endpoint}${path}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(settings.syncToken ? { Authorization: `Bearer ${settings.syncToken}` } : {}),
+        },
+        body: JSON.stringify(body),
+    });
+    if (response.status === 401 || response.status === 403) throw new Error('The sync server did not accept the access token.');
+    if (!response.ok) throw new Error(`The sync server returned an error (${response.status}).`);
+    return response.json();
+};
+
+/** True for failures that mean "no connection" rather than a problem with the server or data. */
+export const isOfflineError = (error: unknown) => error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine);
+
+// Records saved before sync was set up have no outbox entries yet; queue them all once
+const seedOutbox = async (deviceId: string) => {
+    if (await getMeta<boolean>(SEEDED_KEY)) return;
+    const changes: SyncChange[] = [];
+    for (const collection of Object.keys(repositories) as CollectionName[]) {
+        (await repositories[collection].getAll()).forEach((record: SyncMeta & { id: string }) => changes.push(
+            toChange(collection, record.id, record, { updatedAt: record.updatedAt || 0, revision: record.revision || 0, updatedBy: record.updatedBy || deviceId })
+        ));
+    }
+    const settings = await getMeta<Settings>('settings');
+    if (settings) {
+        changes.push(toChange('settings', SETTINGS_RECORD_ID, settings, { updatedAt: settings.updatedAt || 0, revision: settings.revision || 0, updatedBy: settings.updatedBy || deviceId }));
+    }
+    // Anything already queued is newer than its saved copy
+    const queued = new Set((await getOutbox<SyncChange>()).map(change => change.key));
+    await putOutbox(changes.filter(change => !queued.has(change.key)));
+    await putMeta(SEEDED_KEY, true);
+};
+
+// Queues the counters whenever this device has issued a number beyond what was last exchanged
+const queueNumberSequences = async (deviceId: string) => {
+    const synced = await getMeta<SyncChange>(SYNCED_SEQUENCES_KEY);
+    const syncedSequences: NumberSequences = synced?.record || {};
+    const merged = mergeNumberSequences(syncedSequences, getNumberSequences());
+    if (synced && JSON.stringify(merged) === JSON.stringify(syncedSequences)) return;
+    await putOutbox([toChange('numberSequences', NUMBER_SEQUENCES_RECORD_ID, merged, {
+        updatedAt: Math.max(Date.now(), (synced?.updatedAt || 0) + 1),
+        revision: (synced?.revision || 0) + 1,
+        updatedBy: deviceId,
+    })]);
+};
+
+// Counters from another device raise ours; never a conflict, since keeping the higher of each is always right
+const adoptNumberSequences = async (remote: SyncChange) => {
+    await setNumberSequences(mergeNumberSequences(getNumberSequences(), remote.record || {}));
+    await putMeta(SYNCED_SEQUENCES_KEY, remote);
+};
+
+/**
+ * Quotation and invoice numbers that, once `changes` are applied, belong to more than one document
+ * and involve a record from another device. Revisions of one quotation share a number and do not count.
+ */
+const findDuplicateNumbers = async (changes: SyncChange[]): Promise<string[]> => {
+    const duplicates: string[] = [];
+    const check = async (collection: 'quotations' | 'invoices', label: string, numberOf: (record: any) => string, ownerOf: (record: any) => string) => {
+        const relevant = changes.filter(change => change.collection === collection);
+        const incoming = relevant.filter(change => change.record).map(change => change.record);
+        if (incoming.length === 0) return;
+        const changedIds = new Set(relevant.map(change => change.id));
+        const stored = (await repositories[collection].getAll()).filter(record => !changedIds.has(record.id));
+        const owners = new Map<string, Set<string>>();
+        [...stored, ...incoming].forEach(record => {
+            const number = numberOf(record);
+            if (!number) return;
+            owners.set(number, (owners.get(number) || new Set()).add(ownerOf(record)));
+        });
+        new Set(incoming.map(numberOf)).forEach(number => {
+            if (number && (owners.get(number)?.size || 0) > 1) duplicates.push(`${label} ${number}`);
+        });
+    };
+    await check('quotations', 'Quotation', q => q.quotationNumber, getRevisionRootId);
+    await check('invoices', 'Invoice', invoice => invoice.invoiceNumber, invoice => invoice.id);
+    return duplicates;
+};
+
+/**
+ * One sync round: pushes the outbox, then pulls everything changed on the server since the last round.
+ * Clashes are settled last-writer-wins and logged. The returned changes still have to be applied to state.
+ */
+export const runSync = async (settings: Settings): Promise<SyncResult> => {
+    if (!settings.syncEndpoint.trim()) throw new Error('Enter the address of your sync server first.');
+    const deviceId = getDeviceId();
+    const conflicts: SyncConflict[] = [];
+    const toApply: SyncChange[] = [];
+    await seedOutbox(deviceId);
+    await queueNumberSequences(deviceId);
+
+    // Push. The server keeps whichever copy is newer and sends back its own when ours loses.
+    const outbox = await getOutbox<SyncChange>();
+    if (outbox.length > 0) {
+        const { results } = await post(settings, '/push', { deviceId, changes: outbox }) as { results: { key: string; status: 'accepted' | 'rejected'; current?: SyncChange }[] };
+        const sent = new Map(outbox.map(change => [change.key, change]));
+        for (const result of results) {
+            const local = sent.get(result.key);
+            if (local?.collection === 'numberSequences') {
+                if (result.status === 'accepted') await putMeta(SYNCED_SEQUENCES_KEY, local);
+                else if (result.current) await adoptNumberSequences(result.current);
+            } else if (local && result.status === 'rejected' && result.current) {
+                if (!isSameContent(local, result.current)) conflicts.push(logConflict(local, result.current, 'remote'));
+                toApply.push(result.current);
+            }
+        }
+        // Only clear entries that were not replaced by a newer local change while the request was out
+        const current = await getOutbox<SyncChange>();
+        await deleteOutbox(current
+            .filter(change => {
+                const pushed = sent.get(change.key);
+                return pushed && results.some(r => r.key === change.key) && !isNewer(change, pushed);
+            })
+            .map(change => change.key));
+    }
+
+    // Pull
+    const since = (await getMeta<number>(CURSOR_KEY)) || 0;
+    const { changes, cursor } = await post(settings, '/pull', { deviceId, since }) as { changes: SyncChange[]; cursor: number };
+    const pending = new Map((await getOutbox<SyncChange>()).map(change => [change.key, change]));
+    const superseded: string[] = [];
+    for (const remote of changes) {
+        if (remote.updatedBy === deviceId || toApply.some(change => change.key === remote.key)) continue;
+        if (remote.collection === 'numberSequences') {
+            // A queued copy may lack the remote counters; it is queued again merged next round if still needed
+            await adoptNumberSequences(remote);
+            superseded.push(remote.key);
+            continue;
+        }
+        const local = pending.get(remote.key);
+        if (local) {
+            const remoteWins = isNewer(remote, local);
+            if (!isSameContent(local, remote)) conflicts.push(logConflict(local, remote, remoteWins ? 'remote' : 'local'));
+            if (remoteWins) {
+                toApply.push(remote);
+                superseded.push(remote.key);
+            }
+            continue;
+        }
+        const current = await getLocalRecord(remote.collection, remote.id);
+        if (current ? isNewer(remote, current) : !remote.deleted) toApply.push(remote);
+    }
+    await deleteOutbox(superseded);
+    await putMeta(CURSOR_KEY, cursor);
+    await putMeta(LAST_SYNC_KEY, Date.now());
+    if (conflicts.length > 0) await addSyncConflicts(conflicts);
+
+    const duplicateNumbers = await findDuplicateNumbers(toApply);
+
+    registerRemoteChanges(toApply);
+    return { pushed: outbox.length, changes: toApply, conflicts: conflicts.length, duplicateNumbers };
+};
+
+export const getLastSyncAt = () => getMeta<number>(LAST_SYNC_KEY);
+
+/** Conflicts settled so far, newest first. */
+export const getConflictLog = async (): Promise<SyncConflict[]> =>
+    (await getSyncConflicts<SyncConflict>()).sort((a, b) => b.at - a.at);
+
+export const clearConflictLog = () => clearSyncConflicts();
@@ -1,9 +1,34 @@
 
+// Sync bookkeeping, stamped on a record whenever it is changed on this device
+export interface SyncMeta {
+  updatedAt?: number; // timestamp of the last change
+  revision?: number; // Incremented on every change
+  updatedBy?: string; // Id of the device that made the last change
+}
+
 export interface Adjustment {
   description: string;
   amount: number;
 }
 
+// Where a line's unit price came from, in priority order of the pricing rules
+export type PriceSource = 'explicit' | 'size-rule' | 'category-default' | 'material-default' | 'ai-estimate' | 'manual';
+
+// "Why this price?" record attached to each tile/material line when it is priced
+export interface PriceProvenance {
+  source: PriceSource;
+  matchedSizeRule?: { size: string; price: number }; // The tilePricesBySize entry that matched
+  settingsField?: string; // Settings price field used for a default, e.g. "toiletWallTilePrice"
+  coverageRate?: number; // m² per carton used to convert between m² and cartons
+  quantityFrom?: 'sqm' | 'cartons'; // Which stated quantity the other one was derived from
+  unroundedCartons?: number; // m² / coverage rate before rounding up to whole cartons
+  defaultSizeApplied?: boolean; // True when no size was stated and the category default was used
+  assumedQuantity?: boolean; // The notes gave no quantity (e.g. only "50kg"), so 1 was assumed; the line needs checking
+}
+
+// How the tiles are laid; drives the wastage allowance added on top of the net cartons
+export type LayingPattern = 'Straight' | 'Diagonal' | 'Herringbone' | 'Brick Bond';
+
 export interface Tile {
   category: string;
   cartons: number;
@@ -13,6 +38,31 @@ export interface Tile {
   // confidence: number; // Removed as per user request to hide debug info
   size?: string;
   group?: string; // New: e.g., "Flat 1", "BQ", "General"
+  pattern?: LayingPattern;
+  // Worked out when the line is resolved or its pattern/quantity is edited, so later settings changes leave saved documents alone
+  wastagePercentage?: number;
+  wastageCartons?: number;
+  provenance?: PriceProvenance;
+}
+
+// A door or window deducted from a room's tiled wall area (metres)
+export interface RoomOpening {
+  kind: 'door' | 'window';
+  width: number;
+  height: number;
+}
+
+// Raw site measurements for one room, entered in room-dimension mode (metres)
+export interface RoomMeasurement {
+  id: string;
+  name: string; // e.g. "Master Bedroom", "Toilet"
+  group?: string;
+  floorLength: number;
+  floorWidth: number;
+  wallPerimeter: number; // 0 when the walls are not tiled
+  wallHeight: number;
+  openings: RoomOpening[];
+  skirtingRun: number; // Running metres of skirting, 0 for none
 }
 
 export interface Material {
@@ -21,13 +71,25 @@ export interface Material {
   unit: string;
   unitPrice: number;
   // confidence: number; // Removed as per user request to hide debug info
+  provenance?: PriceProvenance;
 }
 
-export interface Client {
+export type ClientInteractionType = 'Site Visit' | 'Call' | 'Follow-up' | 'Meeting' | 'Note';
+
+// One entry in a client's notes/interaction log
+export interface ClientInteraction {
+  id: string;
+  date: number; // timestamp
+  type: ClientInteractionType;
+  note: string;
+}
+
+export interface Client extends SyncMeta {
   id: string;
   name: string;
   address: string;
   phone: string;
+  interactions?: ClientInteraction[];
 }
 
 export interface ClientDetails {
@@ -45,9 +107,11 @@ export interface ClientDetails {
 export interface ChecklistItem {
     item: string;
     checked: boolean;
+    billingPercentage?: number; // Share of the contract billed as an interim invoice when this stage is ticked
+    invoiceId?: string; // The interim invoice raised for this stage
 }
 
-export interface QuotationData {
+export interface QuotationData extends SyncMeta {
   id: string;
   date: number; // timestamp
   status: 'Pending' | 'Accepted' | 'Rejected' | 'Invoiced';
@@ -76,15 +140,77 @@ export interface QuotationData {
   showMaintenance?: boolean;
   showTax?: boolean;
   showCostSummary?: boolean;
+
+  // Which engine produced the initial draft: the Gemini AI or the offline notes parser
+  generatedBy?: 'ai' | 'offline';
+  aiUnavailableReason?: string; // Set when the AI was wanted but the offline parser stood in, so the draft gets checked
+
+  // Raw room dimensions the tile lines were derived from, kept so they can be re-derived and audited
+  roomMeasurements?: RoomMeasurement[];
+
+  // Sequential quotation number issued by the numbering service, e.g. "QUO-2025-0007"
+  quotationNumber?: string;
+
+  // Revisions (Rev A, Rev B…) share the id of the first revision; both are absent until a quotation is revised
+  rootQuotationId?: string;
+  revisionCode?: string;
+}
+
+export type PaymentMethod = 'Bank Transfer' | 'Cash' | 'POS' | 'Cheque' | 'Other';
+
+// One amount received against an invoice; an invoice can be settled in several instalments
+export interface Payment {
+  id: string;
+  date: number; // timestamp
+  amount: number;
+  method: PaymentMethod;
+  reference: string; // Transfer reference, cheque number, etc.
+  receiptNumber?: string; // Issued when the payment is saved with its invoice
+}
+
+// A full or partial credit against an invoice; a full credit cancels the invoice
+export interface CreditNote {
+  id: string;
+  creditNoteNumber?: string; // Issued when the credit note is saved with its invoice
+  invoiceId: string; // The original invoice being credited
+  date: number; // timestamp
+  amount: number;
+  reason: string;
+  refundAmount: number; // Part of the credit that exceeded the unpaid balance, i.e. cash to hand back
 }
 
-export interface InvoiceData {
+// A late payment fee charged for one period an invoice stayed unpaid past its due date
+export interface LateFee {
+  id: string;
+  date: number; // timestamp, when the period ended
+  period: number; // 1 for the first period overdue, 2 for the second, ...
+  amount: number;
+  description: string;
+  waived?: boolean; // Kept rather than removed, so the period is not charged again
+}
+
+export type ReminderStage = 'first' | 'second' | 'final';
+
+export interface InvoiceReminder {
+  stage: ReminderStage;
+  sentAt: number; // timestamp
+}
+
+// Stage billing: an invoice for part of the quotation (deposit, interim or final balance) rather than all of it
+export interface InvoiceStage {
+  type: 'deposit' | 'interim' | 'balance';
+  label: string; // e.g. "Deposit (50%)"
+  amount: number; // Amount billed by this invoice, tax inclusive
+  previouslyInvoiced: number; // Billed on earlier stage invoices of the same quotation when this one was raised
+}
+
+export interface InvoiceData extends SyncMeta {
   id: string;
   quotationId: string;
   invoiceNumber: string;
   invoiceDate: number; // timestamp
   dueDate: number; // timestamp
-  status: 'Unpaid' | 'Paid' | 'Overdue';
+  status: 'Unpaid' | 'Partially Paid' | 'Paid' | 'Overdue' | 'Cancelled'; // Invoices are cancelled with a credit note, never deleted
   clientDetails: ClientDetails;
   tiles: Tile[];
   materials: Material[];
@@ -94,12 +220,25 @@ export interface InvoiceData {
   paymentTerms: string;
   bankDetails: string;
   invoiceNotes: string;
-  paymentDate?: number;
+  // Pricing components and visibility copied from the quotation; optional as older invoices predate them
+  adjustments?: Adjustment[];
+  depositPercentage?: number | null;
+  showTax?: boolean;
+  showWorkmanship?: boolean;
+  showMaintenance?: boolean;
+  checklist?: ChecklistItem[];
+  showChecklist?: boolean;
+  stage?: InvoiceStage; // Absent for an invoice covering the whole quotation
+  paymentDate?: number; // When the balance reached zero
+  payments?: Payment[];
+  creditNotes?: CreditNote[];
+  lateFees?: LateFee[];
+  reminders?: InvoiceReminder[]; // Payment reminders already sent to the client
   showMaterials?: boolean;
   showAdjustments?: boolean;
 }
 
-export interface Expense {
+export interface Expense extends SyncMeta {
   id: string;
   date: number; // timestamp
   category: string;
@@ -109,7 +248,7 @@ export interface Expense {
 }
 
 
-export interface Settings {
+export interface Settings extends SyncMeta {
   // Pricing & Calculation
   wallTilePrice: number;
   floorTilePrice: number;
@@ -128,11 +267,16 @@ export interface Settings {
   whiteCementPrice: number;
   sharpSandPrice: number;
   workmanshipRate: number;
-  wastageFactor: number; // e.g., 1.10 for 10%
+  // Wastage (%) added as extra cartons: the laying pattern's figure plus any entry for the tile size
+  wastageByPattern: Record<LayingPattern, number>;
+  wastageBySize: { size: string; percentage: number }[];
   
   // New: Size-based pricing rules
   tilePricesBySize: { size: string; price: number }[];
 
+  // Parse job notes locally instead of calling the AI (the AI also falls back to it on failure)
+  useOfflineParser: boolean;
+
   // Coverage Rates (m2 per carton)
   wallTileM2PerCarton: number;
   floorTileM2PerCarton: number;
@@ -145,6 +289,7 @@ export interface Settings {
   toiletFloorTileM2PerCarton: number;
   kitchenWallTileM2PerCarton: number;
   kitchenFloorTileM2PerCarton: number;
+  skirtingHeight: number; // m, height of skirting strips for room measurements
   
   // New: Default Tile Sizes per Area
   defaultToiletWallSize: string;
@@ -175,6 +320,7 @@ export interface Settings {
   companyAddress: string;
   companyEmail: string;
   companyPhone: string;
+  defaultCountryCode: string; // Dialling code used to put local client numbers in international format, e.g. "234"
   documentTitle: string;
   companyLogo: string; // Base64 encoded image
   companySignature: string; // Base64 encoded image for signature
@@ -192,8 +338,63 @@ export interface Settings {
   
   // Invoicing
   invoicePrefix: string;
+  // Numbering templates, tokens: {prefix} {yyyy} {yy} {mm} {seq} {seq:0000}
+  invoiceNumberTemplate: string;
+  quotationPrefix: string;
+  quotationNumberTemplate: string;
+  receiptPrefix: string;
+  receiptNumberTemplate: string;
+  creditNotePrefix: string;
+  creditNoteNumberTemplate: string;
+  resetNumberingYearly: boolean;
   defaultBankDetails: string;
   defaultInvoiceNotes: string;
   paymentUrl: string;
   showQRCode: boolean;
+
+  // Late fees: charged once for every full period an invoice is overdue, either a flat amount or a % of the unpaid balance
+  lateFeeEnabled: boolean;
+  lateFeeType: 'flat' | 'percentage';
+  lateFeeAmount: number;
+  lateFeePeriodDays: number;
+  lateFeeMaxPeriods: number; // 0 for no limit
+
+  // Days past the due date at which each payment reminder falls due
+  reminderFirstDays: number;
+  reminderSecondDays: number;
+  reminderFinalDays: number;
+
+  // Automatic local snapshots of all data, and the reminder to export a backup
+  autoSnapshotEnabled: boolean;
+  snapshotIntervalHours: number;
+  snapshotKeepCount: number; // Older snapshots are deleted beyond this many
+  backupReminderDays: number; // Warn when no backup has been exported for this many days, 0 to never warn
+
+  // Sync between devices through a self-hosted endpoint; these fields stay on each device and are not synced
+  syncEnabled: boolean;
+  syncEndpoint: string; // Base URL, e.g. "http://192.168.1.10:8787"
+  syncToken: string; // Sent as a Bearer token when set
+  syncIntervalMinutes: number;
+
+  // Name recorded against changes in the audit trail; kept on this device like the sync fields
+  auditUserName: string;
+}
+
+export type AuditDocumentType = 'quotation' | 'invoice';
+
+export interface AuditFieldChange {
+  path: string; // e.g. "status", "tiles[2].unitPrice"
+  from?: unknown; // Absent when the field was added
+  to?: unknown; // Absent when the field was removed
+}
+
+// One entry in a document's append-only change log
+export interface AuditEntry {
+  id: string;
+  documentType: AuditDocumentType;
+  documentId: string;
+  at: number; // timestamp
+  user?: string;
+  action: 'created' | 'updated' | 'deleted';
+  changes: AuditFieldChange[];
 }